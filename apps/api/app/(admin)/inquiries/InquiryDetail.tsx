@@ -1,4 +1,5 @@
 import { InquiryRow, Citation } from '@/app/actions/inquiries';
+import EmployerCostBreakdown from '@/components/EmployerCostBreakdown';
 
 interface InquiryDetailProps {
   inquiry: InquiryRow;
@@ -67,6 +68,8 @@ export default function InquiryDetail({ inquiry }: InquiryDetailProps) {
   const taxes = inquiry.details?.taxes;
   const socialSecurity = inquiry.details?.socialSecurity;
   const citations = inquiry.details?.citations;
+  const employerCost = inquiry.details?.employerCost;
+  const salaryProvenance = inquiry.details?.salaryProvenance;
 
   return (
     <div className="space-y-6">
@@ -133,6 +136,14 @@ export default function InquiryDetail({ inquiry }: InquiryDetailProps) {
               {taxDetails.numberOfChildren || taxDetails.childCount || '0'}
             </p>
           </div>
+          <div>
+            <span className="text-sm font-medium text-gray-500 dark:text-gray-400">Krankenversicherung:</span>
+            <p className="text-sm text-gray-900 dark:text-gray-100">
+              {taxDetails.healthInsurance === 'privat'
+                ? `privat${taxDetails.pkvPremium ? ` (${formatCurrency(taxDetails.pkvPremium)}/Monat)` : ''}`
+                : 'gesetzlich'}
+            </p>
+          </div>
         </div>
       </div>
 
@@ -196,6 +207,16 @@ export default function InquiryDetail({ inquiry }: InquiryDetailProps) {
         </div>
       </div>
 
+      {/* Employer cost - employer projects only */}
+      {employerCost && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+            Arbeitgeberkosten
+          </h3>
+          <EmployerCostBreakdown employerCost={employerCost} />
+        </div>
+      )}
+
       {/* Email */}
       {inquiry.email && (
         <div>
@@ -208,6 +229,37 @@ export default function InquiryDetail({ inquiry }: InquiryDetailProps) {
         </div>
       )}
 
+      {/* Salary provenance - document table row of the Tabellenentgelt */}
+      {salaryProvenance && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+            Herkunft Tabellenentgelt
+          </h3>
+          <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+            <div>
+              {salaryProvenance.sourceUrl ? (
+                <a
+                  href={salaryProvenance.sourceUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-blue-600 hover:underline dark:text-blue-400"
+                >
+                  {salaryProvenance.filename}
+                </a>
+              ) : (
+                <span className="font-medium text-gray-900 dark:text-gray-100">{salaryProvenance.filename}</span>
+              )}
+              {salaryProvenance.page && <span className="ml-1">, S. {salaryProvenance.page}</span>}
+              {salaryProvenance.section && <span className="ml-1">, {salaryProvenance.section}</span>}
+              {salaryProvenance.year && <span className="ml-1">({salaryProvenance.year})</span>}
+            </div>
+            <code className="block text-xs bg-gray-100 dark:bg-gray-900 px-2 py-1 rounded overflow-x-auto">
+              {salaryProvenance.row}
+            </code>
+          </div>
+        </div>
+      )}
+
       {/* Citations - Admin traceability (Phase 11) */}
       {citations && citations.length > 0 && (
         <div>
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { ChevronDown, ChevronRight, Filter } from 'lucide-react';
 import { getInquiries, InquiryRow, InquiryFilters } from '@/app/actions/inquiries';
+import { NO_TARIF, TARIFF_PROVIDERS } from '@/utils/agent/tools/tariffs';
 import InquiryDetail from './InquiryDetail';
 
 interface InquiryTableProps {
@@ -97,9 +98,10 @@ export default function InquiryTable({ initialData, totalCount }: InquiryTablePr
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
             >
               <option value="">Alle</option>
-              <option value="tvoed">TVöD</option>
-              <option value="tv-l">TV-L</option>
-              <option value="avr">AVR</option>
+              {Object.values(TARIFF_PROVIDERS).map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.label}</option>
+              ))}
+              <option value={NO_TARIF}>kein Tarif</option>
             </select>
           </div>
 
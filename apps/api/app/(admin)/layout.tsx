@@ -41,6 +41,9 @@ export default async function DashboardLayout({
           <Link href="/inquiries" className="block px-4 py-2 text-gray-700 hover:bg-gray-100 rounded dark:text-gray-300 dark:hover:bg-gray-700">
             Anfragen
           </Link>
+          <Link href="/tariffs" className="block px-4 py-2 text-gray-700 hover:bg-gray-100 rounded dark:text-gray-300 dark:hover:bg-gray-700">
+            Tariftabellen
+          </Link>
 
         </nav>
          <div className="absolute bottom-0 w-64 p-4 border-t dark:border-gray-700">
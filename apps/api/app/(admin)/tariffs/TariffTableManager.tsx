@@ -0,0 +1,189 @@
+"use client";
+
+import { useActionState, useState } from 'react';
+import {
+  StoredTariffTableRow,
+  TariffTableActionState,
+  deleteTariffTableVersion,
+  importBuiltInTariffTables,
+  importTariffTable,
+  saveTariffTableRow,
+} from '@/app/actions/tariffTables';
+import { TARIFF_PROVIDERS, type TarifId } from '@/utils/agent/tools/tariffs';
+
+const STUFEN = [1, 2, 3, 4, 5, 6];
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+const initialState: TariffTableActionState = {};
+
+export default function TariffTableManager({ rows }: { rows: StoredTariffTableRow[] }) {
+  const [tarif, setTarif] = useState<TarifId>('tvoed');
+  const tarifLabel = TARIFF_PROVIDERS[tarif].label;
+  const [message, setMessage] = useState('');
+  const [saveState, saveAction, isSaving] = useActionState(saveTariffTableRow, initialState);
+  const [importState, importAction, isImporting] = useActionState(importTariffTable, initialState);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('de-DE', {
+      style: 'currency',
+      currency: 'EUR'
+    }).format(value);
+  };
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('de-DE');
+  };
+
+  // valid_from -> gruppe -> Stufe values, newest version first
+  const versions = new Map<string, Map<string, Array<number | undefined>>>();
+  for (const row of rows.filter(r => r.tarif === tarif)) {
+    const groups = versions.get(row.valid_from) ?? new Map<string, Array<number | undefined>>();
+    const salaries = groups.get(row.gruppe) ?? [];
+    salaries[row.stufe - 1] = Number(row.monthly_gross);
+    groups.set(row.gruppe, salaries);
+    versions.set(row.valid_from, groups);
+  }
+
+  const handleDeleteVersion = async (validFrom: string) => {
+    if (confirm(`Tabelle ${tarifLabel} gültig ab ${formatDate(validFrom)} löschen?`)) {
+      const result = await deleteTariffTableVersion(tarif, validFrom);
+      setMessage(result.error || '');
+    }
+  };
+
+  const handleImportBuiltIn = async () => {
+    const result = await importBuiltInTariffTables(tarif);
+    setMessage(result.error || `${result.imported} Werte übernommen.`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end gap-4 flex-wrap">
+        <div className="min-w-[200px]">
+          <label className={labelClass}>Tarif</label>
+          <select value={tarif} onChange={(e) => setTarif(e.target.value as TarifId)} className={inputClass}>
+            {Object.values(TARIFF_PROVIDERS).map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.label}</option>
+            ))}
+          </select>
+        </div>
+        {message && <p className="text-sm text-gray-600 dark:text-gray-400">{message}</p>}
+      </div>
+
+      {versions.size === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400 space-y-2">
+          <p>Keine Einträge für {tarifLabel} – die Berechnung nutzt die eingebauten Tabellen.</p>
+          <button
+            onClick={handleImportBuiltIn}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Eingebaute Tabellen übernehmen
+          </button>
+        </div>
+      ) : (
+        [...versions.entries()].map(([validFrom, groups]) => (
+          <div key={validFrom} className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto">
+            <div className="flex items-center justify-between px-4 py-2 bg-gray-50 dark:bg-gray-900">
+              <h2 className="font-semibold text-gray-800 dark:text-white">
+                {tarifLabel} gültig ab {formatDate(validFrom)}
+              </h2>
+              <button
+                onClick={() => handleDeleteVersion(validFrom)}
+                className="text-sm text-red-600 hover:text-red-800 dark:text-red-400"
+              >
+                Version löschen
+              </button>
+            </div>
+            <table className="min-w-full text-sm">
+              <thead className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+                <tr>
+                  <th className="px-4 py-2 text-left">Gruppe</th>
+                  {STUFEN.map(stufe => (
+                    <th key={stufe} className="px-4 py-2 text-right">Stufe {stufe}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {[...groups.entries()].map(([gruppe, salaries]) => (
+                  <tr key={gruppe}>
+                    <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{gruppe}</td>
+                    {STUFEN.map(stufe => (
+                      <td key={stufe} className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">
+                        {salaries[stufe - 1] !== undefined ? formatCurrency(salaries[stufe - 1]!) : '–'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <form action={saveAction} className="space-y-3 bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600">
+          <h2 className="font-semibold text-gray-800 dark:text-white">Wert anlegen / ändern</h2>
+          <input type="hidden" name="tarif" value={tarif} />
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Gültig ab</label>
+              <input type="date" name="valid_from" required className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Entgeltgruppe</label>
+              <input type="text" name="gruppe" required placeholder="P7" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Stufe</label>
+              <select name="stufe" className={inputClass}>
+                {STUFEN.map(stufe => <option key={stufe} value={stufe}>{stufe}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Monatsbrutto (€)</label>
+              <input type="text" name="monthly_gross" required placeholder="3447,24" className={inputClass} />
+            </div>
+          </div>
+          {saveState?.error && <p className="text-sm text-red-600 dark:text-red-400">{saveState.error}</p>}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Speichern...' : 'Speichern'}
+          </button>
+        </form>
+
+        <form action={importAction} className="space-y-3 bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600">
+          <h2 className="font-semibold text-gray-800 dark:text-white">Tabelle importieren</h2>
+          <input type="hidden" name="tarif" value={tarif} />
+          <div>
+            <label className={labelClass}>Gültig ab</label>
+            <input type="date" name="valid_from" required className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Eine Zeile je Gruppe: Gruppe;Stufe 1;...;Stufe 6</label>
+            <textarea
+              name="table"
+              rows={6}
+              required
+              placeholder={'Gruppe;Stufe 1;Stufe 2;Stufe 3;Stufe 4;Stufe 5;Stufe 6\nP7;3096,58;3272,41;3447,24;3622,07;3797,90;3947,68'}
+              className={`${inputClass} font-mono text-xs`}
+            />
+          </div>
+          {importState?.error && <p className="text-sm text-red-600 dark:text-red-400 whitespace-pre-line">{importState.error}</p>}
+          {importState?.success && <p className="text-sm text-green-600 dark:text-green-400">{importState.imported} Werte importiert.</p>}
+          <button
+            type="submit"
+            disabled={isImporting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isImporting ? 'Importieren...' : 'Importieren'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { getTariffTableRows } from '@/app/actions/tariffTables';
+import TariffTableManager from './TariffTableManager';
+
+export default async function TariffsPage() {
+  const { data: rows, error } = await getTariffTableRows();
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-800 dark:text-white">
+          Tariftabellen
+        </h1>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
+        {error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        ) : (
+          <TariffTableManager rows={rows || []} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 "use server";
 
 import { createClient } from "../../utils/supabase/server";
+import type { EmployerCost } from "../../utils/tax/types";
+import type { TariffProvenance } from "../../lib/vectorstore/VectorstoreService";
 
 export interface InquiryFilters {
   dateFrom?: string;    // ISO date string
   dateTo?: string;      // ISO date string
-  tarif?: string;       // 'tvoed' | 'tv-l' | 'avr' | '' (all)
+  tarif?: string;       // TarifId | '' (all)
   sortBy?: string;      // Column name, default 'created_at'
   sortOrder?: 'asc' | 'desc'; // Default 'desc'
 }
@@ -32,6 +34,8 @@ export interface InquiryRow {
     job_details?: Record<string, any>;
     tax_details?: Record<string, any>;
     citations?: Citation[];  // Admin-only RAG citations from Phase 11
+    employerCost?: EmployerCost;  // Admin-only Arbeitgeberbrutto, employer projects only
+    salaryProvenance?: TariffProvenance;  // Admin-only document table row the salary was read from
     [key: string]: any;
   };
 }
@@ -0,0 +1,193 @@
+'use server';
+
+import { createClient } from '@/utils/supabase/server';
+import { revalidatePath } from 'next/cache';
+import {
+  getBuiltInTariffRows,
+  invalidateTariffTables,
+  parseTariffTableImport,
+  type TariffTableRow,
+} from '@/utils/agent/tools/tariffTables';
+import { TARIF_IDS, type TarifId } from '@/utils/agent/tools/tariffs';
+
+export type StoredTariffTableRow = TariffTableRow & {
+  id: string;
+  created_at: string;
+};
+
+export type TariffTableActionState = {
+  error?: string;
+  success?: boolean;
+  imported?: number;
+};
+
+export async function getTariffTableRows(tarif?: string) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: 'Unauthorized' };
+  }
+
+  let query = supabase
+    .from('tariff_tables')
+    .select('*')
+    .order('valid_from', { ascending: false })
+    .order('gruppe', { ascending: true })
+    .order('stufe', { ascending: true });
+
+  if (tarif) {
+    query = query.eq('tarif', tarif);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[TariffTables] Failed to fetch:', error);
+    return { data: null, error: error.message };
+  }
+
+  return { data: data as StoredTariffTableRow[], error: null };
+}
+
+/**
+ * Create or update the value of one group/Stufe in a table version
+ */
+export async function saveTariffTableRow(prevState: TariffTableActionState, formData: FormData): Promise<TariffTableActionState> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  const tarif = formData.get('tarif') as string;
+  const validFrom = formData.get('valid_from') as string;
+  const gruppe = (formData.get('gruppe') as string || '').trim();
+  const stufe = parseInt(formData.get('stufe') as string, 10);
+  const monthlyGross = parseFloat((formData.get('monthly_gross') as string || '').replace(',', '.'));
+
+  if (!TARIF_IDS.includes(tarif as TarifId)) {
+    return { error: 'Unbekannter Tarif' };
+  }
+  if (!validFrom || !gruppe) {
+    return { error: 'Gültig ab und Entgeltgruppe sind erforderlich' };
+  }
+  if (!(stufe >= 1 && stufe <= 6)) {
+    return { error: 'Stufe muss zwischen 1 und 6 liegen' };
+  }
+  if (!(monthlyGross > 0)) {
+    return { error: 'Monatsbrutto muss größer als 0 sein' };
+  }
+
+  const { error } = await supabase
+    .from('tariff_tables')
+    .upsert(
+      { tarif, valid_from: validFrom, gruppe, stufe, monthly_gross: monthlyGross },
+      { onConflict: 'tarif,valid_from,gruppe,stufe' }
+    );
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  invalidateTariffTables();
+  revalidatePath('/tariffs');
+  return { success: true };
+}
+
+/**
+ * Import a whole table version (one line per group, Stufe 1-6 as columns).
+ * Existing values of the same tarif, date, group and Stufe are overwritten.
+ */
+export async function importTariffTable(prevState: TariffTableActionState, formData: FormData): Promise<TariffTableActionState> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  const tarif = formData.get('tarif') as string;
+  const validFrom = formData.get('valid_from') as string;
+  const text = formData.get('table') as string || '';
+
+  if (!TARIF_IDS.includes(tarif as TarifId)) {
+    return { error: 'Unbekannter Tarif' };
+  }
+
+  const { rows, errors } = parseTariffTableImport(text, tarif, validFrom);
+  if (errors.length > 0) {
+    return { error: errors.join('\n') };
+  }
+  if (rows.length === 0) {
+    return { error: 'Keine Werte gefunden' };
+  }
+
+  const { error } = await supabase
+    .from('tariff_tables')
+    .upsert(rows, { onConflict: 'tarif,valid_from,gruppe,stufe' });
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  invalidateTariffTables();
+  revalidatePath('/tariffs');
+  return { success: true, imported: rows.length };
+}
+
+/**
+ * Copy the built-in tables of a tariff into the store, as a starting point for edits
+ */
+export async function importBuiltInTariffTables(tarif: string) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  const rows = getBuiltInTariffRows().filter(row => row.tarif === tarif);
+  if (rows.length === 0) {
+    return { error: 'Unbekannter Tarif' };
+  }
+
+  const { error } = await supabase
+    .from('tariff_tables')
+    .upsert(rows, { onConflict: 'tarif,valid_from,gruppe,stufe' });
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  invalidateTariffTables();
+  revalidatePath('/tariffs');
+  return { success: true, imported: rows.length };
+}
+
+/**
+ * Delete a whole table version (all groups and Stufen of the tarif valid from the date)
+ */
+export async function deleteTariffTableVersion(tarif: string, validFrom: string) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  const { error } = await supabase
+    .from('tariff_tables')
+    .delete()
+    .eq('tarif', tarif)
+    .eq('valid_from', validFrom);
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  invalidateTariffTables();
+  revalidatePath('/tariffs');
+  return { success: true };
+}
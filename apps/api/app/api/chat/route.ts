@@ -5,9 +5,15 @@ import { Content } from "@google/genai";
 import type { FormState, UserIntent } from "../../../types/form";
 import { ConversationAnalyzer, type IntentAnalysis } from "../../../utils/agent/ConversationAnalyzer";
 import { fieldValidator, type FieldValidationResult } from "../../../utils/agent/FieldValidator";
-import { VectorstoreService, formatPageRange } from "../../../lib/vectorstore/VectorstoreService";
+import { VectorstoreService, formatPageRange, type TariffProvenance } from "../../../lib/vectorstore/VectorstoreService";
 import { BonusConfig, isBonusConfig } from "../../../types/bonus-config";
-import { AllowanceCalculator } from "../../../utils/allowances";
+import { AllowanceCalculator, getAllowanceSplit } from "../../../utils/allowances";
+import { findTariffPositionsForGross, getTariffHourlyRate, getTariffIncreases, getTariffSpecialPayments } from "../../../utils/agent/tools/tariffLookup";
+import { loadTariffTables } from "../../../utils/agent/tools/tariffTables";
+import { NO_TARIF_FULL_TIME_HOURS, getTariffProvider, isNoTarif, normalizeTarif } from "../../../utils/agent/tools/tariffs";
+import { formatStufe, resolveStufe } from "../../../utils/agent/tools/stufenlaufzeit";
+import { calculateRequiredHours } from "../../../utils/agent/tools/netToGross";
+import { QUALIFICATION_LEVEL_LABELS, checkPflegemindestlohn, formatPflegemindestlohnWarning, getMonthlyGross, parseActualGross, type PflegemindestlohnCheck, type QualificationLevel } from "../../../utils/agent/tools/pflegemindestlohn";
 
 // Citation type for admin traceability
 interface Citation {
@@ -16,9 +22,10 @@ interface Citation {
   pages: string | null;  // "S. 5" or "S. 5-7" or null
   similarity: number;
 }
-import { TaxWrapper, type SalaryInput } from "../../../utils/tax";
+import { TaxWrapper, getChurchTaxRegion, getKrankenkasseZusatzbeitrag, getZusatzversorgung, type EmployerCost, type EmploymentType, type MonthlyPayslip, type SalaryInput, type TaxClassComparison, type TaxResult } from "../../../utils/tax";
 import { generateSuggestions, generateEscalationChips } from "../../../lib/suggestions";
 import { loadSession, saveSession } from "../../../lib/chatSession";
+import { createClient as createSessionClient } from "../../../utils/supabase/server";
 
 /**
  * Build a chat response with PROGRESS tags stripped from text.
@@ -27,7 +34,7 @@ import { loadSession, saveSession } from "../../../lib/chatSession";
 function buildChatResponse(
   text: string,
   formState: FormState,
-  extras?: { suggestions?: string[]; inquiryId?: string | null }
+  extras?: { suggestions?: string[]; inquiryId?: string | null; monthlyProjection?: MonthlyPayslip[]; employerCost?: EmployerCost }
 ) {
   // Extract progress value from first match
   const progressMatch = text.match(/\[PROGRESS:\s*(\d+)%?\]/);
@@ -44,6 +51,20 @@ function buildChatResponse(
   });
 }
 
+/**
+ * Whether the request comes from a logged-in admin (Direct API Chat of the test widget).
+ * Widget requests from customer sites carry no Supabase session cookie.
+ */
+async function isAdminRequest(): Promise<boolean> {
+    try {
+        const supabase = await createSessionClient();
+        const { data: { user } } = await supabase.auth.getUser();
+        return !!user;
+    } catch {
+        return false;
+    }
+}
+
 // Lazy Initialize Supabase Admin Client
 let supabaseAdminInstance: SupabaseClient | null = null;
 
@@ -220,6 +241,29 @@ export async function POST(request: Request) {
 
             // --- HANDLE COMPLETED STATE ---
             if (nextFormState.section === 'completed') {
+                // Follow-up scenario: "Was kostet mich 100 € Entgeltumwandlung netto?"
+                const bavAmount = parseEntgeltumwandlung(message);
+                if (bavAmount && nextFormState.data.calculation_result?.brutto) {
+                    const responseText = formatEntgeltumwandlungAnswer(bavAmount, nextFormState);
+
+                    await saveSession(getSupabaseAdmin(), sessionId, nextFormState, message, responseText);
+                    return buildChatResponse(responseText, nextFormState, {
+                        suggestions: await generateSuggestions(nextFormState, responseText)
+                    });
+                }
+
+                // Reverse question ("Wie viel brutto brauche ich für 2.500 € netto?"): answer with the solver
+                const targetNetto = parseTargetNetto(message);
+                if (targetNetto && nextFormState.data.calculation_result?.brutto) {
+                    await loadTariffTables(getSupabaseAdmin());
+                    const responseText = formatNettoTargetAnswer(targetNetto, nextFormState);
+
+                    await saveSession(getSupabaseAdmin(), sessionId, nextFormState, message, responseText);
+                    return buildChatResponse(responseText, nextFormState, {
+                        suggestions: await generateSuggestions(nextFormState, responseText)
+                    });
+                }
+
                 const responsePrompt = `
                     Du bist ein freundlicher Gehalts-Chatbot für Pflegekräfte.
                     Die Berechnung wurde bereits abgeschlossen.
@@ -365,124 +409,138 @@ Fortschritt: [PROGRESS: ${SalaryStateMachine.getProgress(nextFormState, bonusCon
                     const { executeTariffLookup } = await import("../../../utils/agent/tools/tariffLookup");
                     const taxWrapper = new TaxWrapper();
                     const jobData = nextFormState.data.job_details || {};
+                    const calculationYear = new Date().getFullYear();
+
+                    // Tariff tables (and increases during the year) come from tariff_tables
+                    await loadTariffTables(getSupabaseAdmin());
                     const taxData = nextFormState.data.tax_details || {};
 
-                    // Parse experience to stufe (1-6)
-                    let stufe = '2'; // Default
-                    if (jobData.experience) {
-                        const expStr = String(jobData.experience).toLowerCase();
-                        const stufeMatch = expStr.match(/stufe\s*(\d)/i) || expStr.match(/^(\d)$/);
-                        if (stufeMatch) {
-                            stufe = stufeMatch[1];
-                        } else {
-                            // Parse years of experience
-                            const yearsMatch = expStr.match(/(\d+)/);
-                            if (yearsMatch) {
-                                const years = parseInt(yearsMatch[1], 10);
-                                if (years < 1) stufe = '1';
-                                else if (years < 3) stufe = '2';
-                                else if (years < 6) stufe = '3';
-                                else if (years < 10) stufe = '4';
-                                else if (years < 15) stufe = '5';
-                                else stufe = '6';
-                            }
-                        }
-                    }
+                    // Stufe from the Stufenlaufzeiten: the base salary (and the saved/shown Stufe) is the one on 1 January,
+                    // a Stufenaufstieg during the year applies from its month like a tariff increase
+                    const stufeAtYearStart = resolveStufe(jobData.tarif, jobData.experience, `${calculationYear}-01-01`);
+                    const stepUpThisYear = stufeAtYearStart.nextStufe && stufeAtYearStart.nextStepUp?.startsWith(`${calculationYear}-`)
+                        ? { fromMonth: parseInt(stufeAtYearStart.nextStepUp.slice(5, 7), 10), stufe: String(stufeAtYearStart.nextStufe) }
+                        : undefined;
 
                     // Normalize tarif to valid enum value
-                    let normalizedTarif: 'tvoed' | 'tv-l' | 'avr' = 'tvoed';
-                    const tarifLower = (jobData.tarif || '').toLowerCase().replace('tvöd', 'tvoed');
-                    if (tarifLower === 'tv-l' || tarifLower === 'tvl') {
-                        normalizedTarif = 'tv-l';
-                    } else if (tarifLower === 'avr') {
-                        normalizedTarif = 'avr';
-                    }
-
-                    // Ensure stufe is valid enum value
-                    const validStufe = ['1', '2', '3', '4', '5', '6'].includes(stufe)
-                        ? stufe as '1' | '2' | '3' | '4' | '5' | '6'
-                        : '2' as const;
+                    const normalizedTarif = normalizeTarif(jobData.tarif);
+                    const tariffProvider = getTariffProvider(normalizedTarif);
+                    const group = jobData.group || tariffProvider.defaultGroup;
+                    const validStufe = String(stufeAtYearStart.stufe) as '1' | '2' | '3' | '4' | '5' | '6';
 
-                    // --- RAG-BASED TARIFF LOOKUP ---
-                    // First try to get salary from uploaded documents
+                    // --- DOCUMENT TARIFF LOOKUP ---
+                    // Entgelttabellen parsed from uploaded documents (exact lookup), used where tariff_tables has no newer version
                     let estimatedYearlySalary: number;
-                    let salarySource: string = 'hardcoded';
-
-                    const ragTariffResult = await vectorstore.queryTariffData(
-                        normalizedTarif,
-                        jobData.group || 'P7',
-                        validStufe,
-                        activeProjectId
-                    );
-
-                    if (ragTariffResult.success && ragTariffResult.yearlyGross) {
-                        // Adjust for part-time if needed
-                        const hours = jobData.hours || 38.5;
-                        const fullTimeHours = 38.5;
-                        estimatedYearlySalary = ragTariffResult.yearlyGross * (hours / fullTimeHours);
-                        salarySource = ragTariffResult.source || 'document';
-                        console.log('[StateMachine] Using RAG tariff data:', {
-                            yearly: estimatedYearlySalary,
-                            monthly: ragTariffResult.monthlyGross,
-                            source: salarySource
+                    let salarySource: string = 'tariff_tables';
+                    let salaryFromDocument = false;
+                    let salaryProvenance: TariffProvenance | undefined;
+
+                    // Without tariff: the actual gross as entered, checked against the Pflegemindestlohn
+                    const noTarif = isNoTarif(jobData.tarif);
+                    let pflegemindestlohnCheck: PflegemindestlohnCheck | undefined;
+                    let pflegemindestlohnWarning: string | undefined;
+
+                    if (noTarif) {
+                        const actualGross = parseActualGross(jobData.actualGross);
+                        const hours = jobData.hours || NO_TARIF_FULL_TIME_HOURS;
+                        estimatedYearlySalary = actualGross ? getMonthlyGross(actualGross, hours) * 12 : 0;
+                        salarySource = 'actual_gross';
+
+                        const level = jobData.qualificationLevel as QualificationLevel | undefined;
+                        if (actualGross && level) {
+                            pflegemindestlohnCheck = checkPflegemindestlohn(actualGross, hours, level);
+                            pflegemindestlohnWarning = formatPflegemindestlohnWarning(pflegemindestlohnCheck, level);
+                        }
+                        console.log('[StateMachine] No tariff, using actual gross:', {
+                            actualGross: jobData.actualGross,
+                            hourlyWage: pflegemindestlohnCheck?.hourlyWage,
+                            belowPflegemindestlohn: Boolean(pflegemindestlohnWarning)
                         });
                     } else {
-                        // Fall back to hardcoded tables
-                        console.log('[StateMachine] RAG tariff lookup failed, using hardcoded tables:', ragTariffResult.error);
+                        // Base salary of the year: table valid on 1 January, later versions apply as increases
+                        const validOn = `${calculationYear}-01-01`;
+                        const ragTariffResult = await vectorstore.queryTariffData(
+                            normalizedTarif,
+                            group,
+                            validStufe,
+                            project.id,
+                            validOn
+                        );
 
-                        const tariffResult = executeTariffLookup({
+                        const lookupInput = {
                             tarif: normalizedTarif,
-                            group: jobData.group || 'P7',
+                            group,
                             stufe: validStufe,
-                            hours: jobData.hours || 38.5
-                        });
+                            hours: jobData.hours || tariffProvider.fullTimeHours,
+                            validOn
+                        };
+                        let tariffResult = executeTariffLookup(lookupInput);
 
-                        if (!tariffResult.success) {
-                            console.error('[StateMachine] Hardcoded tariff lookup also failed:', tariffResult.error);
-                        }
+                        // A document table only replaces tariff_tables if no version covers the date or it is newer
+                        const tableCoversDate = tariffResult.success && !!tariffResult.validFrom && tariffResult.validFrom <= validOn;
+                        const documentValidFrom = ragTariffResult.provenance?.validFrom;
+                        const useDocument = ragTariffResult.success && !!ragTariffResult.yearlyGross && (
+                            !tableCoversDate || (!!documentValidFrom && documentValidFrom > tariffResult.validFrom!)
+                        );
 
-                        estimatedYearlySalary = tariffResult.success
-                            ? tariffResult.grossSalary!
-                            : estimateYearlySalary(jobData.tarif, jobData.group, jobData.experience, jobData.hours);
-                    }
+                        if (useDocument) {
+                            // Adjust for part-time if needed
+                            const hours = jobData.hours || tariffProvider.fullTimeHours;
+                            estimatedYearlySalary = ragTariffResult.yearlyGross! * (hours / tariffProvider.fullTimeHours);
+                            salarySource = ragTariffResult.source || 'document';
+                            salaryProvenance = ragTariffResult.provenance;
+                            salaryFromDocument = true;
+                            console.log('[StateMachine] Using document tariff table:', {
+                                yearly: estimatedYearlySalary,
+                                monthly: ragTariffResult.monthlyGross,
+                                validFrom: documentValidFrom,
+                                source: salarySource
+                            });
+                        } else {
+                            console.log('[StateMachine] Using tariff_tables:', ragTariffResult.success
+                                ? `document table (gültig ab ${documentValidFrom}) is not newer than ${tariffResult.validFrom}`
+                                : ragTariffResult.error);
+
+                            if (!tariffResult.success) {
+                                // Unknown group (e.g. not in the table of the tariff): estimate with the tariff's default group
+                                console.error(`[StateMachine] Tariff table lookup failed, estimating with ${tariffProvider.defaultGroup}:`, tariffResult.error);
+                                tariffResult = executeTariffLookup({ ...lookupInput, group: tariffProvider.defaultGroup });
+                            }
 
-                    // Map churchTax to proper format
-                    let churchTaxValue: 'none' | 'bayern' | 'baden_wuerttemberg' | 'common' = 'none';
-                    if (taxData.churchTax === true || taxData.churchTax === 'true' || taxData.churchTax === 'ja') {
-                        // Default to common (9%) for most states
-                        churchTaxValue = 'common';
+                            estimatedYearlySalary = tariffResult.grossSalary ?? 0;
+                            salarySource = `tariff_tables (gültig ab ${tariffResult.validFrom})`;
+                        }
                     }
 
-                    // Map state to category
-                    let stateCategory: 'west' | 'east' | 'sachsen' = 'west';
-                    const stateLower = (jobData.state || '').toLowerCase();
-                    if (stateLower.includes('sachsen') && !stateLower.includes('anhalt')) {
-                        stateCategory = 'sachsen';
-                    } else if (['thüringen', 'sachsen-anhalt', 'brandenburg', 'mecklenburg', 'berlin'].some(s => stateLower.includes(s))) {
-                        stateCategory = 'east';
-                    }
+                    // --- US-016: FORMAT RESULTS ---
+                    // TaxResult returns monthly values already
+                    const monthlyBrutto = estimatedYearlySalary / 12;
+
+                    // Jahressonderzahlung refers to the Entgelt of July-September, i.e. after increases and Stufenaufstieg until then.
+                    // A document table is the Entgelt as printed: tariff_tables increases are not applied on top of it
+                    const tariffIncreases = noTarif
+                        ? []
+                        : getTariffIncreases(normalizedTarif, calculationYear, group, validStufe, stepUpThisYear, !salaryFromDocument);
+                    const septemberBrutto = tariffIncreases
+                        .filter(increase => increase.fromMonth <= 9)
+                        .reduce((brutto, increase) => brutto * (1 + increase.percent / 100), monthlyBrutto);
 
                     const salaryInput: SalaryInput = {
-                        yearlySalary: estimatedYearlySalary,
-                        taxClass: parseInt(taxData.taxClass || '1', 10),
-                        year: new Date().getFullYear(),
-                        hasChildren: (taxData.numberOfChildren || 0) > 0,
-                        childCount: taxData.numberOfChildren || 0,
-                        churchTax: churchTaxValue,
-                        state: stateCategory,
-                        birthYear: taxData.birthYear,
-                        healthInsuranceAddOn: 1.6
+                        ...buildSalaryInput(jobData, taxData, estimatedYearlySalary),
+                        // Tariff one-off payments, taxed as sonstige Bezüge
+                        sonstigeBezuege: noTarif ? [] : getTariffSpecialPayments(normalizedTarif, group, calculationYear, septemberBrutto)
                     };
 
                     console.log('[StateMachine] Calculating salary with input:', salaryInput);
 
-                    // --- US-016: FORMAT RESULTS ---
-                    // TaxResult returns monthly values already
-                    const monthlyBrutto = salaryInput.yearlySalary / 12;
-
                     // Calculate with or without allowances based on bonusConfig
                     let finalNetto: number;
+                    let employmentType: EmploymentType;
+                    let privateHealthInsurance: TaxResult['privateHealthInsurance'];
+                    let sonstigeBezuege: TaxResult['sonstigeBezuege'];
                     let formattedResult: string;
+                    let taxableInput: SalaryInput = salaryInput;
+                    let taxFreeMonthly = 0;
                     let allowancesData: import('../../../types/form').AllowancesBreakdown | undefined;
                     let oneTimeBonusesData: import('../../../types/form').OneTimeBonuses | undefined;
 
@@ -495,22 +553,34 @@ Fortschritt: [PROGRESS: ${SalaryStateMachine.getProgress(nextFormState, bonusCon
                                 lateShifts: jobData.lateShifts || 0,
                                 weekendDays: jobData.weekendDays || 0,
                                 jumpInFrequency: jobData.jumpInFrequency || 0,
+                                weeklyHours: jobData.hours,
+                                shiftHours: jobData.shiftHours,
+                                holidayShifts: jobData.holidayShifts,
+                                state: jobData.state,
+                                year: calculationYear,
                             },
                             jobData.qualifications || [],
                             jobData.employeeType || 'fachkraft',
-                            monthlyBrutto
+                            monthlyBrutto,
+                            // Zeitzuschläge refer to the tariff's Stundenentgelt (without tariff: from the actual gross)
+                            noTarif ? undefined : getTariffHourlyRate(normalizedTarif, group, validStufe, `${calculationYear}-01-01`)
                         );
 
-                        // Calculate taxes with allowances
-                        const taxResultWithAllowances = taxWrapper.calculateWithAllowances(
-                            salaryInput,
-                            {
-                                taxFree: allowanceCalculator.getTaxFreeTotal(allowanceResult),
-                                taxable: allowanceCalculator.getTaxableTotal(allowanceResult)
-                            }
-                        );
+                        // Calculate taxes with allowances: tax-free, tax-free but SV-liable (§3b limits) and taxable
+                        const allowanceSplit = getAllowanceSplit(allowanceResult);
+                        const svLiable = allowanceSplit.svLiable ?? 0;
+                        const taxResultWithAllowances = taxWrapper.calculateWithAllowances(salaryInput, allowanceSplit);
 
+                        taxableInput = {
+                            ...salaryInput,
+                            yearlySalary: salaryInput.yearlySalary + allowanceSplit.taxable * 12,
+                            ...(svLiable > 0 && { svLiableAllowances: svLiable })
+                        };
+                        taxFreeMonthly = allowanceSplit.taxFree + svLiable;
                         finalNetto = taxResultWithAllowances.nettoWithAllowances;
+                        employmentType = taxResultWithAllowances.employmentType;
+                        privateHealthInsurance = taxResultWithAllowances.privateHealthInsurance;
+                        sonstigeBezuege = taxResultWithAllowances.sonstigeBezuege;
                         allowancesData = allowanceCalculator.toFormStateBreakdown(allowanceResult);
                         oneTimeBonusesData = allowanceResult.oneTimeBonuses;
 
@@ -519,8 +589,11 @@ Fortschritt: [PROGRESS: ${SalaryStateMachine.getProgress(nextFormState, bonusCon
                             brutto: monthlyBrutto,
                             netto: taxResultWithAllowances.netto,
                             taxes: taxResultWithAllowances.taxes.lohnsteuer + taxResultWithAllowances.taxes.soli + taxResultWithAllowances.taxes.kirchensteuer,
-                            socialContributions: taxResultWithAllowances.socialSecurity.kv + taxResultWithAllowances.socialSecurity.rv + taxResultWithAllowances.socialSecurity.av + taxResultWithAllowances.socialSecurity.pv,
+                            socialContributions: taxResultWithAllowances.socialSecurity.kv + taxResultWithAllowances.socialSecurity.rv + taxResultWithAllowances.socialSecurity.av + taxResultWithAllowances.socialSecurity.pv + (taxResultWithAllowances.socialSecurity.zusatzversorgung ?? 0),
+                            zusatzversorgung: taxResultWithAllowances.socialSecurity.zusatzversorgung,
                             year: new Date().getFullYear(),
+                            employmentType: taxResultWithAllowances.employmentType,
+                            privateHealthInsurance: taxResultWithAllowances.privateHealthInsurance,
                             allowances: allowancesData,
                             oneTimeBonuses: oneTimeBonusesData,
                             nettoWithAllowances: finalNetto
@@ -530,17 +603,62 @@ Fortschritt: [PROGRESS: ${SalaryStateMachine.getProgress(nextFormState, bonusCon
                         console.log('[StateMachine] Calculated with allowances:', {
                             baseSalary: monthlyBrutto,
                             allowancesTotal: allowanceResult.total,
-                            taxFree: allowanceCalculator.getTaxFreeTotal(allowanceResult),
-                            taxable: allowanceCalculator.getTaxableTotal(allowanceResult),
+                            ...allowanceSplit,
                             finalNetto
                         });
                     } else {
                         // Standard calculation without allowances
                         const calculationResult = taxWrapper.calculate(salaryInput);
                         finalNetto = calculationResult.netto;
+                        employmentType = calculationResult.employmentType;
+                        privateHealthInsurance = calculationResult.privateHealthInsurance;
+                        sonstigeBezuege = calculationResult.sonstigeBezuege;
                         formattedResult = formatCalculationResult(calculationResult, jobData, taxData);
                     }
 
+                    if (pflegemindestlohnWarning) {
+                        formattedResult += '\n\n' + pflegemindestlohnWarning;
+                    }
+
+                    if (sonstigeBezuege) {
+                        formattedResult += '\n\n' + SalaryStateMachine.formatSonstigeBezuege(sonstigeBezuege);
+                    }
+
+                    // Follow-up scenario, answered in the completed state
+                    formattedResult += '\n\n💡 Tipp: Frag mich, was dich z.B. 100 € Entgeltumwandlung in eine Betriebsrente (bAV) netto kosten.';
+
+                    // Married users: compare III/V, IV/IV and IV/IV mit Faktor, the reply ends with the recommendation
+                    let taxClassComparison: TaxClassComparison | undefined;
+                    if ([3, 4, 5].includes(salaryInput.taxClass) && taxData.partnerIncome !== undefined) {
+                        taxClassComparison = taxWrapper.compareTaxClasses(taxableInput, Number(taxData.partnerIncome) * 12);
+                        formattedResult += '\n\n' + SalaryStateMachine.formatTaxClassComparison(taxClassComparison);
+                    }
+
+                    // Payslips January-December: tariff increases and the Stufenaufstieg during the year apply to the base salary
+                    let increasedBrutto = monthlyBrutto;
+                    const monthlyProjection = taxWrapper.calculateMonthlyProjection(taxableInput, {
+                        salaryChanges: tariffIncreases.map(increase => {
+                            increasedBrutto *= 1 + increase.percent / 100;
+                            return {
+                                fromMonth: increase.fromMonth,
+                                monthlyGross: taxableInput.yearlySalary / 12 + increasedBrutto - monthlyBrutto,
+                                reason: increase.reason,
+                            };
+                        }),
+                        taxFreeMonthly,
+                    });
+
+                    // Employer projects: Arbeitgeberbrutto for HR (admin only, never in the applicant's reply)
+                    const percentToRate = (percent?: number) => percent === undefined ? undefined : percent / 100;
+                    const employerCost = bonusConfig
+                        ? taxWrapper.calculateEmployerCost(taxableInput, {
+                            u1Rate: percentToRate(bonusConfig.employerCost?.u1Rate),
+                            u2Rate: percentToRate(bonusConfig.employerCost?.u2Rate),
+                            zusatzversorgungRate: percentToRate(bonusConfig.employerCost?.zusatzversorgungRate),
+                            allowances: { taxFree: taxFreeMonthly, taxable: 0 }
+                        })
+                        : undefined;
+
                     // --- US-017: SAVE TO DATABASE WITH CITATIONS ---
                     // Consolidate citations by document (merge pages from same document)
                     const rawCitations = (nextFormState.ragCitations as Citation[] | undefined) || [];
@@ -549,19 +667,10 @@ Fortschritt: [PROGRESS: ${SalaryStateMachine.getProgress(nextFormState, bonusCon
                     // Use upsert if we have a sessionId (update draft to completed)
                     // Otherwise fall back to insert for backwards compatibility
 
-                    // Parse stufe to integer (column is integer type)
-                    let completedStufe: number = 2; // Default
-                    if (jobData.experience) {
-                        const match = String(jobData.experience).match(/(\d+)/);
-                        if (match) {
-                            completedStufe = parseInt(match[1], 10);
-                        }
-                    }
-
                     const saveData = {
                         public_key: activeProjectId,
-                        gruppe: jobData.group || 'P7',
-                        stufe: completedStufe,
+                        gruppe: noTarif ? null : group,
+                        stufe: noTarif ? null : stufeAtYearStart.stufe,
                         tarif: jobData.tarif || 'tvoed',
                         jahr: String(new Date().getFullYear()),  // Column is text type
                         brutto: monthlyBrutto,
@@ -572,7 +681,15 @@ Fortschritt: [PROGRESS: ${SalaryStateMachine.getProgress(nextFormState, bonusCon
                             job_details: jobData,
                             tax_details: taxData,
                             citations: consolidatedCitations,  // Admin-only RAG citations
-                            salarySource,  // Track if salary came from RAG documents or hardcoded tables
+                            salarySource,  // Track if salary came from RAG documents or tariff_tables
+                            ...(salaryProvenance && { salaryProvenance }),  // Admin-only: document table row of the salary
+                            ...(pflegemindestlohnCheck && { pflegemindestlohnCheck }),  // Without tariff: hourly wage vs. Pflegemindestlohn
+                            employmentType,
+                            ...(privateHealthInsurance && { privateHealthInsurance }),
+                            ...(sonstigeBezuege && { sonstigeBezuege }),
+                            ...(taxClassComparison && { taxClassComparison }),
+                            monthlyProjection,
+                            ...(employerCost && { employerCost }),
                             ...(allowancesData && { allowances: allowancesData }),
                             ...(oneTimeBonusesData && { oneTimeBonuses: oneTimeBonusesData })
                         },
@@ -603,6 +720,11 @@ Fortschritt: [PROGRESS: ${SalaryStateMachine.getProgress(nextFormState, bonusCon
                         taxes: 0,  // Will be populated below
                         socialContributions: 0,
                         year: new Date().getFullYear(),
+                        employmentType,
+                        ...(privateHealthInsurance && { privateHealthInsurance }),
+                        ...(sonstigeBezuege && { sonstigeBezuege }),
+                        ...(taxClassComparison && { taxClassComparison }),
+                        monthlyProjection,
                         ...(allowancesData && { allowances: allowancesData }),
                         ...(oneTimeBonusesData && { oneTimeBonuses: oneTimeBonusesData }),
                         ...(bonusConfig && { nettoWithAllowances: finalNetto })
@@ -612,7 +734,9 @@ Fortschritt: [PROGRESS: ${SalaryStateMachine.getProgress(nextFormState, bonusCon
                     await saveSession(getSupabaseAdmin(), sessionId, nextFormState, message, formattedResult);
                     return buildChatResponse(formattedResult + '\n\n[PROGRESS: 100]', nextFormState, {
                         inquiryId: saveResult.data?.id || null,
-                        suggestions: await generateSuggestions(nextFormState, formattedResult)
+                        suggestions: await generateSuggestions(nextFormState, formattedResult),
+                        monthlyProjection,
+                        ...(employerCost && await isAdminRequest() && { employerCost })
                     });
 
                 } catch (calcError) {
@@ -650,7 +774,7 @@ Fortschritt: [PROGRESS: ${SalaryStateMachine.getProgress(nextFormState, bonusCon
                     Aufgabe: Bestimme welches Feld geändert werden soll und extrahiere den neuen Wert.
                     Gib NUR JSON zurück:
                     {
-                        "field": "feldname (tarif, experience, hours, state, taxClass, churchTax, numberOfChildren)",
+                        "field": "feldname (tarif, experience, actualGross, qualificationLevel, hours, state, taxClass, churchTax, numberOfChildren, childAllowance, healthInsurance, healthInsurer, pkvPremium, partnerIncome)",
                         "section": "job_details oder tax_details",
                         "newValue": "neuer wert"
                     }
@@ -685,6 +809,7 @@ Fortschritt: [PROGRESS: ${SalaryStateMachine.getProgress(nextFormState, bonusCon
                                 nextFormState.data[section] = {};
                             }
                             nextFormState.data[section]![modification.field] = validationResult.normalizedValue ?? modification.newValue;
+                            Object.assign(nextFormState.data[section]!, validationResult.relatedValues);
 
                             // Re-display summary
                             const summary = SalaryStateMachine.formatSummary(nextFormState);
@@ -787,23 +912,27 @@ Halte dich kurz (1-2 Sätze).
                     Aufgabe: Extrahiere Werte für die gesuchten Felder. Sei tolerant bei der Eingabe.
 
                     Mapping-Hilfe:
-                    - Qualifikation/Beruf → group (Entgeltgruppe):
-                      * Pflegehelfer/Pflegeassistent ohne Ausbildung → P5
-                      * Pflegehelfer mit 1-jähriger Ausbildung → P6
-                      * Pflegefachkraft/Pflegefachfrau/Pflegefachmann/exam. Altenpfleger → P7
-                      * Pflegefachkraft mit Zusatzaufgaben/Fachweiterbildung → P8
-                      * Praxisanleiter/Wohnbereichsleitung → P9
-                      * Stationsleitung/PDL → P10-P12
-                    - Berufserfahrung → experience (z.B. "5 Jahre" → "5 Jahre", "Stufe 3" → "3", "8" → "8")
-                    - Tarifvertrag → tarif (TVöD, TV-L, AVR, öffentlicher Dienst → tvoed)
-                    - Arbeitszeit → hours (z.B. "Vollzeit" = 38.5, "30 Stunden" = 30, "Teilzeit 50%" = 19.25)
+                    - Qualifikation/Beruf → group: die Tätigkeit so, wie der Nutzer sie beschreibt, mit Station/Bereich,
+                      Fachweiterbildung und Zahl der unterstellten Beschäftigten (z.B. "Pflegefachkraft auf der Intensivstation",
+                      "Stationsleitung mit 20 Mitarbeitern"). Die Entgeltgruppe ermittle ich daraus nach der Entgeltordnung.
+                      Nur wenn der Nutzer die Entgeltgruppe selbst nennt (z.B. "P8"), gib diese zurück.
+                    - Berufserfahrung → experience (z.B. "5 Jahre" → "5 Jahre", "Stufe 3" → "3", "seit April 2019" → "seit April 2019", "seit 2019, davor 2 Jahre woanders" → "seit 2019, davor 2 Jahre")
+                    - Tarifvertrag → tarif (TVöD, TV-L, AVR Caritas, AVR-DD/Diakonie, TV-DRK, TVAöD-Pflege/Ausbildung; öffentlicher Dienst → tvoed; kein Tarif/privater Träger ohne Tarifvertrag → "kein Tarif")
+                    - Brutto laut Arbeitsvertrag (nur ohne Tarif) → actualGross (z.B. "2.900 im Monat" → "2900 € im Monat", "17,50 die Stunde" → "17,50 € pro Stunde")
+                    - Qualifikation (nur ohne Tarif) → qualificationLevel ("fachkraft", "qualifizierte-hilfskraft" = Helfer mit mind. 1-jähriger Ausbildung, "hilfskraft" = ohne Ausbildung)
+                    - Arbeitszeit → hours (z.B. "Vollzeit" = "Vollzeit", "30 Stunden" = 30, "Teilzeit 50%" = 19.25)
                     - Ort/Region → state (z.B. "NRW" = "Nordrhein-Westfalen")
                     - Familienstand → taxClass (ledig=1, verheiratet=4)
                     - Kinder → numberOfChildren
+                    - Kinderfreibetrag geteilt mit dem anderen Elternteil (0,5) oder voll (1,0) → childAllowance ("halb" oder "voll")
                     - Kirchenmitglied → churchTax (ja/nein → true/false)
+                    - Krankenversicherung → healthInsurance (AOK, TK, Barmer, GKV = "gesetzlich"; PKV = "privat")
+                    - Name der Krankenkasse → healthInsurer (z.B. "TK", "AOK", "Barmer"), zusätzlich zu healthInsurance
+                    - Monatlicher PKV-Beitrag (Kranken- + Pflegeversicherung) → pkvPremium (z.B. "520 €" = 520)
+                    - Monatliches Brutto des Ehepartners → partnerIncome (z.B. "3.000 €" = 3000, "kein Einkommen" = 0)
 
                     WICHTIG: Wenn der Nutzer seine Qualifikation nennt (z.B. "Pflegefachkraft"),
-                    extrahiere daraus die Entgeltgruppe als "group" Feld!
+                    gib sie als "group" Feld zurück! (Ohne Tarif stattdessen als "qualificationLevel".)
 
                     Gib NUR ein JSON zurück: { "extracted": { "field": "value" } }
                     Wenn nichts gefunden, gib leeres Objekt: { "extracted": {} }
@@ -847,8 +976,9 @@ Halte dich kurz (1-2 Sätze).
                             );
 
                             if (validationResult.valid) {
-                                // Accept normalized value
+                                // Accept normalized value (and the fields derived from it)
                                 nextFormState.data[section]![field] = validationResult.normalizedValue ?? value;
+                                Object.assign(nextFormState.data[section]!, validationResult.relatedValues);
                                 // Clear any previous error for this field
                                 if (nextFormState.validationErrors?.[field]) {
                                     delete nextFormState.validationErrors[field];
@@ -1065,87 +1195,49 @@ Stimmt das so? Sag "Ja" oder "Berechnen" um das Netto-Gehalt zu berechnen, oder
 // --- HELPER FUNCTIONS ---
 
 /**
- * Estimate yearly salary based on tariff information
- * US-014: Map FormState to calculate_net_salary parameters
+ * Map the collected job and tax details to the TaxWrapper input
  */
-function estimateYearlySalary(
-    tarif?: string,
-    group?: string,
-    experience?: string,
-    hours?: number
-): number {
-    // Base salary table for TVöD-P (Pflege) 2025/2026 (approximate monthly values)
-    const tarifTable: Record<string, Record<string, number[]>> = {
-        'tvoed': {
-            // Format: [Stufe 1, Stufe 2, Stufe 3, Stufe 4, Stufe 5, Stufe 6]
-            'P5': [2750, 2900, 3000, 3100, 3200, 3300],
-            'P6': [2900, 3050, 3150, 3280, 3400, 3500],
-            'P7': [3100, 3280, 3450, 3620, 3800, 3950],
-            'P8': [3350, 3550, 3750, 3950, 4150, 4350],
-            'P9': [3600, 3850, 4100, 4350, 4600, 4800],
-            'P10': [3900, 4150, 4450, 4750, 5050, 5300],
-            'P11': [4100, 4400, 4700, 5000, 5350, 5650],
-            'P12': [4350, 4650, 5000, 5350, 5700, 6050],
-            'E5': [2900, 3050, 3150, 3280, 3400, 3500],
-            'E6': [3000, 3150, 3280, 3420, 3550, 3680],
-            'E7': [3100, 3280, 3450, 3620, 3800, 3950],
-            'E8': [3350, 3550, 3750, 3950, 4150, 4350],
-            'E9a': [3450, 3680, 3900, 4100, 4300, 4500],
-            'E9b': [3600, 3850, 4100, 4350, 4600, 4800],
-        },
-        'tv-l': {
-            'P5': [2700, 2850, 2950, 3050, 3150, 3250],
-            'P6': [2850, 3000, 3100, 3230, 3350, 3450],
-            'P7': [3050, 3230, 3400, 3570, 3750, 3900],
-            'P8': [3300, 3500, 3700, 3900, 4100, 4300],
-        },
-        'avr': {
-            'P5': [2800, 2950, 3050, 3150, 3250, 3350],
-            'P6': [2950, 3100, 3200, 3330, 3450, 3550],
-            'P7': [3150, 3330, 3500, 3670, 3850, 4000],
-            'P8': [3400, 3600, 3800, 4000, 4200, 4400],
-        }
-    };
-
-    // Normalize inputs
-    const normalizedTarif = (tarif || 'tvoed').toLowerCase().replace('tvöd', 'tvoed');
-    const normalizedGroup = (group || 'P7').toUpperCase();
-
-    // Parse experience to stufe (1-6)
-    let stufeIndex = 1; // Default Stufe 2 (index 1)
-    if (experience) {
-        const expLower = experience.toLowerCase();
-        // If already a stufe number
-        const stufeMatch = expLower.match(/(\d)/);
-        if (stufeMatch) {
-            stufeIndex = Math.min(5, Math.max(0, parseInt(stufeMatch[1], 10) - 1));
-        } else if (expLower.includes('jahr')) {
-            // Parse years of experience
-            const yearsMatch = expLower.match(/(\d+)/);
-            if (yearsMatch) {
-                const years = parseInt(yearsMatch[1], 10);
-                if (years < 1) stufeIndex = 0;
-                else if (years < 3) stufeIndex = 1;
-                else if (years < 6) stufeIndex = 2;
-                else if (years < 10) stufeIndex = 3;
-                else if (years < 15) stufeIndex = 4;
-                else stufeIndex = 5;
-            }
-        }
+function buildSalaryInput(
+    jobData: NonNullable<FormState['data']['job_details']>,
+    taxData: NonNullable<FormState['data']['tax_details']>,
+    yearlySalary: number
+): SalaryInput {
+    // Map churchTax to proper format
+    let churchTaxValue: 'none' | 'bayern' | 'baden_wuerttemberg' | 'common' = 'none';
+    if (taxData.churchTax === true || taxData.churchTax === 'true' || taxData.churchTax === 'ja') {
+        // 8% in Bayern/BW, 9% elsewhere (derived from the collected Bundesland)
+        churchTaxValue = getChurchTaxRegion(jobData.state);
     }
 
-    // Get monthly base salary
-    const tarifData = tarifTable[normalizedTarif] || tarifTable['tvoed'];
-    const groupData = tarifData[normalizedGroup] || tarifData['P7'] || [3100, 3280, 3450, 3620, 3800, 3950];
-    const monthlySalary = groupData[stufeIndex] || groupData[1];
-
-    // Adjust for part-time (assume 38.5 hours is full-time)
-    const fullTimeHours = 38.5;
-    const actualHours = hours || fullTimeHours;
-    const adjustedMonthlySalary = monthlySalary * (actualHours / fullTimeHours);
+    // Map state to category
+    let stateCategory: 'west' | 'east' | 'sachsen' = 'west';
+    const stateLower = (jobData.state || '').toLowerCase();
+    if (stateLower.includes('sachsen') && !stateLower.includes('anhalt')) {
+        stateCategory = 'sachsen';
+    } else if (['thüringen', 'sachsen-anhalt', 'brandenburg', 'mecklenburg', 'berlin'].some(s => stateLower.includes(s))) {
+        stateCategory = 'east';
+    }
 
-    // Return yearly salary
-    return Math.round(adjustedMonthlySalary * 12);
+    return {
+        yearlySalary,
+        taxClass: parseInt(taxData.taxClass || '1', 10),
+        year: new Date().getFullYear(),
+        hasChildren: (taxData.numberOfChildren || 0) > 0,
+        childCount: taxData.numberOfChildren || 0,
+        childAllowanceFactor: taxData.childAllowance === 'halb' ? 0.5 : taxData.childAllowance === 'voll' ? 1 : undefined,
+        churchTax: churchTaxValue,
+        state: stateCategory,
+        bundesland: jobData.state,
+        birthYear: taxData.birthYear,
+        // Zusatzbeitrag of the user's Krankenkasse, average if unknown
+        healthInsuranceAddOn: taxData.healthInsurance === 'privat'
+            ? undefined
+            : getKrankenkasseZusatzbeitrag(taxData.healthInsurer, new Date().getFullYear()),
+        isPrivateHealthInsurance: taxData.healthInsurance === 'privat',
+        privateHealthInsurancePremium: taxData.pkvPremium,
+        // VBL/ZVK/KZVK of the tariff: employee share and taxable employer Umlage
+        zusatzversorgung: isNoTarif(jobData.tarif) ? undefined : getZusatzversorgung(normalizeTarif(jobData.tarif), stateCategory)
+    };
 }
 
 /**
@@ -1153,16 +1245,20 @@ function estimateYearlySalary(
  * US-016: Format and display calculation results
  */
 function formatCalculationResult(
-    result: { netto: number; taxes: { lohnsteuer: number; soli: number; kirchensteuer: number }; socialSecurity: { kv: number; rv: number; av: number; pv: number } },
-    jobData: { tarif?: string; group?: string; experience?: string; hours?: number; state?: string },
-    taxData: { taxClass?: string; churchTax?: boolean | string; numberOfChildren?: number }
+    result: TaxResult,
+    jobData: { tarif?: string; group?: string; experience?: string; hours?: number; state?: string; actualGross?: string; qualificationLevel?: string },
+    taxData: { taxClass?: string; churchTax?: boolean | string; numberOfChildren?: number; healthInsurance?: string; healthInsurer?: string }
 ): string {
     // TaxResult returns monthly values
     const monthlyNetto = result.netto;
     const monthlyTaxes = result.taxes.lohnsteuer + result.taxes.soli + result.taxes.kirchensteuer;
-    const monthlySocial = result.socialSecurity.kv + result.socialSecurity.rv + result.socialSecurity.av + result.socialSecurity.pv;
+    const monthlySocial = result.socialSecurity.kv + result.socialSecurity.rv + result.socialSecurity.av + result.socialSecurity.pv
+        + (result.socialSecurity.zusatzversorgung ?? 0);
+    // PKV: premium is paid from the salary, employer subsidy is paid out on top
+    const pkv = result.privateHealthInsurance;
+    const pkvBalance = pkv ? pkv.premium - pkv.employerSubsidy : 0;
     // Calculate brutto from netto + deductions
-    const monthlyBrutto = monthlyNetto + monthlyTaxes + monthlySocial;
+    const monthlyBrutto = monthlyNetto + monthlyTaxes + monthlySocial + pkvBalance;
 
     const formatEuro = (amount: number) => {
         return new Intl.NumberFormat('de-DE', {
@@ -1171,6 +1267,34 @@ function formatCalculationResult(
         }).format(amount);
     };
 
+    // Krankenkasse with its Zusatzbeitrag (only for known Kassen)
+    const zusatzbeitrag = taxData.healthInsurance !== 'privat'
+        ? getKrankenkasseZusatzbeitrag(taxData.healthInsurer, new Date().getFullYear())
+        : undefined;
+    const kasseLine = zusatzbeitrag !== undefined
+        ? `• Krankenkasse: ${taxData.healthInsurer} (Zusatzbeitrag ${zusatzbeitrag.toLocaleString('de-DE')} %)\n`
+        : '';
+
+    // Without tariff: the entered gross instead of Entgeltgruppe and Stufe.
+    // The Stufe is the one on 1 January the figures are calculated with, a later Aufstieg is named as the next one
+    const positionLines = isNoTarif(jobData.tarif)
+        ? `• Tarif: kein Tarif
+• Brutto laut Vertrag: ${jobData.actualGross}
+• Qualifikation: ${QUALIFICATION_LEVEL_LABELS[jobData.qualificationLevel as QualificationLevel] ?? jobData.qualificationLevel}
+• Wochenstunden: ${jobData.hours || NO_TARIF_FULL_TIME_HOURS}`
+        : `• Tarif: ${getTariffProvider(jobData.tarif).label}
+• Entgeltgruppe: ${jobData.group || getTariffProvider(jobData.tarif).defaultGroup}
+• Stufe: ${formatStufe(resolveStufe(jobData.tarif, jobData.experience, `${new Date().getFullYear()}-01-01`), jobData.tarif)}
+• Wochenstunden: ${jobData.hours || getTariffProvider(jobData.tarif).fullTimeHours}`;
+
+    // Midijob/Minijob: explain why the deductions are lower than usual
+    let employmentNote = '';
+    if (result.employmentType === 'midijob') {
+        employmentNote = '\nℹ️ Dein Gehalt liegt im Übergangsbereich (Midijob) – deine Sozialabgaben sind dadurch reduziert.\n';
+    } else if (result.employmentType === 'minijob') {
+        employmentNote = '\nℹ️ Minijob: Du zahlst nur den Eigenanteil zur Rentenversicherung, die Pauschalsteuer übernimmt dein Arbeitgeber.\n';
+    }
+
     return `
 🎉 **Deine Gehaltsberechnung ist fertig!**
 
@@ -1188,18 +1312,167 @@ function formatCalculationResult(
   - Rentenversicherung: ${formatEuro(result.socialSecurity.rv)}
   - Arbeitslosenversicherung: ${formatEuro(result.socialSecurity.av)}
   - Pflegeversicherung: ${formatEuro(result.socialSecurity.pv)}
-
+${result.socialSecurity.zusatzversorgung ? `  - Zusatzversorgung (VBL/ZVK): ${formatEuro(result.socialSecurity.zusatzversorgung)}
+` : ''}${pkv ? `• Private Kranken-/Pflegeversicherung: ${formatEuro(pkv.premium)}
+  - Arbeitgeberzuschuss: +${formatEuro(pkv.employerSubsidy)}
+` : ''}${employmentNote}
 📋 **Deine Angaben:**
-• Tarif: ${jobData.tarif || 'TVöD'}
-• Entgeltgruppe: ${jobData.group || 'P7'}
-• Stufe: ${jobData.experience || '2'}
-• Wochenstunden: ${jobData.hours || 38.5}
+${positionLines}
 • Steuerklasse: ${taxData.taxClass || '1'}
-
+${kasseLine}
 ✅ Die Berechnung wurde gespeichert. Bei Fragen helfe ich dir gerne weiter!
     `.trim();
 }
 
+/**
+ * Detect a reverse question in the completed state and extract the target monthly net,
+ * e.g. "Wie viel brutto brauche ich für 2.500 € netto?" or "Wie viele Stunden für 2000 netto?"
+ */
+function parseTargetNetto(message: string): number | undefined {
+    const text = message.toLowerCase();
+    if (!text.includes('netto')) return undefined;
+    if (!/brutto|brauch|wie ?viel|stunden|entgeltgruppe|stufe|erreichen|kommen/.test(text)) return undefined;
+
+    // German number format (2.500 or 2500,50) right next to "netto" or "€", so years like 2026
+    // and small numbers like "2 Kinder" elsewhere in the message are not taken as the target
+    const amounts = [...text.matchAll(/(\d{1,3}(?:\.\d{3})+|\d+)(?:,(\d{1,2}))?/g)]
+        .filter(m => /(?:€|euro|netto(?:\s+von)?)\s*$/.test(text.slice(0, m.index))
+            || /^\s*(?:€|euro|eur\b|netto)/.test(text.slice(m.index! + m[0].length)))
+        .map(m => parseFloat(m[1].replace(/\./g, '') + (m[2] ? `.${m[2]}` : '')))
+        .filter(amount => amount >= 300 && amount <= 30000);
+
+    return amounts[0];
+}
+
+/**
+ * Answer a reverse question: gross, hours in the current group and matching
+ * Entgeltgruppen/Stufen for a target net, with the user's collected tax data
+ */
+function formatNettoTargetAnswer(targetNetto: number, formState: FormState): string {
+    const jobData = formState.data.job_details || {};
+    const taxData = formState.data.tax_details || {};
+    const calcResult = formState.data.calculation_result!;
+
+    const formatEuro = (amount: number) => {
+        return new Intl.NumberFormat('de-DE', {
+            style: 'currency',
+            currency: 'EUR'
+        }).format(amount);
+    };
+
+    // Allowances stay as calculated (they depend on the shifts, not on the base salary)
+    const allowances = calcResult.allowances && calcResult.nettoWithAllowances !== undefined
+        ? getAllowanceSplit(calcResult.allowances)
+        : undefined;
+
+    const noTarif = isNoTarif(jobData.tarif);
+    const solved = new TaxWrapper().calculateGrossForNetto(buildSalaryInput(jobData, taxData, 0), targetNetto, allowances);
+    if (!solved.reachable) {
+        return `Ein Netto von ${formatEuro(targetNetto)} im Monat lässt sich ${noTarif ? 'mit einem realistischen Bruttogehalt nicht' : 'mit einem Gehalt im Tarif nicht realistisch'} erreichen.`;
+    }
+
+    const tariffProvider = getTariffProvider(jobData.tarif);
+    const group = jobData.group || tariffProvider.defaultGroup;
+    const fullTimeHours = noTarif ? NO_TARIF_FULL_TIME_HOURS : tariffProvider.fullTimeHours;
+    const hours = jobData.hours || fullTimeHours;
+    const position = noTarif ? 'Bei deinem Stundenlohn' : `In deiner Entgeltgruppe ${group}`;
+    const currentNetto = calcResult.nettoWithAllowances ?? calcResult.netto ?? 0;
+    const lines: string[] = [];
+
+    lines.push(`🔄 **Rückwärtsrechnung für ${formatEuro(targetNetto)} netto im Monat:**`);
+    lines.push('');
+    lines.push(`💰 Dafür brauchst du ca. **${formatEuro(solved.monthlyGross)} brutto** im Monat (${formatEuro(solved.monthlyGross * 12)} im Jahr)${allowances ? ' – zusätzlich zu deinen Zulagen' : ''}.`);
+
+    if (currentNetto >= targetNetto) {
+        lines.push(`✅ Mit deinem aktuellen Gehalt (${formatEuro(currentNetto)} netto) erreichst du das bereits.`);
+    } else {
+        // Hours in the current group/stufe (or at the current hourly wage): the gross scales linearly with the hours
+        const fullTimeBrutto = calcResult.brutto! * (fullTimeHours / hours);
+        const requiredHours = calculateRequiredHours(solved.monthlyGross, fullTimeBrutto, fullTimeHours);
+        if (requiredHours <= 48) {
+            lines.push(`⏱️ ${position} wären das ca. **${requiredHours.toLocaleString('de-DE')} Wochenstunden** (aktuell ${hours.toLocaleString('de-DE')}).`);
+        } else {
+            lines.push(`⏱️ ${position} reicht dafür auch eine Vollzeitstelle nicht aus.`);
+        }
+
+        const positions = noTarif ? [] : findTariffPositionsForGross(tariffProvider.id, solved.monthlyGross, hours).slice(0, 3);
+        if (positions.length > 0) {
+            lines.push('');
+            lines.push(`📈 **Damit kämst du bei ${hours.toLocaleString('de-DE')} Wochenstunden hin:**`);
+            for (const position of positions) {
+                lines.push(`• ${position.group} Stufe ${position.stufe}: ${formatEuro(position.monthlyGross)} brutto`);
+            }
+        }
+    }
+
+    lines.push('');
+    lines.push(`_Berechnet mit deinen Steuerdaten (Steuerklasse ${taxData.taxClass || '1'})._`);
+
+    return lines.join('\n');
+}
+
+/**
+ * Detect a question about Entgeltumwandlung / bAV in the completed state and extract
+ * the monthly amount, e.g. "Was kostet mich 100 € Entgeltumwandlung?"
+ */
+function parseEntgeltumwandlung(message: string): number | undefined {
+    const text = message.toLowerCase();
+    if (!/entgeltumwandlung|umwandl|\bbav\b|betriebsrente|betriebliche altersvorsorge/.test(text)) return undefined;
+
+    const amounts = [...text.matchAll(/(\d{1,3}(?:\.\d{3})+|\d+)(?:,(\d{1,2}))?/g)]
+        .map(m => parseFloat(m[1].replace(/\./g, '') + (m[2] ? `.${m[2]}` : '')))
+        .filter(amount => amount >= 10 && amount <= 2000);
+
+    return amounts[0];
+}
+
+/**
+ * Answer the Entgeltumwandlung scenario: net with and without the conversion,
+ * employer subsidy and what goes into the contract
+ */
+function formatEntgeltumwandlungAnswer(amount: number, formState: FormState): string {
+    const jobData = formState.data.job_details || {};
+    const taxData = formState.data.tax_details || {};
+    const calcResult = formState.data.calculation_result!;
+
+    const formatEuro = (value: number) => {
+        return new Intl.NumberFormat('de-DE', {
+            style: 'currency',
+            currency: 'EUR'
+        }).format(value);
+    };
+
+    const taxWrapper = new TaxWrapper();
+    const salaryInput = buildSalaryInput(jobData, taxData, calcResult.brutto! * 12);
+    const allowances = calcResult.allowances && calcResult.nettoWithAllowances !== undefined
+        ? getAllowanceSplit(calcResult.allowances)
+        : { taxFree: 0, taxable: 0 };
+
+    const without = taxWrapper.calculateWithAllowances(salaryInput, allowances);
+    const withBav = taxWrapper.calculateWithAllowances({ ...salaryInput, entgeltumwandlung: amount }, allowances);
+    const split = withBav.entgeltumwandlung!;
+    const netCost = without.nettoWithAllowances - withBav.nettoWithAllowances;
+
+    const lines: string[] = [];
+    lines.push(`🏦 **Entgeltumwandlung von ${formatEuro(amount)} im Monat:**`);
+    lines.push('');
+    lines.push(`• Netto ohne Entgeltumwandlung: ${formatEuro(without.nettoWithAllowances)}`);
+    lines.push(`• Netto mit Entgeltumwandlung: ${formatEuro(withBav.nettoWithAllowances)}`);
+    lines.push(`• **Dein Netto sinkt nur um ${formatEuro(netCost)}** – Steuern und Sozialabgaben tragen den Rest.`);
+    lines.push(`• Arbeitgeberzuschuss (15 %): +${formatEuro(split.employerSubsidy)}`);
+    lines.push(`• **In deinen Vertrag fließen ${formatEuro(split.contribution)} im Monat.**`);
+
+    if (split.taxFree < amount || split.svFree < amount) {
+        lines.push('');
+        lines.push(`ℹ️ Steuerfrei sind ${formatEuro(split.taxFree)}, sozialabgabenfrei ${formatEuro(split.svFree)} – der Rest wird aus deinem versteuerten Gehalt gezahlt.`);
+    }
+
+    lines.push('');
+    lines.push('_Die Betriebsrente ist später steuer- und beitragspflichtig, die gesetzliche Rente fällt durch die geringeren Beiträge etwas niedriger aus._');
+
+    return lines.join('\n');
+}
+
 /**
  * Build a user-friendly prompt for response generation
  * US-009: Update response prompts to user-friendly language
@@ -1215,14 +1488,21 @@ function buildUserFriendlyPrompt(
 
     // Map technical fields to user-friendly questions
     const fieldQuestions: Record<string, string> = {
-        tarif: 'Unter welchem Tarifvertrag arbeitest du? (z.B. TVöD, TV-L, AVR, oder "öffentlicher Dienst")',
+        tarif: 'Unter welchem Tarifvertrag arbeitest du? (z.B. TVöD, TV-L, AVR Caritas, AVR-DD, TV-DRK, TVAöD-Pflege, "öffentlicher Dienst" oder "kein Tarif")',
+        actualGross: 'Wie viel verdienst du laut Arbeitsvertrag brutto – im Monat oder pro Stunde?',
+        qualificationLevel: 'Bist du Pflegefachkraft, Pflegehilfskraft mit mindestens einjähriger Ausbildung oder Pflegehilfskraft ohne Ausbildung?',
         group: 'Was ist deine Tätigkeit oder Qualifikation? (z.B. Pflegefachkraft, Pflegehelfer, Stationsleitung)',
         experience: 'Wie lange arbeitest du schon in diesem Beruf?',
         hours: 'Arbeitest du Vollzeit oder Teilzeit? Wie viele Stunden pro Woche?',
         state: 'In welchem Bundesland arbeitest du?',
+        holidayShifts: 'Wie viele Feiertage arbeitest du im Jahr ungefähr? (Wenn du es nicht weißt, schätze ich es aus deinen Diensten)',
         taxClass: 'Bist du verheiratet oder ledig? (Das hilft mir bei der Steuerklasse)',
         churchTax: 'Bist du Mitglied in einer Kirche und zahlst Kirchensteuer?',
-        numberOfChildren: 'Hast du Kinder? Wenn ja, wie viele?'
+        numberOfChildren: 'Hast du Kinder? Wenn ja, wie viele?',
+        childAllowance: 'Steht dir der Kinderfreibetrag voll zu (1,0 pro Kind, z.B. verheiratet oder alleinerziehend ohne Unterhalt vom anderen Elternteil) oder teilst du ihn mit dem anderen Elternteil (0,5 pro Kind)?',
+        healthInsurance: 'Bist du gesetzlich oder privat krankenversichert? Wenn gesetzlich: bei welcher Krankenkasse?',
+        pkvPremium: 'Wie hoch ist dein monatlicher Beitrag für die private Kranken- und Pflegeversicherung?',
+        partnerIncome: 'Wie viel verdient dein Partner bzw. deine Partnerin monatlich brutto? (Damit vergleiche ich für euch die Steuerklassen III/V, IV/IV und IV/IV mit Faktor)'
     };
 
     const nextFieldToAsk = missingFields[0];
@@ -1235,11 +1515,18 @@ function buildUserFriendlyPrompt(
     if (jobData.tarif) collectedDataLines.push(`Tarifvertrag: ${jobData.tarif}`);
     if (jobData.group) collectedDataLines.push(`Entgeltgruppe: ${jobData.group}`);
     if (jobData.experience) collectedDataLines.push(`Erfahrung: ${jobData.experience}`);
+    if (jobData.actualGross) collectedDataLines.push(`Brutto laut Vertrag: ${jobData.actualGross}`);
+    if (jobData.qualificationLevel) collectedDataLines.push(`Qualifikation: ${jobData.qualificationLevel}`);
     if (jobData.hours) collectedDataLines.push(`Stunden: ${jobData.hours}`);
     if (jobData.state) collectedDataLines.push(`Bundesland: ${jobData.state}`);
     if (taxData.taxClass) collectedDataLines.push(`Steuerklasse: ${taxData.taxClass}`);
     if (taxData.churchTax !== undefined) collectedDataLines.push(`Kirchensteuer: ${taxData.churchTax}`);
     if (taxData.numberOfChildren !== undefined) collectedDataLines.push(`Kinder: ${taxData.numberOfChildren}`);
+    if (taxData.childAllowance) collectedDataLines.push(`Kinderfreibetrag: ${taxData.childAllowance}`);
+    if (taxData.healthInsurance) collectedDataLines.push(`Krankenversicherung: ${taxData.healthInsurance}`);
+    if (taxData.healthInsurer) collectedDataLines.push(`Krankenkasse: ${taxData.healthInsurer}`);
+    if (taxData.pkvPremium) collectedDataLines.push(`PKV-Beitrag: ${taxData.pkvPremium} €`);
+    if (taxData.partnerIncome !== undefined) collectedDataLines.push(`Brutto des Partners: ${taxData.partnerIncome} €`);
     const collectedSummary = collectedDataLines.length > 0
         ? `Bereits gesammelte Daten:\n${collectedDataLines.map(l => `- ${l}`).join('\n')}`
         : 'Noch keine Daten gesammelt.';
@@ -1330,15 +1617,8 @@ async function saveDraftInquiry(
     const jobData = formState.data.job_details || {};
     const taxData = formState.data.tax_details || {};
 
-    // Parse stufe to integer (column is integer type)
-    // Experience can be "5 Jahre", "Stufe 2", or just "2"
-    let stufeValue: number | null = null;
-    if (jobData.experience) {
-        const match = String(jobData.experience).match(/(\d+)/);
-        if (match) {
-            stufeValue = parseInt(match[1], 10);
-        }
-    }
+    // Stufe column (integer): derived from the experience ("5 Jahre" is not Stufe 5)
+    const stufeValue = jobData.experience && !isNoTarif(jobData.tarif) ? resolveStufe(jobData.tarif, jobData.experience).stufe : null;
 
     try {
         const { error } = await getSupabaseAdmin()
@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { Resend } from "resend";
-import { buildSalaryEmail } from "../../../lib/emailTemplate";
+import { buildMonthlyProjectionCsv, buildSalaryEmail } from "../../../lib/emailTemplate";
 
 // Lazy Initialize Supabase Admin Client
 let supabaseAdminInstance: SupabaseClient | null = null;
@@ -119,6 +119,29 @@ export async function POST(request: Request) {
             }
         }
 
+        // --- MONTHLY PROJECTION ATTACHMENT ---
+        // The payslip projection is stored with the inquiry, the widget does not send it back
+        const attachments: Array<{ filename: string; content: Buffer; contentType: string }> = [];
+        if (inquiryId) {
+            const { data: inquiry, error: inquiryError } = await getSupabaseAdmin()
+                .from('salary_inquiries')
+                .select('details')
+                .eq('id', inquiryId)
+                .single();
+
+            if (inquiryError) {
+                console.error('[EmailExport] Failed to load monthly projection:', inquiryError);
+            } else if (Array.isArray(inquiry?.details?.monthlyProjection)) {
+                // BOM so that Excel detects UTF-8 (umlauts)
+                const csv = '\uFEFF' + buildMonthlyProjectionCsv(inquiry.details.monthlyProjection, emailData.year);
+                attachments.push({
+                    filename: `Monatsuebersicht_${emailData.year}.csv`,
+                    content: Buffer.from(csv, 'utf-8'),
+                    contentType: 'text/csv',
+                });
+            }
+        }
+
         // --- SEND EMAIL VIA RESEND ---
         const resend = new Resend(process.env.RESEND_API_KEY);
         const htmlBody = buildSalaryEmail(emailData);
@@ -129,6 +152,7 @@ export async function POST(request: Request) {
                 to: email,
                 subject: `Deine Gehaltsberechnung ${emailData.year}`,
                 html: htmlBody,
+                ...(attachments.length > 0 && { attachments }),
             });
 
             console.log('[EmailExport] Email sent successfully:', sendResult);
@@ -0,0 +1,45 @@
+import type { EmployerCost } from '@/utils/tax/types';
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(value);
+
+/**
+ * Arbeitgeberbrutto breakdown for admins (inquiry detail, test widget).
+ * Never rendered in the applicant widget.
+ */
+export default function EmployerCostBreakdown({ employerCost }: { employerCost: EmployerCost }) {
+  const rows: Array<[string, number]> = [
+    ['Bruttogehalt inkl. steuerpfl. Zulagen', employerCost.gross],
+    ['Steuerfreie Zuschläge', employerCost.taxFreeAllowances],
+    ['AG-Anteil Krankenversicherung', employerCost.socialSecurity.kv],
+    ['AG-Anteil Rentenversicherung', employerCost.socialSecurity.rv],
+    ['AG-Anteil Arbeitslosenversicherung', employerCost.socialSecurity.av],
+    ['AG-Anteil Pflegeversicherung', employerCost.socialSecurity.pv],
+    ['Zuschuss PKV', employerCost.pkvSubsidy],
+    ['Umlage U1', employerCost.levies.u1],
+    ['Umlage U2', employerCost.levies.u2],
+    ['Insolvenzgeldumlage', employerCost.levies.insolvency],
+    ['Zusatzversorgung (VBL/ZVK)', employerCost.zusatzversorgung],
+    ['AG-Zuschuss Entgeltumwandlung', employerCost.bavSubsidy],
+    ['Pauschsteuer (Minijob)', employerCost.flatTax],
+  ];
+
+  return (
+    <div className="space-y-1">
+      {rows.filter(([, value]) => value > 0).map(([label, value]) => (
+        <div key={label} className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+          <span>{label}</span>
+          <span className="text-gray-900 dark:text-gray-100">{formatCurrency(value)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between text-sm font-semibold text-gray-900 dark:text-white border-t border-gray-200 dark:border-gray-700 pt-1">
+        <span>Arbeitgeberbrutto pro Monat</span>
+        <span>{formatCurrency(employerCost.total)}</span>
+      </div>
+      <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+        <span>Pro Jahr (inkl. Sonderzahlungen)</span>
+        <span className="text-gray-900 dark:text-gray-100">{formatCurrency(employerCost.yearlyTotal)}</span>
+      </div>
+    </div>
+  );
+}
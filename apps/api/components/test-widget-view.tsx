@@ -3,6 +3,7 @@
 import { Project } from '@/app/actions/projects';
 import Script from 'next/script';
 import { useState, useRef, useEffect } from 'react';
+import EmployerCostBreakdown from '@/components/EmployerCostBreakdown';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 declare global {
@@ -114,7 +115,7 @@ export default function TestWidgetView({ projects }: { projects: Project[] }) {
       if (data.error) {
          setMessages(prev => [...prev, { sender: 'bot', text: `Error: ${data.error}` }]);
       } else {
-         setMessages(prev => [...prev, { sender: 'bot', text: data.text }]);
+         setMessages(prev => [...prev, { sender: 'bot', text: data.text, employerCost: data.employerCost }]);
          // Update section from server response
          if (data.section) {
            setSection(data.section);
@@ -245,6 +246,12 @@ export default function TestWidgetView({ projects }: { projects: Project[] }) {
                             }`}>
                                 <div className="text-xs opacity-70 mb-1">{msg.sender === 'user' ? 'You' : 'Bot'}</div>
                                 {msg.text}
+                                {msg.employerCost && (
+                                    <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 whitespace-normal">
+                                        <div className="text-xs font-medium text-gray-500 mb-2">Arbeitgeberkosten (nur Admin)</div>
+                                        <EmployerCostBreakdown employerCost={msg.employerCost} />
+                                    </div>
+                                )}
                             </div>
                         </div>
                     ))}
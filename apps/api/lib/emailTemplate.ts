@@ -1,3 +1,6 @@
+import type { MonthlyPayslip } from '../utils/tax/types';
+import { getTariffProvider, isNoTarif } from '../utils/agent/tools/tariffs';
+
 interface SalaryEmailData {
   // User inputs
   tarif?: string;
@@ -41,13 +44,9 @@ function formatEuro(amount: number): string {
  * Build HTML email template for salary calculation results
  */
 export function buildSalaryEmail(data: SalaryEmailData): string {
-  const tarifMap: Record<string, string> = {
-    'tvoed': 'TVöD',
-    'tv-l': 'TV-L',
-    'avr': 'AVR'
-  };
-
-  const tarifDisplay = tarifMap[data.tarif?.toLowerCase() || ''] || data.tarif || 'TVöD';
+  // Without tariff there is no Entgeltgruppe/Stufe
+  const noTarif = isNoTarif(data.tarif);
+  const tarifDisplay = noTarif ? 'kein Tarif' : getTariffProvider(data.tarif).label;
   const kirchensteuerDisplay = data.churchTax === true || data.churchTax === 'ja' || data.churchTax === 'true' ? 'Ja' : 'Nein';
 
   return `
@@ -97,14 +96,14 @@ export function buildSalaryEmail(data: SalaryEmailData): string {
                         <td style="padding: 8px 0; color: #64748b; font-size: 14px; width: 50%;">Tarifvertrag:</td>
                         <td style="padding: 8px 0; color: #1e293b; font-size: 14px; font-weight: 600; text-align: right;">${tarifDisplay}</td>
                       </tr>
-                      <tr>
+                      ${noTarif ? '' : `<tr>
                         <td style="padding: 8px 0; color: #64748b; font-size: 14px; width: 50%;">Entgeltgruppe:</td>
                         <td style="padding: 8px 0; color: #1e293b; font-size: 14px; font-weight: 600; text-align: right;">${data.gruppe || 'P7'}</td>
                       </tr>
                       <tr>
                         <td style="padding: 8px 0; color: #64748b; font-size: 14px; width: 50%;">Erfahrungsstufe:</td>
                         <td style="padding: 8px 0; color: #1e293b; font-size: 14px; font-weight: 600; text-align: right;">Stufe ${data.stufe || '2'}</td>
-                      </tr>
+                      </tr>`}
                       <tr>
                         <td style="padding: 8px 0; color: #64748b; font-size: 14px; width: 50%;">Wochenstunden:</td>
                         <td style="padding: 8px 0; color: #1e293b; font-size: 14px; font-weight: 600; text-align: right;">${data.hours || 38.5} Stunden</td>
@@ -249,3 +248,28 @@ export function buildSalaryEmail(data: SalaryEmailData): string {
 </html>
   `.trim();
 }
+
+const MONTH_NAMES = ['Januar', 'Februar', 'März', 'April', 'Mai', 'Juni', 'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember'];
+
+/**
+ * Build the month-by-month payslip projection as CSV (semicolon-separated,
+ * German decimal comma) for the email attachment
+ */
+export function buildMonthlyProjectionCsv(rows: MonthlyPayslip[], year: number): string {
+  const formatNumber = (amount: number) => amount.toFixed(2).replace('.', ',');
+
+  const header = ['Monat', 'Brutto', 'Sonderzahlung', 'Lohnsteuer', 'Solidaritätszuschlag', 'Kirchensteuer', 'Sozialabgaben', 'Netto', 'Hinweis'];
+  const lines = rows.map(row => [
+    `${MONTH_NAMES[row.month - 1]} ${year}`,
+    formatNumber(row.regularGross),
+    formatNumber(row.specialPayment),
+    formatNumber(row.lohnsteuer),
+    formatNumber(row.soli),
+    formatNumber(row.kirchensteuer),
+    formatNumber(row.socialSecurity),
+    formatNumber(row.netto),
+    row.notes.join(', '),
+  ]);
+
+  return [header, ...lines].map(line => line.join(';')).join('\r\n') + '\r\n';
+}
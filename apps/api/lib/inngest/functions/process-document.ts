@@ -2,6 +2,7 @@ import { inngest } from "../client";
 import { createClient } from "@supabase/supabase-js";
 import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
 import { getGeminiClient, generateWithRetry } from "@/lib/gemini";
+import { parseTariffTables } from "@/lib/vectorstore/tariffTableParser";
 
 // --- Configuration ---
 const GEMINI_MODEL_EXTRACT = "gemini-2.5-flash";
@@ -629,7 +630,35 @@ export const processDocument = inngest.createFunction(
         return results;
       });
 
-      // Step 5: Insert chunks and finalize with page data flag
+      // Step 5: Parse Entgelttabellen into structured rows for exact salary lookups
+      const tariffRowCount = await step.run("parse-tariff-tables", async () => {
+        const supabase = getSupabaseClient();
+
+        await supabase
+          .from("documents")
+          .update({ processing_stage: "parsing tariff tables" })
+          .eq("id", documentId);
+
+        // Replace rows of an earlier run
+        await supabase.from("document_tariff_rows").delete().eq("document_id", documentId);
+
+        const rows = parseTariffTables(textContent, filename);
+        console.log(`Parsed ${rows.length} tariff values from tables`);
+
+        if (rows.length > 0) {
+          const { error: insertError } = await supabase
+            .from("document_tariff_rows")
+            .insert(rows.map(row => ({ ...row, document_id: documentId })));
+
+          if (insertError) {
+            throw new Error(`Failed to insert tariff rows: ${insertError.message}`);
+          }
+        }
+
+        return rows.length;
+      });
+
+      // Step 6: Insert chunks and finalize with page data flag
       await step.run("insert-chunks", async () => {
         const supabase = getSupabaseClient();
 
@@ -667,7 +696,7 @@ export const processDocument = inngest.createFunction(
         );
       });
 
-      return { success: true, chunkCount: chunkDataArray.length };
+      return { success: true, chunkCount: chunkDataArray.length, tariffRowCount };
     } catch (error) {
       console.error("Error processing document:", error);
 
@@ -1,5 +1,11 @@
 import { FormState, CalculationResult } from "../types/form";
 import { BonusConfig } from "../types/bonus-config";
+import type { TaxClassComparison } from "../utils/tax/types";
+import { eingruppieren, formatEingruppierung } from "../utils/agent/tools/eingruppierung";
+import { QUALIFICATION_LEVEL_LABELS, type QualificationLevel } from "../utils/agent/tools/pflegemindestlohn";
+import { formatStufe, resolveStufe } from "../utils/agent/tools/stufenlaufzeit";
+import { getTariffProvider, isNoTarif } from "../utils/agent/tools/tariffs";
+import { getAllowanceSplit } from "../utils/allowances";
 
 export type StepResult = {
   nextState: FormState;
@@ -14,7 +20,7 @@ export class SalaryStateMachine {
   // Base required fields for each state (without employer-specific fields)
   private static BASE_REQUIREMENTS: Record<string, string[]> = {
     job_details: ['tarif', 'group', 'experience', 'hours', 'state'],
-    tax_details: ['taxClass', 'churchTax', 'numberOfChildren'],
+    tax_details: ['taxClass', 'churchTax', 'numberOfChildren', 'healthInsurance'],
     summary: [],
     completed: []
   };
@@ -29,15 +35,24 @@ export class SalaryStateMachine {
     taxClass: 'Steuerklasse',
     churchTax: 'Kirchensteuer',
     numberOfChildren: 'Anzahl Kinder',
+    childAllowance: 'Kinderfreibetrag (halb/voll)',
     hasChildren: 'Kinder',
     childCount: 'Kinderanzahl',
     birthYear: 'Geburtsjahr',
+    healthInsurance: 'Krankenversicherung',
+    pkvPremium: 'PKV-Beitrag (monatlich)',
+    partnerIncome: 'Brutto des Partners (monatlich)',
+    healthInsurer: 'Krankenkasse',
+    actualGross: 'Bruttogehalt (Monat oder Stunde)',
+    qualificationLevel: 'Qualifikation (Fach-/Hilfskraft)',
     // DRK-specific fields
     employeeType: 'Berufsgruppe',
     nightShifts: 'Nachtdienste pro Monat',
     lateShifts: 'Spätdienste pro Monat',
     weekendDays: 'Wochenend-Tage pro Monat',
     jumpInFrequency: 'Einspringen pro Monat',
+    shiftHours: 'Stunden pro Dienst',
+    holidayShifts: 'Feiertage pro Jahr',
     qualifications: 'Zusatzqualifikationen',
   };
 
@@ -45,10 +60,39 @@ export class SalaryStateMachine {
    * Get requirements for a section, optionally extended by BonusConfig features
    * @param section The section to get requirements for
    * @param config Optional BonusConfig to add employer-specific fields
+   * @param sectionData Optional collected data of the section, for fields that depend on earlier answers
    * @returns Array of required field names
    */
-  static getRequirements(section: string, config?: BonusConfig | null): string[] {
-    const base = [...(this.BASE_REQUIREMENTS[section] || [])];
+  static getRequirements(section: string, config?: BonusConfig | null, sectionData?: Record<string, unknown>): string[] {
+    let base = [...(this.BASE_REQUIREMENTS[section] || [])];
+
+    // Without tariff there is no Entgeltgruppe/Stufe: the actual gross and the qualification for the Pflegemindestlohn
+    if (section === 'job_details' && isNoTarif(sectionData?.tarif as string | undefined)) {
+      base = base.flatMap(field => {
+        if (field === 'group') return ['actualGross'];
+        if (field === 'experience') return ['qualificationLevel'];
+        return [field];
+      });
+    }
+
+    // PKV premium is only needed for privately insured users
+    if (section === 'tax_details' && sectionData?.healthInsurance === 'privat') {
+      base.push('pkvPremium');
+    }
+
+    // Parents: shared (0.5) or full (1.0) Kinderfreibetrag; in Steuerklasse V/VI no children are counted
+    if (
+      section === 'tax_details' &&
+      Number(sectionData?.numberOfChildren) > 0 &&
+      ![5, 6].includes(Number(sectionData?.taxClass))
+    ) {
+      base.push('childAllowance');
+    }
+
+    // Married users (Steuerklasse III, IV, V): the spouse's gross for the Steuerklassen comparison
+    if (section === 'tax_details' && [3, 4, 5].includes(Number(sectionData?.taxClass))) {
+      base.push('partnerIncome');
+    }
 
     if (section === 'job_details' && config?.features) {
       // employeeType for premium differentiation (Fachkraft vs Assistenz)
@@ -57,7 +101,7 @@ export class SalaryStateMachine {
       }
       // Shift data collection
       if (config.features.collectShiftData) {
-        base.push('nightShifts', 'lateShifts', 'weekendDays', 'jumpInFrequency');
+        base.push('nightShifts', 'lateShifts', 'weekendDays', 'jumpInFrequency', 'shiftHours', 'holidayShifts');
       }
       // Qualifications collection
       if (config.features.collectQualifications) {
@@ -80,7 +124,7 @@ export class SalaryStateMachine {
     }
 
     const sectionData = currentState.data[section as 'job_details' | 'tax_details'] || {};
-    const required = this.getRequirements(section, config);
+    const required = this.getRequirements(section, config, sectionData);
     const missing = this.getMissingFields(sectionData, required);
 
     return missing.length === 0;
@@ -94,15 +138,15 @@ export class SalaryStateMachine {
    */
   static isComplete(currentState: FormState, config?: BonusConfig | null): boolean {
     // Check job_details
-    const jobRequired = this.getRequirements('job_details', config);
     const jobData = currentState.data.job_details || {};
+    const jobRequired = this.getRequirements('job_details', config, jobData);
     const jobMissing = this.getMissingFields(jobData, jobRequired);
 
     if (jobMissing.length > 0) return false;
 
     // Check tax_details
-    const taxRequired = this.getRequirements('tax_details', config);
     const taxData = currentState.data.tax_details || {};
+    const taxRequired = this.getRequirements('tax_details', config, taxData);
     const taxMissing = this.getMissingFields(taxData, taxRequired);
 
     if (taxMissing.length > 0) return false;
@@ -155,16 +199,16 @@ export class SalaryStateMachine {
    * @returns Progress percentage
    */
   static getProgress(currentState: FormState, config?: BonusConfig | null): number {
-    const jobReq = this.getRequirements('job_details', config);
-    const taxReq = this.getRequirements('tax_details', config);
+    const jobData = currentState.data.job_details || {};
+    const taxData = currentState.data.tax_details || {};
+
+    const jobReq = this.getRequirements('job_details', config, jobData);
+    const taxReq = this.getRequirements('tax_details', config, taxData);
     const allRequired = [...jobReq, ...taxReq];
     const totalRequired = allRequired.length;
 
     if (totalRequired === 0) return 100;
 
-    const jobData = currentState.data.job_details || {};
-    const taxData = currentState.data.tax_details || {};
-
     const jobMissing = this.getMissingFields(jobData, jobReq);
     const taxMissing = this.getMissingFields(taxData, taxReq);
 
@@ -197,9 +241,22 @@ export class SalaryStateMachine {
     const jobData = currentState.data.job_details;
     if (jobData) {
       lines.push('**Berufliche Daten:**');
-      if (jobData.tarif) lines.push(`• Tarifvertrag: ${jobData.tarif}`);
-      if (jobData.group) lines.push(`• Entgeltgruppe: ${jobData.group}`);
-      if (jobData.experience) lines.push(`• Erfahrungsstufe: ${jobData.experience}`);
+      if (jobData.tarif) lines.push(`• Tarifvertrag: ${isNoTarif(jobData.tarif) ? 'kein Tarif' : getTariffProvider(jobData.tarif).label}`);
+      if (jobData.actualGross) lines.push(`• Bruttogehalt: ${jobData.actualGross}`);
+      if (jobData.qualificationLevel) {
+        lines.push(`• Qualifikation: ${QUALIFICATION_LEVEL_LABELS[jobData.qualificationLevel as QualificationLevel] ?? jobData.qualificationLevel}`);
+      }
+      if (jobData.group && !isNoTarif(jobData.tarif)) {
+        lines.push(`• Entgeltgruppe: ${jobData.group}`);
+        // Why this group: the Eingruppierung rule of the job description (unless the group was changed since)
+        const eingruppierung = jobData.jobDescription ? eingruppieren(jobData.jobDescription) : undefined;
+        if (eingruppierung && parseInt(jobData.group.replace(/^\D+/, ''), 10) === eingruppierung.level) {
+          lines.push(`  ↳ ${formatEingruppierung(eingruppierung)}`);
+        }
+      }
+      if (jobData.experience && !isNoTarif(jobData.tarif)) {
+        lines.push(`• Erfahrungsstufe: ${formatStufe(resolveStufe(jobData.tarif, jobData.experience), jobData.tarif)}`);
+      }
       if (jobData.hours) lines.push(`• Wochenstunden: ${jobData.hours}`);
       if (jobData.state) lines.push(`• Bundesland: ${jobData.state}`);
       lines.push('');
@@ -217,6 +274,19 @@ export class SalaryStateMachine {
       if (taxData.numberOfChildren !== undefined) {
         lines.push(`• Anzahl Kinder: ${taxData.numberOfChildren}`);
       }
+      if (taxData.childAllowance) {
+        lines.push(`• Kinderfreibetrag: ${taxData.childAllowance === 'voll' ? '1,0' : '0,5'} pro Kind`);
+      }
+      if (taxData.healthInsurance) {
+        const kasse = taxData.healthInsurance !== 'privat' && taxData.healthInsurer ? ` (${taxData.healthInsurer})` : '';
+        lines.push(`• Krankenversicherung: ${taxData.healthInsurance === 'privat' ? 'privat' : 'gesetzlich'}${kasse}`);
+      }
+      if (taxData.healthInsurance === 'privat' && taxData.pkvPremium) {
+        lines.push(`• PKV-Beitrag: ${taxData.pkvPremium} € monatlich`);
+      }
+      if (taxData.partnerIncome !== undefined) {
+        lines.push(`• Brutto des Partners: ${taxData.partnerIncome} € monatlich`);
+      }
       lines.push('');
     }
 
@@ -243,8 +313,8 @@ export class SalaryStateMachine {
     // Clone to avoid mutation side-effects on input
     const nextState: FormState = JSON.parse(JSON.stringify(currentState));
 
-    const jobRequirements = this.getRequirements('job_details', config);
-    const taxRequirements = this.getRequirements('tax_details', config);
+    const jobRequirements = this.getRequirements('job_details', config, nextState.data.job_details);
+    const taxRequirements = this.getRequirements('tax_details', config, nextState.data.tax_details);
 
     // --- STATE: JOB DETAILS ---
     if (nextState.section === 'job_details') {
@@ -376,13 +446,8 @@ export class SalaryStateMachine {
     lines.push('### Netto-Berechnung:\n');
 
     // Show adjusted brutto if there are taxable allowances
-    const taxableAllowances = result.allowances?.taxable;
-    const taxableTotal = taxableAllowances
-      ? (taxableAllowances.shiftChange || 0) +
-        (taxableAllowances.qualifications || 0) +
-        (taxableAllowances.performance || 0) +
-        (taxableAllowances.jumpIn || 0)
-      : 0;
+    const allowanceSplit = result.allowances ? getAllowanceSplit(result.allowances) : undefined;
+    const taxableTotal = allowanceSplit?.taxable ?? 0;
 
     if (taxableTotal > 0 && result.brutto) {
       lines.push(`- Brutto inkl. steuerp. Zulagen: ${(result.brutto + taxableTotal).toFixed(0)} €`);
@@ -394,18 +459,32 @@ export class SalaryStateMachine {
     if (result.socialContributions !== undefined) {
       lines.push(`- Sozialabgaben: -${result.socialContributions.toFixed(0)} €`);
     }
+    if (result.zusatzversorgung) {
+      lines.push(`  - davon Zusatzversorgung (VBL/ZVK): -${result.zusatzversorgung.toFixed(0)} €`);
+    }
+    if (result.privateHealthInsurance) {
+      lines.push(`- PKV-Beitrag: -${result.privateHealthInsurance.premium.toFixed(0)} €`);
+      lines.push(`- + Arbeitgeberzuschuss PKV: +${result.privateHealthInsurance.employerSubsidy.toFixed(0)} €`);
+    }
+    if (result.employmentType === 'midijob') {
+      lines.push('- _Midijob (Übergangsbereich): reduzierte Sozialabgaben_');
+    } else if (result.employmentType === 'minijob') {
+      lines.push('- _Minijob: nur Rentenversicherungs-Eigenanteil, Pauschalsteuer trägt der Arbeitgeber_');
+    }
     if (result.netto !== undefined) {
       lines.push(`- **Netto:** ${result.netto.toFixed(0)} €`);
     }
 
-    // Tax-free allowances added to netto
-    if (result.allowances?.taxFree) {
-      const taxFreeTotal = (result.allowances.taxFree.night || 0) +
-                           (result.allowances.taxFree.sunday || 0) +
-                           (result.allowances.taxFree.holiday || 0);
+    // Tax-free allowances added to netto (contributions on the SV-liable part are in the Sozialabgaben)
+    if (allowanceSplit) {
+      const svLiable = allowanceSplit.svLiable ?? 0;
+      const taxFreeTotal = allowanceSplit.taxFree + svLiable;
       if (taxFreeTotal > 0) {
         lines.push(`- + Steuerfreie Zuschläge: +${taxFreeTotal.toFixed(0)} €`);
       }
+      if (svLiable >= 0.5) {
+        lines.push(`  - davon beitragspflichtig (Stundenlohn über 25 €): ${svLiable.toFixed(0)} €`);
+      }
     }
 
     // Final payout amount
@@ -426,4 +505,61 @@ export class SalaryStateMachine {
 
     return lines.join('\n');
   }
+
+  /**
+   * Format the one-off payments of the year (Jahressonderzahlung, Leistungsentgelt) with their deductions
+   * @param sonstigeBezuege Sonstige Bezüge from TaxWrapper.calculate
+   * @returns Formatted overview in German
+   */
+  static formatSonstigeBezuege(sonstigeBezuege: NonNullable<CalculationResult['sonstigeBezuege']>): string {
+    const monthNames = ['Januar', 'Februar', 'März', 'April', 'Mai', 'Juni', 'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember'];
+    const lines: string[] = [];
+
+    lines.push('### Sonderzahlungen im Jahr:\n');
+    for (const payment of sonstigeBezuege.payments) {
+      const paidIn = payment.month ? ` im ${monthNames[payment.month - 1]}` : '';
+      lines.push(`- ${payment.label}: ${payment.amount.toFixed(0)} € brutto${paidIn}`);
+    }
+    const taxes = sonstigeBezuege.lohnsteuer + sonstigeBezuege.soli + sonstigeBezuege.kirchensteuer;
+    lines.push(`- Steuern: -${taxes.toFixed(0)} €`);
+    lines.push(`- Sozialabgaben: -${sonstigeBezuege.socialSecurity.toFixed(0)} €`);
+    lines.push(`- **Netto zusätzlich:** ${sonstigeBezuege.netto.toFixed(0)} €`);
+    lines.push('');
+    lines.push('_Sonderzahlungen werden als sonstige Bezüge versteuert und sind nicht im monatlichen Netto enthalten._');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Format the Steuerklassen comparison for married users, ending with a recommendation
+   * @param comparison Result of TaxWrapper.compareTaxClasses
+   * @returns Formatted comparison in German
+   */
+  static formatTaxClassComparison(comparison: TaxClassComparison): string {
+    const lines: string[] = [];
+
+    lines.push('### Steuerklassen-Vergleich (monatlich netto):\n');
+    for (const option of comparison.options) {
+      const factor = option.factor !== undefined ? ` (Faktor ${option.factor.toLocaleString('de-DE')})` : '';
+      lines.push(
+        `- ${option.label}${factor}: du ${option.netto.toFixed(0)} € + Partner ${option.partnerNetto.toFixed(0)} € = **${option.combinedNetto.toFixed(0)} €**`
+      );
+    }
+    lines.push('');
+
+    const best = comparison.options.find(o => o.label === comparison.recommended)!;
+    const ivIv = comparison.options.find(o => o.label === 'IV/IV');
+    const advantage = ivIv && best !== ivIv ? ` (${(best.combinedNetto - ivIv.combinedNetto).toFixed(0)} € mehr als mit IV/IV)` : '';
+    lines.push(`💡 **Empfehlung:** Mit **${best.label}** habt ihr zusammen monatlich das meiste Netto${advantage}.`);
+
+    if (best.label === 'III/V' || best.label === 'V/III') {
+      lines.push('Beachte: Mit III/V seid ihr zur Steuererklärung verpflichtet, und am Jahresende kann eine Nachzahlung fällig werden. IV/IV mit Faktor verteilt die Steuer so, wie sie am Jahresende tatsächlich anfällt.');
+    } else if (best.label === 'IV/IV mit Faktor') {
+      lines.push('Den Faktor beantragt ihr gemeinsam beim Finanzamt; die Steuererklärung ist dann Pflicht, Nachzahlungen sind aber kaum zu erwarten.');
+    } else {
+      lines.push('Bei ähnlichen Einkommen ist IV/IV die einfachste Wahl – ohne Pflicht zur Steuererklärung.');
+    }
+
+    return lines.join('\n');
+  }
 }
@@ -1,5 +1,6 @@
 import { FormState } from "../types/form";
 import { getGeminiClient, generateWithRetry } from "./gemini";
+import { TARIFF_PROVIDERS } from "../utils/agent/tools/tariffs";
 
 /**
  * Predefined suggestion chips organized by field.
@@ -7,8 +8,9 @@ import { getGeminiClient, generateWithRetry } from "./gemini";
  */
 const PREDEFINED_CHIPS: Record<string, string[]> = {
   // job_details stage
-  tarif: ['TVöD', 'TV-L', 'AVR'],
+  tarif: [...Object.values(TARIFF_PROVIDERS).map(provider => provider.label), 'Kein Tarif'],
   experience: ['Unter 1 Jahr', '1-3 Jahre', '3-6 Jahre', 'Über 6 Jahre'],
+  qualificationLevel: ['Pflegefachkraft', 'Pflegehilfskraft mit Ausbildung', 'Pflegehilfskraft ohne Ausbildung'],
   hours: ['Vollzeit', 'Teilzeit'],
   state: ['NRW', 'Bayern', 'Baden-Württemberg', 'Hessen', 'Niedersachsen', 'Berlin'],
 
@@ -16,16 +18,22 @@ const PREDEFINED_CHIPS: Record<string, string[]> = {
   taxClass: ['Klasse 1 (ledig)', 'Klasse 2 (alleinerziehend)', 'Klasse 3 (verheiratet)', 'Klasse 4 (verheiratet)', 'Klasse 5', 'Klasse 6'],
   churchTax: ['Ja', 'Nein'],
   numberOfChildren: ['Keine Kinder', '1 Kind', '2 Kinder', '3+ Kinder'],
+  childAllowance: ['Voll (1,0 pro Kind)', 'Halb (0,5 pro Kind)'],
+  healthInsurance: ['Gesetzlich', 'Privat'],
+  partnerIncome: ['Kein Einkommen', '2.000 €', '3.000 €', '4.000 €'],
 
   // summary stage confirmation
   _summary_confirm: ['Ja', 'Etwas ändern'],
+
+  // completed: follow-up scenarios
+  _completed_followup: ['Was kostet mich 100 € Entgeltumwandlung?'],
 };
 
 /**
  * Fields that expect freeform input.
  * Chips should be skipped for these fields.
  */
-const FREEFORM_FIELDS = ['group']; // Job title/position requires typing
+const FREEFORM_FIELDS = ['group', 'actualGross']; // Job title/position and the contract's gross require typing
 
 /**
  * Generate escalation chips when validation fails repeatedly
@@ -38,11 +46,9 @@ export function generateEscalationChips(
   // Return user-friendly chip labels
   // Map internal values to German display labels
   const fieldLabels: Record<string, Record<string, string>> = {
-    tarif: {
-      'tvoed': 'TVöD (öffentlicher Dienst)',
-      'tv-l': 'TV-L (Länder)',
-      'avr': 'AVR (kirchlich)',
-    },
+    tarif: Object.fromEntries(
+      Object.values(TARIFF_PROVIDERS).map(provider => [provider.id, `${provider.label} (${provider.description})`])
+    ),
     taxClass: {
       '1': 'Klasse 1 (ledig)',
       '2': 'Klasse 2 (alleinerziehend)',
@@ -61,6 +67,14 @@ export function generateEscalationChips(
       '2': '2 Kinder',
       '3': '3+ Kinder',
     },
+    childAllowance: {
+      'halb': 'Halb (0,5 pro Kind)',
+      'voll': 'Voll (1,0 pro Kind)',
+    },
+    healthInsurance: {
+      'gesetzlich': 'Gesetzlich (z.B. AOK, TK)',
+      'privat': 'Privat (PKV)',
+    },
     // For other fields, use valid options directly
   };
 
@@ -91,9 +105,9 @@ export async function generateSuggestions(
     return escalationChips;
   }
 
-  // 1. If section is 'completed', return empty array
+  // 1. If section is 'completed', offer the follow-up scenarios
   if (formState.section === 'completed') {
-    return [];
+    return PREDEFINED_CHIPS._completed_followup;
   }
 
   // 2. If section is 'summary', return summary confirmation chips
@@ -2,6 +2,24 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { GoogleGenAI } from '@google/genai';
 import { generateWithRetry } from '../gemini';
 import { getGeminiClient } from '../gemini';
+import { normalizeTariffGroup } from './tariffTableParser';
+
+/**
+ * Where a salary value from a document table comes from (admin traceability)
+ */
+export interface TariffProvenance {
+  documentId: string;
+  filename: string;
+  /** Original URL for documents added by URL */
+  sourceUrl: string | null;
+  page: number | null;
+  section: string | null;
+  year: number | null;
+  /** First day the table is valid (ISO date), missing in inquiries saved before it was stored */
+  validFrom?: string;
+  /** Markdown row the value was read from */
+  row: string;
+}
 
 export class VectorstoreService {
   private supabase: SupabaseClient;
@@ -328,131 +346,85 @@ export class VectorstoreService {
   }
 
   /**
-   * Query vectorstore for tariff/salary data and extract structured salary information
-   * @param tarif The tariff system (tvoed, tv-l, avr)
+   * Look up a salary in the Entgelttabellen parsed from the project's (and global) documents.
+   * Exact match on tariff, group and Stufe, no LLM in the number path. Only tables valid on the
+   * date count (rows without a detected tariff or date never do); prefers project documents
+   * over global ones, then the latest valid_from.
+   * @param tarif Tariff id (tvoed, tv-l, avr-caritas, ...)
    * @param group The pay group (e.g., P7, E9)
    * @param stufe The experience level (1-6)
    * @param projectId The project ID for filtering
-   * @returns Extracted salary data or null if not found
+   * @param validOn Calculation date (ISO), tables valid from a later date are ignored
+   * @returns Salary with provenance, or success: false if no document table has the value
    */
   async queryTariffData(
     tarif: string,
     group: string,
     stufe: string,
-    projectId: string
+    projectId: string,
+    validOn: string = new Date().toISOString().slice(0, 10)
   ): Promise<{
     success: boolean;
     monthlyGross?: number;
     yearlyGross?: number;
     source?: string;
+    provenance?: TariffProvenance;
     error?: string;
   }> {
     try {
-      // Build a specific query for tariff data
-      const tarifName = tarif === 'tvoed' ? 'TVöD' : tarif === 'tv-l' ? 'TV-L' : 'AVR';
-      const query = `Entgelttabelle ${tarifName} Tabelle Monatswerte ${group} Stufe ${stufe} Euro Bruttogehalt`;
-
-      console.log('[VectorstoreService] Tariff query:', query);
-
-      // Query with higher match count to find tariff tables among other document chunks
-      const embedding = await this.generateEmbedding(query);
-
-      const { data: results, error } = await this.supabase.rpc('match_documents_with_metadata', {
-        query_embedding: embedding,
-        match_threshold: 0.35, // Lower threshold to catch tariff tables with numeric content
-        match_count: 10,
-        filter_project_id: projectId
-      });
+      const { data: rows, error } = await this.supabase
+        .from('document_tariff_rows')
+        .select('tarif, year, valid_from, monthly_gross, page_number, section, source_row, document_id, documents!inner(filename, source_url, project_id, status)')
+        .eq('tarif', tarif)
+        .eq('gruppe', normalizeTariffGroup(group))
+        .eq('stufe', parseInt(stufe, 10))
+        .not('valid_from', 'is', null)
+        .lte('valid_from', validOn)
+        .eq('documents.status', 'embedded')
+        .or(`project_id.eq.${projectId},project_id.is.null`, { referencedTable: 'documents' });
 
       if (error) {
-        console.error('[VectorstoreService] Tariff search error:', error);
+        console.error('[VectorstoreService] Tariff row lookup error:', error);
         return { success: false, error: 'Database query failed' };
       }
 
-      if (!results || results.length === 0) {
-        console.log('[VectorstoreService] No tariff documents found');
+      if (!rows || rows.length === 0) {
+        console.log('[VectorstoreService] No parsed tariff table has', group, 'Stufe', stufe);
         return { success: false, error: 'No tariff documents found' };
       }
 
-      // Prioritize chunks that contain actual table data (pipe-separated rows)
-      const tableChunks = results.filter((r: any) => r.content.includes('|') && /\d{4}[.,]\d{2}/.test(r.content));
-      const otherChunks = results.filter((r: any) => !tableChunks.includes(r));
-      const prioritized = [...tableChunks, ...otherChunks].slice(0, 5);
-
-      const context = prioritized
-        .map((r: any) => r.content)
-        .join('\n\n---\n\n');
-
-      console.log('[VectorstoreService] Found', results.length, 'chunks,', tableChunks.length, 'with table data');
-
-      // Use Gemini to extract the specific salary value
-      const extractionPrompt = `
-Du bist ein Daten-Extraktor für Gehaltsdaten aus Tariftabellen.
-
-Kontext aus Dokumenten:
-${context}
-
-Aufgabe: Finde das monatliche Bruttogehalt für:
-- Tarifvertrag: ${tarifName}
-- Entgeltgruppe: ${group}
-- Stufe: ${stufe}
-
-WICHTIG:
-- Die Tabellen haben Spaltenüberschriften wie "1", "2", "3", "4", "5", "6" — diese entsprechen Stufe 1, Stufe 2, Stufe 3 usw.
-- Die Zeilen beginnen mit der Entgeltgruppe (z.B. "P 11", "P 7")
-- Finde die Zeile für Entgeltgruppe ${group} und lies den Wert in der Spalte ${stufe} (= Stufe ${stufe})
-- Das Gehalt sollte ein monatlicher Bruttobetrag sein (typisch zwischen 2.500€ und 7.000€)
-- Wenn es mehrere Tabellen für verschiedene Jahre gibt, verwende die aktuellste
-- Wenn du den exakten Wert findest, gib ihn zurück
-- Wenn du keinen passenden Wert findest, gib null zurück
-
-Antworte NUR mit JSON:
-{
-  "found": true/false,
-  "monthlyGross": <Zahl oder null>,
-  "confidence": "high"/"medium"/"low",
-  "source": "<Quellenangabe wenn vorhanden>"
-}
-`;
-
-      const extractResult = await generateWithRetry(this.genAI, {
-        model: 'gemini-2.5-flash',
-        contents: extractionPrompt,
-        config: { responseMimeType: 'application/json' }
-      });
-
-      const extractText = extractResult.text || '';
-      const cleanJson = extractText.replace(/```json/g, '').replace(/```/g, '').trim();
-
-      try {
-        const extracted = JSON.parse(cleanJson);
-
-        if (extracted.found && extracted.monthlyGross && extracted.confidence !== 'low') {
-          const monthlyGross = parseFloat(extracted.monthlyGross);
-          if (!isNaN(monthlyGross) && monthlyGross > 1000 && monthlyGross < 15000) {
-            console.log('[VectorstoreService] Extracted tariff data:', {
-              monthlyGross,
-              confidence: extracted.confidence,
-              source: extracted.source
-            });
-
-            return {
-              success: true,
-              monthlyGross,
-              yearlyGross: monthlyGross * 12,
-              source: extracted.source || results[0]?.filename
-            };
-          }
-        }
-
-        console.log('[VectorstoreService] Extraction failed or low confidence:', extracted);
-        return { success: false, error: 'Could not extract salary from documents' };
-
-      } catch (parseError) {
-        console.error('[VectorstoreService] Failed to parse extraction result:', parseError);
-        return { success: false, error: 'Failed to parse extracted data' };
-      }
-
+      type TariffRowDocument = { filename: string; source_url: string | null; project_id: string | null };
+      const documentOf = (row: { documents: TariffRowDocument | TariffRowDocument[] }) =>
+        Array.isArray(row.documents) ? row.documents[0] : row.documents;
+
+      // Ranking: project document, then latest valid_from
+      const best = [...rows].sort((a, b) =>
+        Number(Boolean(documentOf(b)?.project_id)) - Number(Boolean(documentOf(a)?.project_id))
+        || String(b.valid_from).localeCompare(String(a.valid_from))
+      )[0];
+
+      const document = documentOf(best);
+      const monthlyGross = Number(best.monthly_gross);
+      const provenance: TariffProvenance = {
+        documentId: best.document_id,
+        filename: document?.filename ?? '',
+        sourceUrl: document?.source_url ?? null,
+        page: best.page_number,
+        section: best.section,
+        year: best.year,
+        validFrom: best.valid_from,
+        row: best.source_row,
+      };
+
+      console.log('[VectorstoreService] Tariff value from document table:', { monthlyGross, provenance });
+
+      return {
+        success: true,
+        monthlyGross,
+        yearlyGross: monthlyGross * 12,
+        source: provenance.filename + (provenance.page ? ` (${formatPageRange(provenance.page, provenance.page)})` : ''),
+        provenance,
+      };
     } catch (error) {
       console.error('[VectorstoreService] Tariff query failed:', error);
       return { success: false, error: 'Tariff query failed' };
@@ -0,0 +1,176 @@
+import { detectTarifInDocument, type TarifId } from '../../utils/agent/tools/tariffs';
+
+/**
+ * One salary value read from a markdown Entgelttabelle of a document
+ */
+export interface ParsedTariffRow {
+  /** Tariff id, null if neither the table context nor the filename names it */
+  tarif: TarifId | null;
+  /** Year of the table from its heading/section/filename, null if none found */
+  year: number | null;
+  /** First day of validity ("gültig ab 01.03.2024"), null if the table names none (then it is never used) */
+  valid_from: string | null;
+  /** Normalized group without spaces, upper case ("P 7" -> "P7", "E 9a" -> "E9A") */
+  gruppe: string;
+  stufe: number;
+  monthly_gross: number;
+  /** [PAGE:N] the table is on (PDFs) */
+  page_number: number | null;
+  /** [SECTION: title] the table is in (HTML) */
+  section: string | null;
+  /** The markdown row the value was read from, for provenance */
+  source_row: string;
+}
+
+/** Plausible monthly full-time gross, anything else is not a salary cell */
+const MIN_MONTHLY_GROSS = 500;
+const MAX_MONTHLY_GROSS = 20000;
+
+/** Non-table lines before a table that are searched for its year and tariff */
+const CONTEXT_LINES = 4;
+
+/**
+ * Normalize an Entgeltgruppe for exact matching: "P 7" -> "P7", "EG 9a" -> "E9A", "Kr 7a" -> "KR7A"
+ */
+export function normalizeTariffGroup(group: string): string {
+  const compact = group.replace(/^Entgeltgruppe\s*/i, '').replace(/\s+/g, '').toUpperCase();
+  return compact.replace(/^EG(?=\d)/, 'E');
+}
+
+/**
+ * Parse a German or plain amount ("3.102,43 €", "3102,43", "3102.43")
+ */
+function parseAmount(cell: string): number | null {
+  const value = cell.replace(/[€\s]/g, '');
+  if (!/^\d{1,3}(\.\d{3})*(,\d{1,2})?$|^\d+([.,]\d{1,2})?$/.test(value)) return null;
+
+  const normalized = value.includes(',')
+    ? value.replace(/\./g, '').replace(',', '.')
+    : /^\d{1,3}\.\d{3}$/.test(value) ? value.replace('.', '') : value;
+  const amount = parseFloat(normalized);
+  return amount >= MIN_MONTHLY_GROSS && amount <= MAX_MONTHLY_GROSS ? amount : null;
+}
+
+function detectYear(text: string): number | null {
+  const years = text.match(/\b20\d{2}\b/g);
+  return years ? parseInt(years[years.length - 1], 10) : null;
+}
+
+const MONTHS = ['januar', 'februar', 'märz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember'];
+
+/**
+ * First day of validity named in a table context: "gültig ab 01.03.2024", "ab 1. März 2024", "ab März 2024"
+ */
+function detectValidFrom(text: string): string | null {
+  const numeric = text.match(/\bab\s+(\d{1,2})\.\s*(\d{1,2})\.\s*(20\d{2})\b/i);
+  if (numeric) return `${numeric[3]}-${numeric[2].padStart(2, '0')}-${numeric[1].padStart(2, '0')}`;
+
+  const named = text.match(/\bab\s+(?:(\d{1,2})\.\s*)?([a-zä]+)\s+(20\d{2})\b/i);
+  const month = named ? MONTHS.indexOf(named[2].toLowerCase()) : -1;
+  if (named && month >= 0) return `${named[3]}-${String(month + 1).padStart(2, '0')}-${(named[1] ?? '1').padStart(2, '0')}`;
+
+  return null;
+}
+
+function splitRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+/**
+ * Column index -> Stufe for a header row ("| EG | 1 | 2 |" or "| Entgeltgruppe | Stufe 1 | Stufe 2 |")
+ */
+function parseStufeColumns(cells: string[]): Map<number, number> {
+  const columns = new Map<number, number>();
+  cells.forEach((cell, index) => {
+    const match = cell.match(/^(?:Stufe\s*)?([1-6])$/i);
+    if (match) columns.set(index, parseInt(match[1], 10));
+  });
+  return columns;
+}
+
+/**
+ * Read all Entgelttabellen (pipe-separated markdown tables with Stufe columns) of an
+ * extracted document into group × Stufe × amount rows. Deterministic, no LLM involved.
+ *
+ * @param text - Extracted document text with optional [PAGE:N] / [SECTION: title] markers
+ * @param filename - Used for tariff and year if the table context names none
+ */
+export function parseTariffTables(text: string, filename: string): ParsedTariffRow[] {
+  const rows: ParsedTariffRow[] = [];
+  const lines = text.split(/\r?\n/);
+
+  let page: number | null = null;
+  let section: string | null = null;
+  let context: string[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i].trim();
+
+    const pageMatch = line.match(/^\[PAGE:(\d+)\]/);
+    if (pageMatch) page = parseInt(pageMatch[1], 10);
+    const sectionMatch = line.match(/^\[SECTION:\s*([^\]]+)\]/);
+    if (sectionMatch) {
+      section = sectionMatch[1].trim();
+      context = [];
+    }
+
+    if (!line.startsWith('|')) {
+      if (line && !pageMatch && !sectionMatch) context = [...context, line].slice(-CONTEXT_LINES);
+      i++;
+      continue;
+    }
+
+    // Collect the table block
+    const block: string[] = [];
+    while (i < lines.length && lines[i].trim().startsWith('|')) {
+      block.push(lines[i].trim());
+      i++;
+    }
+
+    const tableContext = [section ?? '', ...context].join(' ');
+    let stufeColumns = new Map<number, number>();
+    let headerText = '';
+
+    for (const rowLine of block) {
+      const cells = splitRow(rowLine);
+      if (cells.every(cell => /^:?-{2,}:?$/.test(cell) || cell === '')) continue;
+
+      // Header rows until one with at least two Stufe columns
+      if (stufeColumns.size < 2) {
+        headerText += ' ' + rowLine;
+        stufeColumns = parseStufeColumns(cells);
+        continue;
+      }
+
+      const gruppe = normalizeTariffGroup(cells[0]);
+      if (!/^[A-Z]{1,3}\d{1,2}[A-C]?$/.test(gruppe)) continue;
+
+      const contextText = `${tableContext} ${headerText}`;
+      const tarif = detectTarifInDocument(contextText) ?? detectTarifInDocument(filename);
+      const year = detectYear(contextText) ?? detectYear(filename);
+      // No date from the year alone: a table "2026" may apply from March, not from 1 January
+      const validFrom = detectValidFrom(contextText) ?? detectValidFrom(filename);
+
+      for (const [column, stufe] of stufeColumns) {
+        const amount = parseAmount(cells[column] ?? '');
+        if (amount === null) continue;
+        rows.push({
+          tarif,
+          year,
+          valid_from: validFrom,
+          gruppe,
+          stufe,
+          monthly_gross: amount,
+          page_number: page,
+          section,
+          source_row: rowLine,
+        });
+      }
+    }
+
+    context = [];
+  }
+
+  return rows;
+}
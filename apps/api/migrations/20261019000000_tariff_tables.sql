@@ -0,0 +1,50 @@
+-- ============================================
+-- TARIFF TABLES
+-- Versioned monthly gross per tarif, valid-from date, Entgeltgruppe and Stufe
+-- ============================================
+--
+-- A table version is valid from valid_from until the next valid_from of the
+-- same tarif. Tariff increases are added as a new version by admins (CRUD or
+-- import in /tariffs), no deploy needed. Tariffs without rows here use the
+-- built-in tables of utils/agent/tools/tariffTables.ts.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS tariff_tables (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  tarif TEXT NOT NULL,          -- 'tvoed' | 'tv-l' | 'avr-caritas' | 'avr-dd' | 'tv-drk' | 'tvaoed-pflege'
+  valid_from DATE NOT NULL,
+  gruppe TEXT NOT NULL,         -- e.g. 'P7', 'E9a'
+  stufe INTEGER NOT NULL CHECK (stufe BETWEEN 1 AND 6),
+  monthly_gross NUMERIC(10, 2) NOT NULL CHECK (monthly_gross > 0),
+  UNIQUE (tarif, valid_from, gruppe, stufe)
+);
+
+CREATE INDEX IF NOT EXISTS tariff_tables_tarif_valid_from_idx ON tariff_tables(tarif, valid_from);
+
+ALTER TABLE tariff_tables ENABLE ROW LEVEL SECURITY;
+
+-- Tariff tables are public information: every logged-in user may read them
+CREATE POLICY "Authenticated users can read tariff tables"
+  ON tariff_tables FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Only global admins maintain them
+CREATE POLICY "Global admins can insert tariff tables"
+  ON tariff_tables FOR INSERT
+  TO authenticated
+  WITH CHECK (is_global_admin());
+
+CREATE POLICY "Global admins can update tariff tables"
+  ON tariff_tables FOR UPDATE
+  TO authenticated
+  USING (is_global_admin())
+  WITH CHECK (is_global_admin());
+
+CREATE POLICY "Global admins can delete tariff tables"
+  ON tariff_tables FOR DELETE
+  TO authenticated
+  USING (is_global_admin());
+
+-- Backend (Service Role) has full access by default.
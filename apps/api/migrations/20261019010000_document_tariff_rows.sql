@@ -0,0 +1,47 @@
+-- ============================================
+-- DOCUMENT TARIFF ROWS
+-- Entgelttabellen parsed from processed documents (group × Stufe × amount)
+-- ============================================
+--
+-- Filled by the process-document function when a document finishes processing:
+-- the markdown tables of the extracted text are parsed deterministically.
+-- The chat resolves salaries by exact lookup here instead of asking the LLM
+-- to read retrieved chunks. source_row/page_number/section are the provenance.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS document_tariff_rows (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  tarif TEXT,                   -- tariff provider id ('tvoed', 'avr-caritas', ...), NULL if not detectable
+  year INTEGER,                 -- year of the table, NULL if not detectable
+  gruppe TEXT NOT NULL,         -- normalized, e.g. 'P7', 'E9A'
+  stufe INTEGER NOT NULL CHECK (stufe BETWEEN 1 AND 6),
+  monthly_gross NUMERIC(10, 2) NOT NULL,
+  page_number INTEGER,
+  section TEXT,
+  source_row TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS document_tariff_rows_lookup_idx ON document_tariff_rows(gruppe, stufe, tarif);
+CREATE INDEX IF NOT EXISTS document_tariff_rows_document_id_idx ON document_tariff_rows(document_id);
+
+ALTER TABLE document_tariff_rows ENABLE ROW LEVEL SECURITY;
+
+-- Rows readable if parent document is readable
+CREATE POLICY "Users can view document tariff rows"
+  ON document_tariff_rows FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_tariff_rows.document_id
+      AND (
+        documents.project_id IS NULL
+        OR is_project_member(documents.project_id)
+        OR is_global_admin()
+      )
+    )
+  );
+
+-- Inserted and deleted by the service role (process-document) only.
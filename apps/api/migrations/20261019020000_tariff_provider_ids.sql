@@ -0,0 +1,19 @@
+-- ============================================
+-- TARIFF PROVIDER IDS
+-- AVR is split into AVR Caritas ('avr-caritas') and AVR-DD ('avr-dd')
+-- ============================================
+--
+-- The former id 'avr' stood for the Caritas table. Stored values are moved to
+-- 'avr-caritas'; new ids are 'tvoed', 'tv-l', 'avr-caritas', 'avr-dd',
+-- 'tv-drk' and 'tvaoed-pflege' (see utils/agent/tools/tariffs).
+-- ============================================
+
+UPDATE tariff_tables SET tarif = 'avr-caritas' WHERE tarif = 'avr';
+
+UPDATE document_tariff_rows SET tarif = 'avr-caritas' WHERE tarif = 'avr';
+
+UPDATE salary_inquiries SET tarif = 'avr-caritas' WHERE tarif = 'avr';
+
+UPDATE projects
+SET bonus_config = jsonb_set(bonus_config, '{employer,tarif}', '"avr-caritas"')
+WHERE bonus_config -> 'employer' ->> 'tarif' = 'avr';
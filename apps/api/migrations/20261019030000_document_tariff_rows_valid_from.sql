@@ -0,0 +1,15 @@
+-- ============================================
+-- DOCUMENT TARIFF ROWS: VALIDITY DATE
+-- First day a parsed Entgelttabelle is valid, for the lookup on the calculation date
+-- ============================================
+--
+-- Rows without an explicit "gültig ab" date (valid_from NULL) or tariff
+-- (tarif NULL) are never used for salaries. The year alone is no date: a table
+-- of a year can apply from a later month. Existing rows stay NULL until their
+-- document is processed again.
+-- ============================================
+
+ALTER TABLE document_tariff_rows ADD COLUMN IF NOT EXISTS valid_from DATE;
+
+CREATE INDEX IF NOT EXISTS document_tariff_rows_validity_idx
+  ON document_tariff_rows(tarif, gruppe, stufe, valid_from);
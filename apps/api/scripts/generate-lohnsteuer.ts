@@ -0,0 +1,356 @@
+#!/usr/bin/env npx tsx
+/**
+ * Lohnsteuer Class Generator
+ *
+ * Reads the official BMF Programmablaufplan (PAP) XML ("Lohnsteuer<year>.xml" as published
+ * for the Lohnsteuer-Anmeldung) and emits a TypeScript class with the same
+ * calculate(TaxInput): TaxOutput contract as the hand-ported Lohnsteuer2025/2026.
+ *
+ * The PAP pseudo-code is Java (BigDecimal); expressions are translated to the Big helper
+ * in utils/tax/TaxUtils.ts, which implements the same scale/rounding semantics.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-lohnsteuer.ts <path/to/Lohnsteuer2027.xml> [--out=utils/tax/Lohnsteuer2027.ts]
+ *
+ * UNVERIFIED: the generator has only been run on scripts/fixtures/lohnsteuer/pap/Lohnsteuer2026.xml,
+ * which is transcribed from the hand-ported Lohnsteuer2026 and not the published BMF file. Before a
+ * generated class is registered in utils/tax/LohnsteuerRegistry.ts:
+ *   1. Run scripts/test-lohnsteuer-generator.ts --xml=<published BMF Lohnsteuer2026.xml> until it passes
+ *   2. Add the BMF Prüftabelle of the new year to scripts/fixtures/lohnsteuer/ (<year>-bmf-pruefdaten.csv)
+ *      and run npm run test:tax with the class registered
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { basename, resolve } from 'path';
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+  bold: '\x1b[1m',
+};
+
+// ============================================================================
+// Minimal XML parsing (the PAP XML only uses elements and attributes)
+// ============================================================================
+
+interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function parseXml(xml: string): XmlNode {
+  const source = xml
+    .replace(/<\?[\s\S]*?\?>/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!DOCTYPE[\s\S]*?>/g, '');
+
+  const root: XmlNode = { name: '#root', attrs: {}, children: [] };
+  const stack: XmlNode[] = [root];
+  const tagPattern = /<(\/?)([A-Za-z_][\w.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(source)) !== null) {
+    const [, closing, name, rawAttrs, selfClosing] = match;
+
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      continue;
+    }
+
+    const attrs: Record<string, string> = {};
+    const attrPattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let attr: RegExpExecArray | null;
+    while ((attr = attrPattern.exec(rawAttrs)) !== null) {
+      attrs[attr[1]] = decodeEntities(attr[2] ?? attr[3]);
+    }
+
+    const node: XmlNode = { name, attrs, children: [] };
+    stack[stack.length - 1].children.push(node);
+    if (!selfClosing) {
+      stack.push(node);
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  return root;
+}
+
+function child(node: XmlNode, name: string): XmlNode | undefined {
+  return node.children.find(c => c.name === name);
+}
+
+function children(node: XmlNode | undefined, name: string): XmlNode[] {
+  return node ? node.children.filter(c => c.name === name) : [];
+}
+
+// ============================================================================
+// Java -> TypeScript translation
+// ============================================================================
+
+interface Variable {
+  name: string;
+  type: string;
+  default?: string;
+}
+
+const OUTPUT_KEYS = ['BK', 'BKS', 'LSTLZZ', 'SOLZLZZ', 'SOLZS', 'STS', 'VKVLZZ', 'VKVSONST'];
+
+function isBigDecimal(type: string): boolean {
+  return type.startsWith('BigDecimal');
+}
+
+function tsType(type: string): string {
+  if (type === 'BigDecimal[]') return 'Big[]';
+  if (type === 'BigDecimal') return 'Big';
+  return 'number';
+}
+
+/**
+ * Translate a Java expression from the PAP into TypeScript using the Big helper.
+ * Known variables/constants become class fields (this.X).
+ */
+function translateExpression(expr: string, fields: Set<string>): string {
+  return expr
+    .replace(/BigDecimal\.(ROUND_DOWN|ROUND_UP|ROUND_HALF_UP)/g, "'$1'")
+    .replace(/BigDecimal\.valueOf\s*\(/g, 'Big.of(')
+    .replace(/new\s+BigDecimal\s*\(/g, 'Big.of(')
+    .replace(/BigDecimal\.ZERO/g, 'Big.ZERO')
+    .replace(/BigDecimal\.ONE/g, 'Big.ONE')
+    .replace(/BigDecimal\.TEN/g, 'Big.of(10)')
+    .replace(/\(\s*(?:int|long|double)\s*\)/g, '')
+    .replace(/([^=!<>])==(?!=)/g, '$1===')
+    .replace(/!=(?!=)/g, '!==')
+    .replace(/(\d+(?:\.\d+)?)[lLdD]\b/g, '$1')
+    .replace(/(^|[^.\w'])([A-Za-z_]\w*)\b/g, (full, prefix: string, name: string) =>
+      fields.has(name) ? `${prefix}this.${name}` : full
+    )
+    .replace(/(\w)\s+\(/g, '$1(')
+    .trim();
+}
+
+function translateConstant(constant: Variable, fields: Set<string>): string {
+  const value = constant.default ?? '';
+  if (constant.type.endsWith('[]')) {
+    const items = value.trim().replace(/^\{/, '').replace(/\}$/, '').split(',').map(v => translateExpression(v, fields));
+    return `[${items.join(', ')}]`;
+  }
+  return translateExpression(value, fields);
+}
+
+function defaultValue(variable: Variable, fields: Set<string>): string {
+  if (variable.default) {
+    return translateExpression(variable.default, fields);
+  }
+  return isBigDecimal(variable.type) ? 'Big.ZERO' : '0';
+}
+
+function translateStatements(nodes: XmlNode[], fields: Set<string>, indent: string): string[] {
+  const lines: string[] = [];
+
+  for (const node of nodes) {
+    switch (node.name) {
+      case 'EVAL':
+        lines.push(`${indent}${translateExpression(node.attrs.exec, fields)};`);
+        break;
+      case 'EXECUTE':
+        lines.push(`${indent}this.${node.attrs.method}();`);
+        break;
+      case 'IF': {
+        const thenNode = child(node, 'THEN');
+        const elseNode = child(node, 'ELSE');
+        lines.push(`${indent}if (${translateExpression(node.attrs.expr, fields)}) {`);
+        lines.push(...translateStatements(thenNode?.children ?? [], fields, indent + '  '));
+        if (elseNode && elseNode.children.length > 0) {
+          lines.push(`${indent}} else {`);
+          lines.push(...translateStatements(elseNode.children, fields, indent + '  '));
+        }
+        lines.push(`${indent}}`);
+        break;
+      }
+      case 'COMMENT':
+        break;
+      default:
+        throw new Error(`Unsupported PAP statement <${node.name}>`);
+    }
+  }
+
+  return lines;
+}
+
+// ============================================================================
+// Code generation
+// ============================================================================
+
+function readVariables(parent: XmlNode | undefined, tag: string): Variable[] {
+  return children(parent, tag).map(v => ({ name: v.attrs.name, type: v.attrs.type, default: v.attrs.default ?? v.attrs.value }));
+}
+
+/**
+ * @param importPath - Directory of types.ts and TaxUtils.ts as seen from the generated file
+ */
+function generate(pap: XmlNode, sourceFile: string, importPath: string): { className: string; code: string } {
+  const className = pap.attrs.name;
+  if (!className || !/^Lohnsteuer\d{4}\w*$/.test(className)) {
+    throw new Error(`Unexpected PAP name "${className}"`);
+  }
+
+  const variablesNode = child(pap, 'VARIABLES');
+  const methodsNode = child(pap, 'METHODS');
+  if (!variablesNode || !methodsNode) {
+    throw new Error('PAP has no <VARIABLES> or <METHODS> section');
+  }
+
+  const inputs = readVariables(child(variablesNode, 'INPUTS'), 'INPUT');
+  const outputGroups = children(variablesNode, 'OUTPUTS');
+  const outputs = outputGroups.flatMap(group => readVariables(group, 'OUTPUT').map(v => ({ ...v, group: group.attrs.type ?? 'STANDARD' })));
+  const internals = readVariables(child(variablesNode, 'INTERNALS'), 'INTERNAL');
+  const constants = readVariables(child(pap, 'CONSTANTS'), 'CONSTANT');
+
+  const fields = new Set([...inputs, ...outputs, ...internals, ...constants].map(v => v.name));
+  const mainNode = child(methodsNode, 'MAIN');
+  const methods = children(methodsNode, 'METHOD');
+
+  if (!mainNode) {
+    throw new Error('PAP has no <MAIN> method');
+  }
+
+  const missingOutputs = OUTPUT_KEYS.filter(key => !outputs.some(o => o.name === key));
+  if (missingOutputs.length > 0) {
+    throw new Error(`PAP lacks TaxOutput fields: ${missingOutputs.join(', ')}`);
+  }
+
+  const declare = (v: Variable) => `  private ${v.name}: ${tsType(v.type)} = ${defaultValue(v, fields)};`;
+  const out: string[] = [];
+
+  out.push(`// Generated by scripts/generate-lohnsteuer.ts from ${sourceFile} - do not edit by hand.`);
+  out.push(`import { TaxInput, TaxOutput } from '${importPath}/types';`);
+  out.push(`import { Big } from '${importPath}/TaxUtils';`);
+  out.push('');
+  out.push(`export class ${className} {`);
+  out.push('  // Inputs');
+  out.push(...inputs.map(declare));
+  out.push('');
+  for (const group of [...new Set(outputs.map(o => o.group))]) {
+    out.push(group === 'STANDARD' ? '  // Outputs' : `  // ${group} Outputs`);
+    out.push(...outputs.filter(o => o.group === group).map(declare));
+    out.push('');
+  }
+  out.push('  // Internals');
+  out.push(...internals.map(declare));
+  out.push('');
+  out.push('  // Constants');
+  out.push(...constants.map(c => `  private readonly ${c.name} = ${translateConstant(c, fields)};`));
+  out.push('');
+  out.push('  public calculate(input: TaxInput): TaxOutput {');
+  out.push('    this.setInputs(input);');
+  out.push('    this.MAIN();');
+  out.push('    return this.getOutputs();');
+  out.push('  }');
+  out.push('');
+  out.push('  private setInputs(input: TaxInput): void {');
+  for (const v of inputs) {
+    const fallback = defaultValue(v, fields);
+    if (!isBigDecimal(v.type)) {
+      out.push(`    this.${v.name} = input.${v.name} ?? ${fallback};`);
+    } else if (v.default) {
+      out.push(`    this.${v.name} = input.${v.name} !== undefined ? Big.of(input.${v.name}) : ${fallback};`);
+    } else {
+      out.push(`    this.${v.name} = Big.of(input.${v.name} ?? 0);`);
+    }
+  }
+  out.push('  }');
+  out.push('');
+  out.push('  private getOutputs(): TaxOutput {');
+  out.push('    return {');
+  out.push(...OUTPUT_KEYS.map(key => `      ${key}: this.${key}.toNumber(),`));
+  out.push('    };');
+  out.push('  }');
+  out.push('');
+  out.push('  private MAIN(): void {');
+  out.push(...translateStatements(mainNode.children, fields, '    '));
+  out.push('  }');
+
+  for (const method of methods) {
+    out.push('');
+    out.push(`  private ${method.attrs.name}(): void {`);
+    out.push(...translateStatements(method.children, fields, '    '));
+    out.push('  }');
+  }
+
+  out.push('}');
+  out.push('');
+
+  return { className, code: out.join('\n') };
+}
+
+/**
+ * Generate the TypeScript class of a PAP XML document
+ *
+ * @param xml - Content of the PAP XML file
+ * @param sourceFile - File name for the generated header comment
+ * @param importPath - Directory of types.ts and TaxUtils.ts as seen from the generated file
+ */
+export function generateLohnsteuerClass(xml: string, sourceFile: string, importPath = '.'): { className: string; code: string } {
+  const pap = child(parseXml(xml), 'PAP');
+  if (!pap) {
+    throw new Error('No <PAP> root element found');
+  }
+  return generate(pap, sourceFile, importPath);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const xmlPath = args.find(a => !a.startsWith('--'));
+
+  if (!xmlPath || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+${colors.bold}Lohnsteuer Class Generator${colors.reset}
+
+${colors.cyan}Usage:${colors.reset}
+  npx tsx scripts/generate-lohnsteuer.ts <Lohnsteuer<year>.xml> [--out=<file>]
+
+${colors.cyan}Options:${colors.reset}
+  --out=<file>   Output path (default: utils/tax/<PAP name>.ts)
+`);
+    process.exit(xmlPath ? 0 : 1);
+  }
+
+  try {
+    const { className, code } = generateLohnsteuerClass(readFileSync(resolve(xmlPath), 'utf-8'), basename(xmlPath));
+    const outArg = args.find(a => a.startsWith('--out='))?.split('=')[1];
+    const outPath = resolve(outArg ?? resolve(__dirname, `../utils/tax/${className}.ts`));
+
+    writeFileSync(outPath, code);
+    console.log(`${colors.green}✓ Generated ${className}${colors.reset} → ${outPath}`);
+    console.log(
+      `${colors.yellow}⚠ Unverified:${colors.reset} verify the generator with scripts/test-lohnsteuer-generator.ts ` +
+      `--xml=<BMF Lohnsteuer2026.xml> and add BMF fixtures before registering ${className} in utils/tax/LohnsteuerRegistry.ts`
+    );
+  } catch (error) {
+    console.error(`${colors.red}✗ Generation failed:${colors.reset}`, error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Only as CLI: scripts/test-lohnsteuer-generator.ts imports generateLohnsteuerClass
+if (require.main === module) {
+  main();
+}
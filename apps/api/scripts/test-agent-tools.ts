@@ -0,0 +1,138 @@
+#!/usr/bin/env npx tsx
+/**
+ * Agent Tools Test CLI
+ *
+ * Checks the deterministic parsers of utils/agent/tools that turn the user's free-text answers
+ * into calculation input (gross amounts, experience and Stufe, ...).
+ *
+ * Usage:
+ *   npx tsx scripts/test-agent-tools.ts [--case=<name substring>] [--verbose]
+ */
+
+import { parseActualGross } from '../utils/agent/tools/pflegemindestlohn';
+import { parseExperience, resolveStufe } from '../utils/agent/tools/stufenlaufzeit';
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  blue: '\x1b[34m',
+  dim: '\x1b[2m',
+  bold: '\x1b[1m',
+};
+
+interface Check {
+  name: string;
+  expected: unknown;
+  actual: () => unknown;
+}
+
+const CHECKS: Check[] = [
+  {
+    // The unit next to the amount counts, not "Stunden" later in the text
+    name: 'actual-gross-monthly-with-weekly-hours',
+    expected: { amount: 3200, per: 'month' },
+    actual: () => parseActualGross('3200 € im Monat bei 30 Stunden'),
+  },
+  {
+    name: 'actual-gross-hourly-per-hour',
+    expected: { amount: 17.5, per: 'hour' },
+    actual: () => parseActualGross('17,50 € pro Stunde'),
+  },
+  {
+    name: 'actual-gross-hourly-short-unit',
+    expected: { amount: 17.5, per: 'hour' },
+    actual: () => parseActualGross('17,50 €/h'),
+  },
+  {
+    name: 'actual-gross-unit-before-amount',
+    expected: { amount: 18, per: 'hour' },
+    actual: () => parseActualGross('Stundenlohn 18 €'),
+  },
+  {
+    name: 'actual-gross-german-thousands',
+    expected: { amount: 3200, per: 'month' },
+    actual: () => parseActualGross('3.200 € brutto'),
+  },
+  {
+    name: 'experience-years',
+    expected: { priorExperienceYears: 5 },
+    actual: () => parseExperience('5 Jahre'),
+  },
+  {
+    name: 'experience-stufe-since-month',
+    expected: { stufe: 4, employmentStart: '2023-03-01' },
+    actual: () => parseExperience('Stufe 4 seit 03/2023'),
+  },
+  {
+    name: 'experience-since-named-month-with-prior-years',
+    expected: { priorExperienceYears: 2, employmentStart: '2019-04-01' },
+    actual: () => parseExperience('seit April 2019, davor 2 Jahre'),
+  },
+  {
+    name: 'experience-from-year',
+    expected: { employmentStart: '2020-01-01' },
+    actual: () => parseExperience('ab 2020'),
+  },
+  {
+    // TVöD: 5 years prior experience are credited up to Stufe 3, which runs 3 years from hiring
+    name: 'stufe-new-hire-with-years',
+    expected: { stufe: 3, nextStufe: 4, nextStepUp: '2029-01-01' },
+    actual: () => resolveStufe('tvoed', '5 Jahre', '2026-01-01'),
+  },
+  {
+    // Stufe 4 runs 4 years from the stated date
+    name: 'stufe-stated-since-month',
+    expected: { stufe: 4, nextStufe: 5, nextStepUp: '2027-03-01' },
+    actual: () => resolveStufe('tvoed', 'Stufe 4 seit 03/2023', '2026-01-01'),
+  },
+  {
+    // 2 years credited: Stufe 2 from 04/2019, Stufe 3 from 04/2021, Stufe 4 from 04/2024
+    name: 'stufe-since-named-month-with-prior-years',
+    expected: { stufe: 4, nextStufe: 5, nextStepUp: '2028-04-01' },
+    actual: () => resolveStufe('tvoed', 'seit April 2019, davor 2 Jahre', '2026-01-01'),
+  },
+  {
+    // Stufe 1 from 2020, the step-up into Stufe 4 is paid from 1 January 2026
+    name: 'stufe-from-year',
+    expected: { stufe: 4, nextStufe: 5, nextStepUp: '2030-01-01' },
+    actual: () => resolveStufe('tvoed', 'ab 2020', '2026-01-01'),
+  },
+];
+
+function main() {
+  const args = process.argv.slice(2);
+  const caseFilter = args.find(a => a.startsWith('--case='))?.split('=')[1];
+  const verbose = args.includes('--verbose');
+
+  const checks = CHECKS.filter(c => !caseFilter || c.name.includes(caseFilter));
+  let failed = 0;
+
+  console.log(`${colors.blue}━━━ Agent tools ━━━${colors.reset}`);
+
+  for (const check of checks) {
+    const actual = JSON.stringify(check.actual());
+    const expected = JSON.stringify(check.expected);
+
+    if (actual === expected) {
+      if (verbose) {
+        console.log(`  ${colors.green}✓${colors.reset} ${check.name}`);
+      }
+      continue;
+    }
+
+    failed++;
+    console.log(`  ${colors.red}✗ ${check.name}${colors.reset}`);
+    console.log(`    ${colors.dim}expected ${expected}${colors.reset}`);
+    console.log(`    ${colors.dim}actual   ${actual}${colors.reset}`);
+  }
+
+  if (failed > 0) {
+    console.log(`${colors.red}${colors.bold}✗ ${failed} of ${checks.length} checks failed${colors.reset}`);
+    process.exit(1);
+  }
+
+  console.log(`${colors.green}${colors.bold}✓ All ${checks.length} checks passed${colors.reset}`);
+}
+
+main();
@@ -0,0 +1,237 @@
+#!/usr/bin/env npx tsx
+/**
+ * Lohnsteuer Fixture Test CLI
+ *
+ * Feeds fixture cases through the BMF PAP classes registered in utils/tax/LohnsteuerRegistry.ts
+ * (Lohnsteuer2025, Lohnsteuer2026, ...) and compares the outputs (LSTLZZ, SOLZLZZ, BK, ...) cent by cent.
+ *
+ * Fixtures live in scripts/fixtures/lohnsteuer/. The year is taken from the file name prefix
+ * (e.g. 2026-regression.json, 2026-bmf-pruefdaten.csv). There are two kinds:
+ *   - BMF fixtures (file name "<year>-bmf-..."): values from the BMF Prüftabellen or the
+ *     BMF-Lohnsteuerrechner. Only these check the classes against the BMF.
+ *   - Regression fixtures (all other files): values derived from the PAP, they only pin the
+ *     current output of the classes and cannot find a deviation from the BMF.
+ *
+ * Two formats are supported:
+ *   - JSON: { "source": "...", "cases": [{ "id", "description", "source", "input": TaxInput, "expected": Partial<TaxOutput> }] }
+ *   - CSV:  optional "# source: ..." line, header row with "id", optional "description" and "source",
+ *           TaxInput keys (STKL, RE4, ZKF, ...) and TaxOutput keys (LSTLZZ, SOLZLZZ, BK, ...).
+ *           Empty cells are ignored.
+ *
+ * Every case must cite where its expected values come from, either per case or for the whole file
+ * (e.g. "BMF Prüftabelle Lohnsteuer 2026, allgemeine Tabelle"). Cases without a source fail.
+ *
+ * Usage:
+ *   npx tsx scripts/test-lohnsteuer-fixtures.ts [--year=2026] [--case=<id substring>] [--verbose]
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { LOHNSTEUER_BY_YEAR } from '../utils/tax/LohnsteuerRegistry';
+import type { TaxInput, TaxOutput } from '../utils/tax/types';
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+  dim: '\x1b[2m',
+  bold: '\x1b[1m',
+};
+
+const FIXTURE_DIR = resolve(__dirname, 'fixtures/lohnsteuer');
+
+const OUTPUT_KEYS: (keyof TaxOutput)[] = ['LSTLZZ', 'SOLZLZZ', 'BK', 'STS', 'SOLZS', 'BKS', 'VKVLZZ', 'VKVSONST'];
+
+interface FixtureCase {
+  id: string;
+  description?: string;
+  /** Origin of the expected values, overrides FixtureFile.source */
+  source?: string;
+  input: TaxInput;
+  expected: Partial<TaxOutput>;
+}
+
+interface FixtureFile {
+  file: string;
+  year: number;
+  /** Values from the BMF, see the file comment */
+  official: boolean;
+  source?: string;
+  cases: FixtureCase[];
+}
+
+interface Mismatch {
+  key: keyof TaxOutput;
+  expected: number;
+  actual: number;
+}
+
+function parseCsvSource(content: string): string | undefined {
+  return content.match(/^#\s*source:\s*(.+)$/m)?.[1].trim();
+}
+
+function parseCsv(content: string): FixtureCase[] {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() && !line.startsWith('#'));
+  const separator = lines[0].includes(';') ? ';' : ',';
+  const header = lines[0].split(separator).map(h => h.trim());
+
+  return lines.slice(1).map((line, index) => {
+    const cells = line.split(separator).map(c => c.trim());
+    const testCase: FixtureCase = { id: `row-${index + 2}`, input: {}, expected: {} };
+
+    header.forEach((column, i) => {
+      const cell = cells[i];
+      if (cell === undefined || cell === '') return;
+
+      if (column === 'id') {
+        testCase.id = cell;
+      } else if (column === 'description') {
+        testCase.description = cell;
+      } else if (column === 'source') {
+        testCase.source = cell;
+      } else if ((OUTPUT_KEYS as string[]).includes(column)) {
+        testCase.expected[column as keyof TaxOutput] = Number(cell);
+      } else {
+        testCase.input[column as keyof TaxInput] = Number(cell);
+      }
+    });
+
+    return testCase;
+  });
+}
+
+function loadFixtures(): FixtureFile[] {
+  return readdirSync(FIXTURE_DIR)
+    .filter(file => /^\d{4}.*\.(json|csv)$/.test(file))
+    .sort()
+    .map(file => {
+      const content = readFileSync(resolve(FIXTURE_DIR, file), 'utf-8');
+      const year = parseInt(file.slice(0, 4), 10);
+      const official = /^\d{4}-bmf-/.test(file);
+
+      if (file.endsWith('.csv')) {
+        return { file, year, official, source: parseCsvSource(content), cases: parseCsv(content) };
+      }
+
+      const json = JSON.parse(content) as { source?: string; cases: FixtureCase[] };
+      return { file, year, official, source: json.source, cases: json.cases };
+    });
+}
+
+function compare(expected: Partial<TaxOutput>, actual: TaxOutput): Mismatch[] {
+  return OUTPUT_KEYS
+    .filter(key => expected[key] !== undefined && expected[key] !== actual[key])
+    .map(key => ({ key, expected: expected[key] as number, actual: actual[key] }));
+}
+
+function formatCents(cents: number): string {
+  return (cents / 100).toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatInput(input: TaxInput): string {
+  return Object.entries(input).map(([key, value]) => `${key}=${value}`).join(' ');
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const yearFilter = args.find(a => a.startsWith('--year='))?.split('=')[1];
+  const caseFilter = args.find(a => a.startsWith('--case='))?.split('=')[1];
+  const verbose = args.includes('--verbose');
+
+  const fixtures = loadFixtures().filter(f => !yearFilter || f.year === parseInt(yearFilter, 10));
+
+  if (fixtures.length === 0) {
+    console.log(`${colors.yellow}⚠ No fixtures found in ${FIXTURE_DIR}${colors.reset}`);
+    process.exit(1);
+  }
+
+  let total = 0;
+  let failed = 0;
+  let officialTotal = 0;
+
+  for (const fixture of fixtures) {
+    const cases = fixture.cases.filter(c => !caseFilter || c.id.includes(caseFilter));
+    if (cases.length === 0) continue;
+
+    // Exact year only: the registry's fallback to earlier years would hide a missing PAP class
+    const Calculator = LOHNSTEUER_BY_YEAR[fixture.year];
+    const kind = fixture.official ? 'BMF' : 'regression';
+    console.log(`${colors.blue}━━━ ${fixture.file} (PAP ${fixture.year}, ${kind}) ━━━${colors.reset}`);
+    if (fixture.official) {
+      officialTotal += cases.length;
+    }
+    if (fixture.source) {
+      console.log(`${colors.dim}${fixture.source}${colors.reset}`);
+    }
+
+    if (!Calculator) {
+      console.log(`${colors.red}✗ No Lohnsteuer class for ${fixture.year}${colors.reset}\n`);
+      failed += cases.length;
+      total += cases.length;
+      continue;
+    }
+
+    let fixtureFailed = 0;
+
+    for (const testCase of cases) {
+      total++;
+
+      if (!testCase.source && !fixture.source) {
+        failed++;
+        fixtureFailed++;
+        console.log(`  ${colors.red}✗ ${testCase.id}${colors.reset} ${colors.dim}no source cited for the expected values${colors.reset}`);
+        continue;
+      }
+
+      // Fresh instance per case: the PAP classes keep intermediate state in fields
+      const actual = new Calculator().calculate(testCase.input);
+      const mismatches = compare(testCase.expected, actual);
+
+      if (mismatches.length === 0) {
+        if (verbose) {
+          console.log(`  ${colors.green}✓${colors.reset} ${testCase.id}`);
+        }
+        continue;
+      }
+
+      failed++;
+      fixtureFailed++;
+      console.log(`  ${colors.red}✗ ${testCase.id}${colors.reset}${testCase.description ? ` ${colors.dim}${testCase.description}${colors.reset}` : ''}`);
+      console.log(`    ${colors.dim}${formatInput(testCase.input)}${colors.reset}`);
+      if (testCase.source) {
+        console.log(`    ${colors.dim}source: ${testCase.source}${colors.reset}`);
+      }
+      for (const m of mismatches) {
+        const delta = m.actual - m.expected;
+        console.log(
+          `    ${colors.cyan}${m.key.padEnd(8)}${colors.reset} expected ${formatCents(m.expected).padStart(12)}` +
+          `  actual ${formatCents(m.actual).padStart(12)}  ${colors.yellow}Δ ${delta > 0 ? '+' : ''}${formatCents(delta)} €${colors.reset}`
+        );
+      }
+    }
+
+    const color = fixtureFailed === 0 ? colors.green : colors.red;
+    console.log(`${color}${cases.length - fixtureFailed}/${cases.length} passed${colors.reset}\n`);
+  }
+
+  if (failed > 0) {
+    console.log(`${colors.red}${colors.bold}✗ ${failed} of ${total} cases failed${colors.reset}`);
+    process.exit(1);
+  }
+
+  console.log(`${colors.green}${colors.bold}✓ All ${total} cases passed${colors.reset} (${officialTotal} BMF, ${total - officialTotal} regression)`);
+
+  const yearsWithoutBmf = [...new Set(fixtures.map(f => f.year))]
+    .filter(year => !fixtures.some(f => f.year === year && f.official));
+  if (yearsWithoutBmf.length > 0) {
+    console.log(
+      `${colors.yellow}⚠ No BMF fixtures for ${yearsWithoutBmf.join(', ')}: ` +
+      `these years are only regression-tested, not checked against the BMF${colors.reset}`
+    );
+  }
+}
+
+main();
@@ -0,0 +1,111 @@
+#!/usr/bin/env npx tsx
+/**
+ * Lohnsteuer Generator Test CLI
+ *
+ * Generates a class from a PAP XML with scripts/generate-lohnsteuer.ts and compares all its
+ * outputs with the hand-ported class of the same year on that year's fixtures. A difference
+ * means the generator translates part of the PAP pseudo-code differently than the port.
+ *
+ * Without --xml the input is the sample in scripts/fixtures/lohnsteuer/pap/, which was
+ * transcribed from the port itself and not taken from the BMF. Passing it only shows that the
+ * generator reproduces the port from that transcription; the generator is unverified against
+ * the published BMF Lohnsteuer2026.xml until it is run with --xml=<that file>.
+ *
+ * Usage:
+ *   npx tsx scripts/test-lohnsteuer-generator.ts [--xml=<BMF Lohnsteuer2026.xml>] [--verbose]
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { generateLohnsteuerClass } from './generate-lohnsteuer';
+import { LOHNSTEUER_BY_YEAR, type LohnsteuerCalculator } from '../utils/tax/LohnsteuerRegistry';
+import type { TaxInput, TaxOutput } from '../utils/tax/types';
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+  dim: '\x1b[2m',
+  bold: '\x1b[1m',
+};
+
+const FIXTURE_DIR = resolve(__dirname, 'fixtures/lohnsteuer');
+const SAMPLE = 'pap/Lohnsteuer2026.xml';
+const YEAR = 2026;
+
+const OUTPUT_KEYS: (keyof TaxOutput)[] = ['LSTLZZ', 'SOLZLZZ', 'BK', 'STS', 'SOLZS', 'BKS', 'VKVLZZ', 'VKVSONST'];
+
+/**
+ * Generate the sample's class into a temporary directory and load it
+ */
+async function loadGeneratedClass(xmlPath: string): Promise<new () => LohnsteuerCalculator> {
+  const xml = readFileSync(xmlPath, 'utf-8');
+  const { className, code } = generateLohnsteuerClass(xml, basename(xmlPath), resolve(__dirname, '../utils/tax'));
+  const dir = mkdtempSync(join(tmpdir(), 'lohnsteuer-generator-'));
+
+  try {
+    const file = join(dir, `${className}.ts`);
+    writeFileSync(file, code);
+    const generated = await import(pathToFileURL(file).href);
+    return generated[className];
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const verbose = args.includes('--verbose');
+  const xmlArg = args.find(a => a.startsWith('--xml='))?.split('=')[1];
+  const xmlPath = xmlArg ? resolve(xmlArg) : resolve(FIXTURE_DIR, SAMPLE);
+  const Ported = LOHNSTEUER_BY_YEAR[YEAR];
+  const Generated = await loadGeneratedClass(xmlPath);
+  const { cases } = JSON.parse(readFileSync(resolve(FIXTURE_DIR, `${YEAR}-regression.json`), 'utf-8')) as {
+    cases: { id: string; input: TaxInput }[];
+  };
+
+  console.log(`${colors.blue}━━━ ${xmlArg ? basename(xmlPath) : SAMPLE} vs. Lohnsteuer${YEAR} (${YEAR}-regression.json) ━━━${colors.reset}`);
+  let failed = 0;
+
+  for (const testCase of cases) {
+    const expected = new Ported().calculate(testCase.input);
+    const actual = new Generated().calculate(testCase.input);
+    const mismatches = OUTPUT_KEYS.filter(key => expected[key] !== actual[key]);
+
+    if (mismatches.length === 0) {
+      if (verbose) {
+        console.log(`  ${colors.green}✓${colors.reset} ${testCase.id}`);
+      }
+      continue;
+    }
+
+    failed++;
+    console.log(`  ${colors.red}✗ ${testCase.id}${colors.reset}`);
+    for (const key of mismatches) {
+      console.log(`    ${colors.cyan}${key.padEnd(8)}${colors.reset} ported ${expected[key]}  generated ${actual[key]}`);
+    }
+  }
+
+  if (failed > 0) {
+    console.log(`${colors.red}${colors.bold}✗ ${failed} of ${cases.length} cases differ${colors.reset}`);
+    process.exit(1);
+  }
+
+  console.log(`${colors.green}${colors.bold}✓ All ${cases.length} cases match${colors.reset}`);
+  if (!xmlArg) {
+    console.log(
+      `${colors.yellow}⚠ Generator not verified against the published BMF XML: ${SAMPLE} is transcribed from ` +
+      `Lohnsteuer${YEAR}.ts (run with --xml=<BMF Lohnsteuer${YEAR}.xml>)${colors.reset}`
+    );
+  }
+}
+
+main().catch(error => {
+  console.error(`${colors.red}✗ Generator test failed:${colors.reset}`, error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,110 @@
+#!/usr/bin/env npx tsx
+/**
+ * TaxUtils Test CLI
+ *
+ * Checks the Big decimal the PAP classes calculate with against the results of java.math.BigDecimal
+ * for the same operations (toPlainString, so the scale of a result counts as well as its value):
+ * rounding modes, negative values, division with and without scale and setScale.
+ *
+ * Usage:
+ *   npx tsx scripts/test-tax-utils.ts [--case=<name substring>] [--verbose]
+ */
+
+import { Big } from '../utils/tax/TaxUtils';
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  blue: '\x1b[34m',
+  dim: '\x1b[2m',
+  bold: '\x1b[1m',
+};
+
+interface Check {
+  name: string;
+  /** BigDecimal.toPlainString() of the same operation */
+  expected: string;
+  actual: () => Big | number;
+}
+
+const CHECKS: Check[] = [
+  // setScale: ROUND_HALF_UP rounds ties away from zero
+  { name: 'half-up-tie', expected: '3', actual: () => Big.of('2.5').setScale(0, 'ROUND_HALF_UP') },
+  { name: 'half-up-tie-negative', expected: '-3', actual: () => Big.of('-2.5').setScale(0, 'ROUND_HALF_UP') },
+  { name: 'half-up-below-tie', expected: '2', actual: () => Big.of('2.49').setScale(0, 'ROUND_HALF_UP') },
+  { name: 'half-up-negative-scale-1', expected: '-2.5', actual: () => Big.of('-2.45').setScale(1, 'ROUND_HALF_UP') },
+
+  // setScale: ROUND_DOWN truncates towards zero, also for negative values
+  { name: 'down', expected: '2', actual: () => Big.of('2.9').setScale(0, 'ROUND_DOWN') },
+  { name: 'down-negative', expected: '-2', actual: () => Big.of('-2.5').setScale(0, 'ROUND_DOWN') },
+  { name: 'down-negative-scale-2', expected: '-1.23', actual: () => Big.of('-1.239').setScale(2, 'ROUND_DOWN') },
+
+  // setScale: ROUND_UP rounds away from zero, but not an exact value
+  { name: 'up', expected: '3', actual: () => Big.of('2.1').setScale(0, 'ROUND_UP') },
+  { name: 'up-negative-scale-2', expected: '-1.24', actual: () => Big.of('-1.234').setScale(2, 'ROUND_UP') },
+  { name: 'up-exact', expected: '2', actual: () => Big.of('2.000').setScale(0, 'ROUND_UP') },
+
+  // setScale to a larger scale pads with zeros
+  { name: 'set-scale-larger', expected: '1.500', actual: () => Big.of('1.5').setScale(3, 'ROUND_DOWN') },
+
+  // divide with scale
+  { name: 'divide-scale-half-up', expected: '0.33', actual: () => Big.of(1).divide(Big.of(3), 2, 'ROUND_HALF_UP') },
+  { name: 'divide-scale-half-up-round', expected: '0.67', actual: () => Big.of(2).divide(Big.of(3), 2, 'ROUND_HALF_UP') },
+  { name: 'divide-scale-down', expected: '0.66', actual: () => Big.of(2).divide(Big.of(3), 2, 'ROUND_DOWN') },
+  { name: 'divide-scale-down-negative', expected: '-0.66', actual: () => Big.of(-2).divide(Big.of(3), 2, 'ROUND_DOWN') },
+  { name: 'divide-scale-up-negative', expected: '-0.67', actual: () => Big.of(-2).divide(Big.of(3), 2, 'ROUND_UP') },
+  { name: 'divide-scale-0-down', expected: '12345', actual: () => Big.of('12345.67').divide(Big.ONE, 0, 'ROUND_DOWN') },
+  { name: 'divide-scale-below-operand', expected: '123.4', actual: () => Big.of('123.456').divide(Big.ONE, 1, 'ROUND_DOWN') },
+  { name: 'divide-scale-larger', expected: '0.250000', actual: () => Big.of(1).divide(Big.of(4), 6, 'ROUND_DOWN') },
+
+  // divide without scale: exact quotient with the smallest scale at least the preferred scale
+  { name: 'divide-exact', expected: '2.5', actual: () => Big.of(10).divide(Big.of(4)) },
+  { name: 'divide-exact-integer', expected: '3', actual: () => Big.of(6).divide(Big.of(2)) },
+  { name: 'divide-exact-preferred-scale', expected: '0.25', actual: () => Big.of('1.00').divide(Big.of(4)) },
+  { name: 'divide-exact-eighth', expected: '0.125', actual: () => Big.of(1).divide(Big.of(8)) },
+
+  // Exact arithmetic keeps the scale of its operands
+  { name: 'add', expected: '3.35', actual: () => Big.of('1.1').add(Big.of('2.25')) },
+  { name: 'subtract-negative', expected: '-0.50', actual: () => Big.of(1).subtract(Big.of('1.50')) },
+  { name: 'multiply-scale', expected: '2.750', actual: () => Big.of('1.10').multiply(Big.of('2.5')) },
+  { name: 'of-double', expected: '0.0025', actual: () => Big.of(0.0025) },
+
+  // longValue truncates, compareTo ignores the scale
+  { name: 'long-value-negative', expected: '-2', actual: () => Big.of('-2.7').longValue() },
+  { name: 'compare-to-scale', expected: '0', actual: () => Big.of('2.0').compareTo(Big.of('2.00')) },
+];
+
+function main() {
+  const args = process.argv.slice(2);
+  const caseFilter = args.find(a => a.startsWith('--case='))?.split('=')[1];
+  const verbose = args.includes('--verbose');
+
+  const checks = CHECKS.filter(c => !caseFilter || c.name.includes(caseFilter));
+  let failed = 0;
+
+  console.log(`${colors.blue}━━━ TaxUtils Big ━━━${colors.reset}`);
+
+  for (const check of checks) {
+    const actual = check.actual().toString();
+
+    if (actual === check.expected) {
+      if (verbose) {
+        console.log(`  ${colors.green}✓${colors.reset} ${check.name}`);
+      }
+      continue;
+    }
+
+    failed++;
+    console.log(`  ${colors.red}✗ ${check.name}${colors.reset} expected ${check.expected}  ${colors.dim}actual ${actual}${colors.reset}`);
+  }
+
+  if (failed > 0) {
+    console.log(`${colors.red}${colors.bold}✗ ${failed} of ${checks.length} checks failed${colors.reset}`);
+    process.exit(1);
+  }
+
+  console.log(`${colors.green}${colors.bold}✓ All ${checks.length} checks passed${colors.reset}`);
+}
+
+main();
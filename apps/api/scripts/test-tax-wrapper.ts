@@ -0,0 +1,176 @@
+#!/usr/bin/env npx tsx
+/**
+ * TaxWrapper Test CLI
+ *
+ * Checks the calculations TaxWrapper adds around the BMF PAP classes (Zusatzversorgung,
+ * employer cost, Steuerklassen comparison, ...) against values worked out by hand from
+ * the rates they are based on or against the equivalent single calculation.
+ * The PAP classes themselves are covered by test-lohnsteuer-fixtures.ts.
+ *
+ * Usage:
+ *   npx tsx scripts/test-tax-wrapper.ts [--case=<name substring>] [--verbose]
+ */
+
+import { TaxWrapper, getZusatzversorgung } from '../utils/tax';
+import type { SalaryInput } from '../utils/tax/types';
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  dim: '\x1b[2m',
+  bold: '\x1b[1m',
+};
+
+interface Check {
+  name: string;
+  expected: number;
+  actual: () => number;
+}
+
+const BASE_INPUT: SalaryInput = {
+  yearlySalary: 36000,
+  taxClass: 1,
+  hasChildren: false,
+  childCount: 0,
+  churchTax: 'none',
+  state: 'west',
+  year: 2026,
+};
+
+const wrapper = new TaxWrapper();
+
+function employerSocialSecurity(input: SalaryInput): number {
+  const { socialSecurity, levies } = wrapper.calculateEmployerCost(input);
+  return socialSecurity.kv + socialSecurity.rv + socialSecurity.av + socialSecurity.pv
+    + levies.u1 + levies.u2 + levies.insolvency;
+}
+
+const CHECKS: Check[] = [
+  {
+    // VBL Ost: Umlage 1.0 % and Beitrag 2.0 % from the employer on 3000 €
+    name: 'zusatzversorgung-vbl-ost-employer',
+    expected: 90,
+    actual: () => wrapper.calculateEmployerCost({
+      ...BASE_INPUT,
+      state: 'east',
+      zusatzversorgung: getZusatzversorgung('tvoed', 'east'),
+    }).zusatzversorgung,
+  },
+  {
+    // VBL Ost: the employee pays 2.25 % of 3000 €
+    name: 'zusatzversorgung-vbl-ost-employee',
+    expected: 67.5,
+    actual: () => wrapper.calculate({
+      ...BASE_INPUT,
+      state: 'east',
+      zusatzversorgung: getZusatzversorgung('tvoed', 'east'),
+    }).socialSecurity.zusatzversorgung ?? 0,
+  },
+  {
+    // VBL West: Umlage 6.45 % from the employer on 3000 €
+    name: 'zusatzversorgung-vbl-west-employer',
+    expected: 193.5,
+    actual: () => wrapper.calculateEmployerCost({
+      ...BASE_INPUT,
+      zusatzversorgung: getZusatzversorgung('tvoed', 'west'),
+    }).zusatzversorgung,
+  },
+  {
+    // Entgeltumwandlung of 200 €: the employer adds the 15 % subsidy
+    name: 'employer-cost-entgeltumwandlung-subsidy',
+    expected: 30,
+    actual: () => wrapper.calculateEmployerCost({ ...BASE_INPUT, entgeltumwandlung: 200 }).bavSubsidy,
+  },
+  {
+    // ... and pays contributions only on the 2800 € left after the SV-free conversion
+    name: 'employer-cost-entgeltumwandlung-contributions',
+    expected: employerSocialSecurity({ ...BASE_INPUT, yearlySalary: 2800 * 12 }),
+    actual: () => employerSocialSecurity({ ...BASE_INPUT, entgeltumwandlung: 200 }),
+  },
+  {
+    // Total: 3000 € gross, contributions and Umlagen on 2800 €, plus the subsidy
+    name: 'employer-cost-entgeltumwandlung-total',
+    expected: wrapper.calculateEmployerCost({ ...BASE_INPUT, yearlySalary: 2800 * 12 }).total + 200 + 30,
+    actual: () => wrapper.calculateEmployerCost({ ...BASE_INPUT, entgeltumwandlung: 200 }).total,
+  },
+  {
+    // Special payment in the projection: JRE4 includes the taxable VBL Umlage and excludes the tax-free
+    // conversion like RE4, so its Lohnsteuer equals the one of the yearly calculation
+    name: 'monthly-projection-special-payment-jre4',
+    expected: wrapper.calculate({
+      ...BASE_INPUT,
+      entgeltumwandlung: 200,
+      zusatzversorgung: getZusatzversorgung('tvoed', 'west'),
+      sonstigeBezuege: [{ label: 'Jahressonderzahlung', amount: 3000, month: 11 }],
+    }).sonstigeBezuege?.lohnsteuer ?? 0,
+    actual: () => {
+      const payslips = wrapper.calculateMonthlyProjection({
+        ...BASE_INPUT,
+        entgeltumwandlung: 200,
+        zusatzversorgung: getZusatzversorgung('tvoed', 'west'),
+      }, { specialPayments: [{ label: 'Jahressonderzahlung', amount: 3000, month: 11 }] });
+      return payslips[10].lohnsteuer - payslips[9].lohnsteuer;
+    },
+  },
+  {
+    // Only the user converts 200 € a month: the spouse's net in V is that of a plain StKl V
+    name: 'tax-classes-entgeltumwandlung-one-spouse',
+    expected: wrapper.calculate({ ...BASE_INPUT, yearlySalary: 30000, taxClass: 5 }).netto,
+    actual: () => wrapper.compareTaxClasses({
+      ...BASE_INPUT,
+      taxClass: 4,
+      entgeltumwandlung: 200,
+      zusatzversorgung: getZusatzversorgung('tvoed', 'west'),
+    }, 30000).options.find(o => o.label === 'III/V')?.partnerNetto ?? 0,
+  },
+  {
+    // ... while the user's own net keeps the conversion
+    name: 'tax-classes-entgeltumwandlung-user',
+    expected: wrapper.calculate({ ...BASE_INPUT, taxClass: 3, entgeltumwandlung: 200 }).netto,
+    actual: () => wrapper.compareTaxClasses({
+      ...BASE_INPUT,
+      taxClass: 4,
+      entgeltumwandlung: 200,
+    }, 30000).options.find(o => o.label === 'III/V')?.netto ?? 0,
+  },
+];
+
+function main() {
+  const args = process.argv.slice(2);
+  const caseFilter = args.find(a => a.startsWith('--case='))?.split('=')[1];
+  const verbose = args.includes('--verbose');
+
+  const checks = CHECKS.filter(c => !caseFilter || c.name.includes(caseFilter));
+  let failed = 0;
+
+  console.log(`${colors.blue}━━━ TaxWrapper ━━━${colors.reset}`);
+
+  for (const check of checks) {
+    const actual = check.actual();
+
+    if (Math.abs(actual - check.expected) < 0.005) {
+      if (verbose) {
+        console.log(`  ${colors.green}✓${colors.reset} ${check.name}`);
+      }
+      continue;
+    }
+
+    failed++;
+    console.log(
+      `  ${colors.red}✗ ${check.name}${colors.reset} expected ${check.expected.toFixed(2)}` +
+      `  actual ${actual.toFixed(2)}  ${colors.yellow}Δ ${(actual - check.expected).toFixed(2)} €${colors.reset}`
+    );
+  }
+
+  if (failed > 0) {
+    console.log(`${colors.red}${colors.bold}✗ ${failed} of ${checks.length} checks failed${colors.reset}`);
+    process.exit(1);
+  }
+
+  console.log(`${colors.green}${colors.bold}✓ All ${checks.length} checks passed${colors.reset}`);
+}
+
+main();
@@ -5,6 +5,8 @@
  * and enables dynamic bonus calculations for different employers (e.g., DRK Lübeck).
  */
 
+import { TARIF_IDS, type TarifId } from '../utils/agent/tools/tariffs';
+
 export interface BonusConfig {
   /**
    * Employer information for personalization
@@ -14,8 +16,8 @@ export interface BonusConfig {
     name: string;
     /** Custom greeting message for the chatbot */
     greeting: string;
-    /** Base tariff system */
-    tarif: 'tvoed' | 'tv-l' | 'avr';
+    /** Base tariff system (id of a tariff provider) */
+    tarif: TarifId;
   };
 
   /**
@@ -33,6 +35,7 @@ export interface BonusConfig {
   /**
    * TVöD/Tariff-based allowances (Zulagen)
    * These are standard allowances defined in collective agreements.
+   * Missing entries use the values of the employer's tariff provider.
    */
   allowances?: {
     /** Wechselschichtzulage - shift change allowance */
@@ -57,6 +60,11 @@ export interface BonusConfig {
       /** Percentage of hourly rate (typically 125%) */
       percentage: number;
     };
+    /** Zuschlag on Heiligabend and Silvester, which are no Feiertage in the tariffs (§8 Abs. 1 TVöD: 35%) */
+    holidayEve?: {
+      /** Percentage of hourly rate (typically 35%) */
+      percentage: number;
+    };
   };
 
   /**
@@ -124,6 +132,19 @@ export interface BonusConfig {
       };
     };
   };
+
+  /**
+   * Employer cost (Arbeitgeberbrutto) rates in percent, shown to admins only.
+   * Missing rates: no U1, typical U2, no Zusatzversorgung.
+   */
+  employerCost?: {
+    /** Umlage U1 (Entgeltfortzahlung), only for employers with up to 30 employees */
+    u1Rate?: number;
+    /** Umlage U2 (Mutterschaft) of the employer's Kasse */
+    u2Rate?: number;
+    /** Employer contribution to VBL/ZVK (Umlage), e.g. 6.45 */
+    zusatzversorgungRate?: number;
+  };
 }
 
 /**
@@ -137,7 +158,7 @@ export function isBonusConfig(obj: unknown): obj is BonusConfig {
     typeof config.employer === 'object' &&
     typeof config.employer.name === 'string' &&
     typeof config.employer.greeting === 'string' &&
-    ['tvoed', 'tv-l', 'avr'].includes(config.employer.tarif) &&
+    TARIF_IDS.includes(config.employer.tarif) &&
     typeof config.features === 'object' &&
     typeof config.features.collectShiftData === 'boolean' &&
     typeof config.features.collectQualifications === 'boolean' &&
@@ -1,3 +1,5 @@
+import type { EmployerCost, EmploymentType, MonthlyPayslip, TaxClassComparison, TaxResult } from '../utils/tax/types';
+
 export type UserIntent = 'data' | 'question' | 'modification' | 'confirmation';
 
 /**
@@ -9,18 +11,28 @@ export type EmployeeType = 'fachkraft' | 'assistenz';
  * Allowances breakdown for result display
  */
 export interface AllowancesBreakdown {
-  /** Tax-free allowances (§3b EStG) */
+  /** Tax- and contribution-free allowances (§3b EStG, §1 SvEV) */
   taxFree: {
     night: number;
     sunday: number;
     holiday: number;
   };
+  /** Tax-free allowances subject to contributions (missing in results calculated before the §3b limits) */
+  svLiable?: {
+    night: number;
+    sunday: number;
+    holiday: number;
+  };
   /** Taxable allowances (added to gross before tax calculation) */
   taxable: {
     shiftChange: number;
     qualifications: number;
     performance: number;
     jumpIn: number;
+    /** SFN surcharges above the §3b limits (missing in results calculated before) */
+    night?: number;
+    sunday?: number;
+    holiday?: number;
   };
   /** Total monthly allowances */
   total: number;
@@ -41,17 +53,23 @@ export interface FormState {
   data: {
     // Phase 1: Gross Income Logic
     job_details?: {
-      tarif?: string;      // TVöD, TV-L, AVR...
+      tarif?: string;      // TVöD, TV-L, AVR... or 'kein-tarif'
       group?: string;      // E1 - E15 or P-Values
-      experience?: string; // Stufe 1-6
+      jobDescription?: string; // Tätigkeit the group was derived from (see eingruppieren)
+      experience?: string; // Stufe 1-6, Berufsjahre oder Beschäftigungsbeginn (see formatExperience)
       hours?: number;      // Weekly hours (e.g. 38.5)
       state?: string;      // Bundesland (for special tariffs)
+      // Without tariff (instead of group and experience)
+      actualGross?: string;        // "3200 € im Monat" or "17,5 € pro Stunde" (see formatActualGross)
+      qualificationLevel?: string; // hilfskraft, qualifizierte-hilfskraft, fachkraft (Pflegemindestlohn)
       // DRK-specific fields (dynamic based on BonusConfig)
       employeeType?: EmployeeType;    // Pflegefachkraft or Pflegeassistenz
       nightShifts?: number;           // Night shifts per month
       lateShifts?: number;            // Late shifts per month
       weekendDays?: number;           // Weekend days worked per month
       jumpInFrequency?: number;       // Average jump-ins per month
+      shiftHours?: number;            // Hours per shift (e.g. 12 for 12-hour night shifts)
+      holidayShifts?: number;         // Holidays worked per year
       qualifications?: string[];      // ['wundmanager', 'praxisanleiter', ...]
       [key: string]: any;
     };
@@ -63,6 +81,11 @@ export interface FormState {
       childCount?: number;   // optional specifics
       birthYear?: number;    // optional specifics
       numberOfChildren?: number; // number of children
+      childAllowance?: 'halb' | 'voll'; // Kinderfreibetrag per child: 0.5 (shared) or 1.0
+      healthInsurance?: 'gesetzlich' | 'privat';
+      pkvPremium?: number;   // Monthly PKV + PPV premium in Euro (only if privat)
+      healthInsurer?: string; // Krankenkasse (optional, see utils/tax/Krankenkassen.ts)
+      partnerIncome?: number; // Monthly gross of the spouse in Euro (only StKl 3/4/5)
       [key: string]: any;
     };
     // Calculation results
@@ -71,7 +94,13 @@ export interface FormState {
       netto?: number;
       taxes?: number;
       socialContributions?: number;
+      zusatzversorgung?: number; // Employee share VBL/ZVK, included in socialContributions
       year?: number;
+      employmentType?: EmploymentType; // Minijob / Midijob (Übergangsbereich) / regular
+      privateHealthInsurance?: { premium: number; employerSubsidy: number }; // Only for PKV
+      sonstigeBezuege?: TaxResult['sonstigeBezuege']; // Jahressonderzahlung/Leistungsentgelt, yearly amounts
+      taxClassComparison?: TaxClassComparison; // Only for married users with partnerIncome
+      monthlyProjection?: MonthlyPayslip[]; // Payslips January-December of the calculation year
       // DRK-specific: Allowances breakdown
       allowances?: AllowancesBreakdown;
       oneTimeBonuses?: OneTimeBonuses;
@@ -109,4 +138,6 @@ export interface ChatResponse {
   inquiryId?: string;
   suggestions?: string[];
   progress?: number;
+  monthlyProjection?: MonthlyPayslip[]; // Only with the calculation result
+  employerCost?: EmployerCost; // Only for employer projects and logged-in admins (test widget)
 }
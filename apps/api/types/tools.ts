@@ -2,7 +2,9 @@ import { z } from 'zod';
 import {
   tariffLookupSchema,
   taxCalculateSchema,
+  netToGrossSchema,
 } from '../utils/agent/toolSchemas';
+import type { EmploymentType } from '../utils/tax/types';
 
 /**
  * TypeScript types inferred from Zod schemas
@@ -12,6 +14,7 @@ import {
 // Inferred input types from Zod schemas
 export type TariffLookupInput = z.infer<typeof tariffLookupSchema>;
 export type TaxCalculateInput = z.infer<typeof taxCalculateSchema>;
+export type NetToGrossInput = z.infer<typeof netToGrossSchema>;
 
 // Tool result types
 export interface TariffLookupResult {
@@ -21,12 +24,15 @@ export interface TariffLookupResult {
   group: string;
   stufe: string;
   tarif: string;
+  /** Valid-from date of the tariff table used */
+  validFrom?: string;
   error?: ToolError;
 }
 
 export interface TaxCalculateResult {
   success: boolean;
   netto?: number;
+  employmentType?: EmploymentType;
   taxes?: {
     lohnsteuer: number;
     soli: number;
@@ -37,10 +43,26 @@ export interface TaxCalculateResult {
     rv: number;
     av: number;
     pv: number;
+    zusatzversorgung?: number;
   };
   error?: ToolError;
 }
 
+export interface NetToGrossResult {
+  success: boolean;
+  targetNetto: number;
+  /** Monthly gross needed for the target net */
+  monthlyGross?: number;
+  yearlyGross?: number;
+  /** Net actually reached at monthlyGross (rounded to the cent) */
+  netto?: number;
+  /** Weekly hours needed in the given group/stufe, may exceed full time (only with tarif, group and stufe) */
+  requiredHours?: number;
+  /** Entgeltgruppen/Stufen that reach the gross at the given hours (only with tarif) */
+  positions?: Array<{ group: string; stufe: string; monthlyGross: number }>;
+  error?: ToolError;
+}
+
 /**
  * Structured error for AI retry context
  * Includes field, error message, received value, and suggestion for correction
@@ -53,4 +75,4 @@ export interface ToolError {
 }
 
 // Union type for all tool results
-export type ToolResult = TariffLookupResult | TaxCalculateResult;
+export type ToolResult = TariffLookupResult | TaxCalculateResult | NetToGrossResult;
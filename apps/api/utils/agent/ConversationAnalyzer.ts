@@ -90,7 +90,7 @@ export class ConversationAnalyzer {
         (currentState.section === 'job_details' || currentState.section === 'tax_details')) {
       // Check if message likely contains data (not a pure question)
       const containsData = lowercaseMsg.match(
-        /\b(pflegefachkraft|pflegehelfer|pflegeassisten|altenpfleger|krankenpfleger|krankenschwester|stationsleitung|praxisanleiter|wohnbereichsleitung|pdl|fachkraft|assistenz|tvöd|tvoed|tv-l|tvl|avr|öffentlich|vollzeit|teilzeit|stunde|nrw|bayern|berlin|hamburg|hessen|sachsen|niedersachsen|schleswig|nordrhein|rheinland|baden|württemberg|brandenburg|thüringen|mecklenburg|saarland|bremen|steuerklasse|ledig|verheiratet|geschieden|kirchensteuer|kind|kinder|stufe|jahre|erfahrung|\d+\s*(h|stunden|std|jahre|j))\b/
+        /\b(pflegefachkraft|pflegehelfer|pflegeassisten|altenpfleger|krankenpfleger|krankenschwester|stationsleitung|praxisanleiter|wohnbereichsleitung|pdl|fachkraft|assistenz|tvöd|tvoed|tv-l|tvl|avr|caritas|diakonie|drk|tvaöd|azubi|ausbildung|öffentlich|vollzeit|teilzeit|stunde|nrw|bayern|berlin|hamburg|hessen|sachsen|niedersachsen|schleswig|nordrhein|rheinland|baden|württemberg|brandenburg|thüringen|mecklenburg|saarland|bremen|steuerklasse|ledig|verheiratet|geschieden|kirchensteuer|kind|kinder|stufe|jahre|erfahrung|\d+\s*(h|stunden|std|jahre|j))\b/
       );
 
       if (containsData) {
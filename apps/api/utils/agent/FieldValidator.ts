@@ -10,14 +10,27 @@ import {
   taxClassSchema,
   churchTaxSchema,
   numberOfChildrenSchema,
+  childAllowanceSchema,
+  healthInsuranceSchema,
+  pkvPremiumSchema,
+  partnerIncomeSchema,
+  healthInsurerSchema,
+  actualGrossSchema,
+  qualificationLevelSchema,
   // DRK-specific schemas
   employeeTypeSchema,
   nightShiftsSchema,
   lateShiftsSchema,
   weekendDaysSchema,
   jumpInFrequencySchema,
+  shiftHoursSchema,
+  holidayShiftsSchema,
   qualificationsSchema,
 } from './formFieldSchemas';
+import { KRANKENKASSEN, findRegionalAoks } from '../tax/Krankenkassen';
+import { eingruppieren } from './tools/eingruppierung';
+import { estimateWorkedHolidays } from '../allowances/Feiertage';
+import { NO_TARIF_FULL_TIME_HOURS, TARIF_IDS, TARIFF_PROVIDERS, getTariffProvider, isNoTarif, type TarifId } from './tools/tariffs';
 
 /**
  * Validation result with user-friendly German error messages
@@ -25,6 +38,8 @@ import {
 export interface FieldValidationResult {
   valid: boolean;
   normalizedValue?: unknown;
+  /** Further fields derived from the value, stored next to it (e.g. the job description behind a group) */
+  relatedValues?: Record<string, unknown>;
   error?: {
     message: string; // User-friendly German message
     field: string; // Field name
@@ -101,6 +116,38 @@ export class FieldValidator {
         return this.validateGroup(value, formState, context, contextKey);
       }
 
+      // For health insurer, resolve a bare 'AOK' with the Bundesland
+      if (field === 'healthInsurer' && formState) {
+        return this.validateHealthInsurer(value, formState, context, contextKey);
+      }
+
+      // Full time depends on the tariff (e.g. 38.5 h TVöD, 39 h AVR, 40 h without tariff)
+      if (field === 'hours' && formState && /voll/i.test(String(value))) {
+        const tarif = formState.data.job_details?.tarif;
+        this.resetContext(sessionId, field);
+        return {
+          valid: true,
+          normalizedValue: isNoTarif(tarif) ? NO_TARIF_FULL_TIME_HOURS : getTariffProvider(tarif).fullTimeHours,
+          retryCount: 0,
+          shouldEscalate: false,
+        };
+      }
+
+      // Worked holidays unknown: estimate them from the shift pattern and the Bundesland's calendar
+      if (field === 'holidayShifts' && formState && /wei(ß|ss) nicht|keine ahnung|unsicher|schätz/i.test(String(value))) {
+        const jobData = formState.data.job_details;
+        const fullTimeHours = isNoTarif(jobData?.tarif) ? NO_TARIF_FULL_TIME_HOURS : getTariffProvider(jobData?.tarif).fullTimeHours;
+        const weeklyHours = Number(jobData?.hours) || fullTimeHours;
+        const shiftHours = Number(jobData?.shiftHours) || fullTimeHours / 5;
+        this.resetContext(sessionId, field);
+        return {
+          valid: true,
+          normalizedValue: estimateWorkedHolidays(jobData?.state, new Date().getFullYear(), weeklyHours, shiftHours),
+          retryCount: 0,
+          shouldEscalate: false,
+        };
+      }
+
       // Parse value with Zod schema
       const result = schema.parse(value);
 
@@ -174,7 +221,7 @@ export class FieldValidator {
         valid: false,
         error: {
           message:
-            'Ich brauche erst deinen Tarifvertrag, um die Entgeltgruppe richtig einzuordnen. Arbeitest du im TVöD, TV-L, oder AVR?',
+            'Ich brauche erst deinen Tarifvertrag, um die Entgeltgruppe richtig einzuordnen. Arbeitest du im TVöD, TV-L, nach AVR oder im TV-DRK?',
           field: 'group',
           received: String(value),
         },
@@ -183,6 +230,34 @@ export class FieldValidator {
       };
     }
 
+    // Tariffs with a single table group (TVAöD-Pflege): nothing to choose
+    const provider = getTariffProvider(tarif);
+    const groups = Object.keys(provider.tables[provider.tables.length - 1].groups);
+    if (groups.length === 1) {
+      this.resetContext(contextKey.split(':')[0], 'group');
+      return {
+        valid: true,
+        normalizedValue: groups[0],
+        retryCount: 0,
+        shouldEscalate: false,
+      };
+    }
+
+    // Job description: Eingruppierung by the Entgeltordnung, the P-group if the tariff has it
+    const eingruppierung = eingruppieren(String(value));
+    if (eingruppierung) {
+      this.resetContext(contextKey.split(':')[0], 'group');
+      return {
+        valid: true,
+        normalizedValue: groups.includes(eingruppierung.group)
+          ? eingruppierung.group
+          : `${provider.groupPrefix}${eingruppierung.level}`,
+        relatedValues: { jobDescription: String(value) },
+        retryCount: 0,
+        shouldEscalate: false,
+      };
+    }
+
     try {
       // Parse with groupSchema to validate format
       const parsed = groupSchema.parse(value);
@@ -199,11 +274,8 @@ export class FieldValidator {
         };
       }
 
-      // Bare number - infer prefix from tarif
-      // TVöD and AVR are typically Pflege (P prefix)
-      // TV-L is typically general civil service (E prefix)
-      const prefix = tarif === 'tvoed' || tarif === 'avr' ? 'P' : 'E';
-      const normalized = `${prefix}${str}`;
+      // Bare number - infer prefix from the tariff (P-Tabelle for Pflege, E for TV-L and AVR-DD)
+      const normalized = `${provider.groupPrefix}${str}`;
 
       this.resetContext(contextKey.split(':')[0], 'group');
       return {
@@ -244,6 +316,61 @@ export class FieldValidator {
     }
   }
 
+  /**
+   * Validate health insurer with Bundesland context
+   * A bare 'AOK' is mapped to the regional AOK of the user's Bundesland
+   */
+  private validateHealthInsurer(
+    value: unknown,
+    formState: FormState,
+    context: ValidationContext,
+    contextKey: string
+  ): FieldValidationResult {
+    const parsed = healthInsurerSchema.parse(value);
+
+    if (parsed !== 'AOK') {
+      this.resetContext(contextKey.split(':')[0], 'healthInsurer');
+      return {
+        valid: true,
+        normalizedValue: parsed,
+        retryCount: 0,
+        shouldEscalate: false,
+      };
+    }
+
+    const regionalAoks = findRegionalAoks(formState.data.job_details?.state);
+    if (regionalAoks.length === 1) {
+      this.resetContext(contextKey.split(':')[0], 'healthInsurer');
+      return {
+        valid: true,
+        normalizedValue: regionalAoks[0].name,
+        retryCount: 0,
+        shouldEscalate: false,
+      };
+    }
+
+    // Unknown Bundesland or more than one AOK (NRW): ask which one
+    context.retryCount++;
+    context.lastUpdated = Date.now();
+    this.contexts.set(contextKey, context);
+
+    const options = regionalAoks.length > 0
+      ? regionalAoks.map((kasse) => kasse.name)
+      : KRANKENKASSEN.filter((kasse) => kasse.bundeslaender).map((kasse) => kasse.name);
+
+    return {
+      valid: false,
+      error: {
+        message: `Welche AOK genau? Zum Beispiel ${options.slice(0, 2).join(' oder ')}.`,
+        field: 'healthInsurer',
+        received: String(value),
+        validOptions: options,
+      },
+      retryCount: context.retryCount,
+      shouldEscalate: context.retryCount >= this.MAX_RETRIES,
+    };
+  }
+
   /**
    * Reset validation context for a session+field
    * @param sessionId Session identifier
@@ -269,7 +396,7 @@ export class FieldValidator {
    */
   getValidOptions(field: string): string[] {
     const optionsMap: Record<string, string[]> = {
-      tarif: ['TVöD', 'TV-L', 'AVR'],
+      tarif: [...Object.values(TARIFF_PROVIDERS).map(provider => provider.label), 'kein Tarif'],
       group: ['P5', 'P6', 'P7', 'P8', 'P9', 'P10', 'E5', 'E6', 'E7', 'E8', 'E9', 'E10'],
       experience: ['Stufe 1', 'Stufe 2', 'Stufe 3', 'Stufe 4', 'Stufe 5', 'Stufe 6'],
       hours: ['Vollzeit (38.5h)', 'Teilzeit (20h)', '30 Stunden'],
@@ -277,12 +404,19 @@ export class FieldValidator {
       taxClass: ['1 (ledig)', '2 (alleinerziehend)', '3 (verheiratet)', '4 (verheiratet)', '5', '6'],
       churchTax: ['Ja', 'Nein'],
       numberOfChildren: ['0', '1', '2', '3', 'keine'],
+      childAllowance: ['halb', 'voll'],
+      healthInsurance: ['gesetzlich', 'privat'],
+      pkvPremium: ['300 €', '450 €', '600 €', '800 €'],
+      partnerIncome: ['keins', '1.500 €', '3.000 €', '4.500 €'],
+      healthInsurer: ['Techniker Krankenkasse', 'AOK', 'Barmer', 'DAK-Gesundheit'],
       // DRK-specific fields
       employeeType: ['Pflegefachkraft', 'Pflegeassistenz'],
       nightShifts: ['0', '3', '5', '7', '10'],
       lateShifts: ['0', '5', '7', '10', '15'],
       weekendDays: ['0', '2', '4', '6', '8'],
       jumpInFrequency: ['0', '1', '2', '3', '5'],
+      shiftHours: ['8 Stunden', '10 Stunden', '12 Stunden'],
+      holidayShifts: ['0', '3', '5', '8', 'weiß nicht'],
       qualifications: ['Wundmanager', 'Praxisanleiter', 'Palliativbegleiter', 'Keine'],
     };
 
@@ -328,11 +462,20 @@ export class FieldValidator {
       | typeof taxClassSchema
       | typeof churchTaxSchema
       | typeof numberOfChildrenSchema
+      | typeof childAllowanceSchema
+      | typeof healthInsuranceSchema
+      | typeof pkvPremiumSchema
+      | typeof partnerIncomeSchema
+      | typeof healthInsurerSchema
+      | typeof actualGrossSchema
+      | typeof qualificationLevelSchema
       | typeof employeeTypeSchema
       | typeof nightShiftsSchema
       | typeof lateShiftsSchema
       | typeof weekendDaysSchema
       | typeof jumpInFrequencySchema
+      | typeof shiftHoursSchema
+      | typeof holidayShiftsSchema
       | typeof qualificationsSchema
     > = {
       tarif: tarifSchema,
@@ -343,12 +486,21 @@ export class FieldValidator {
       taxClass: taxClassSchema,
       churchTax: churchTaxSchema,
       numberOfChildren: numberOfChildrenSchema,
+      childAllowance: childAllowanceSchema,
+      healthInsurance: healthInsuranceSchema,
+      pkvPremium: pkvPremiumSchema,
+      partnerIncome: partnerIncomeSchema,
+      healthInsurer: healthInsurerSchema,
+      actualGross: actualGrossSchema,
+      qualificationLevel: qualificationLevelSchema,
       // DRK-specific schemas
       employeeType: employeeTypeSchema,
       nightShifts: nightShiftsSchema,
       lateShifts: lateShiftsSchema,
       weekendDays: weekendDaysSchema,
       jumpInFrequency: jumpInFrequencySchema,
+      shiftHours: shiftHoursSchema,
+      holidayShifts: holidayShiftsSchema,
       qualifications: qualificationsSchema,
     };
 
@@ -379,12 +531,21 @@ export class FieldValidator {
       taxClass: 'Steuerklasse',
       churchTax: 'Kirchensteuer',
       numberOfChildren: 'Kinderanzahl',
+      childAllowance: 'Kinderfreibetrag',
+      healthInsurance: 'Krankenversicherung',
+      pkvPremium: 'PKV-Beitrag',
+      partnerIncome: 'Einkommen des Partners',
+      healthInsurer: 'Krankenkasse',
+      actualGross: 'Bruttogehalt',
+      qualificationLevel: 'Qualifikation',
       // DRK-specific fields
       employeeType: 'Berufsgruppe',
       nightShifts: 'Nachtdienste pro Monat',
       lateShifts: 'Spätdienste pro Monat',
       weekendDays: 'Wochenend-Tage pro Monat',
       jumpInFrequency: 'Einspringen pro Monat',
+      shiftHours: 'Stunden pro Dienst',
+      holidayShifts: 'Feiertage pro Jahr',
       qualifications: 'Zusatzqualifikationen',
     };
 
@@ -420,10 +581,9 @@ export class FieldValidator {
 
     // Enum fields: use Levenshtein distance
     if (field === 'tarif') {
-      const options = ['tvoed', 'tv-l', 'avr'];
-      let bestMatch = '';
+      let bestMatch: TarifId | undefined;
       let bestDistance = Infinity;
-      for (const option of options) {
+      for (const option of TARIF_IDS) {
         const distance = this.levenshtein(str, option);
         if (distance < bestDistance && distance <= 2) {
           bestDistance = distance;
@@ -431,12 +591,7 @@ export class FieldValidator {
         }
       }
       if (bestMatch) {
-        const displayNames: Record<string, string> = {
-          tvoed: 'TVöD',
-          'tv-l': 'TV-L',
-          avr: 'AVR',
-        };
-        return displayNames[bestMatch];
+        return TARIFF_PROVIDERS[bestMatch].label;
       }
     }
 
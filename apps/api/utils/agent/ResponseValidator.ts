@@ -2,6 +2,7 @@ import { GoogleGenAI } from '@google/genai';
 import { generateWithRetry } from '../../lib/gemini';
 import { VectorstoreService } from '../../lib/vectorstore/VectorstoreService';
 import { getGeminiClient } from '../../lib/gemini';
+import { NO_TARIF, TARIF_IDS } from './tools/tariffs';
 
 export interface ValidationResult {
   valid: boolean;
@@ -195,8 +196,8 @@ Respond with JSON only:
     const rulesMap: Record<string, ValidationRules> = {
       tarif: {
         type: 'string',
-        enum: ['tvoed', 'tvöd', 'tv-l', 'avr'],
-        description: 'Tarifvertrag (z.B. TVöD, TV-L, AVR)'
+        enum: [...TARIF_IDS, NO_TARIF, 'tvöd', 'avr'],
+        description: 'Tarifvertrag (z.B. TVöD, TV-L, AVR Caritas, AVR-DD, TV-DRK, TVAöD-Pflege oder kein Tarif)'
       },
       group: {
         type: 'string',
@@ -204,7 +205,7 @@ Respond with JSON only:
       },
       experience: {
         type: 'string',
-        description: 'Berufserfahrung als Stufe (1-6) oder Jahre'
+        description: 'Berufserfahrung als Stufe (1-6), Jahre oder Beschäftigungsbeginn'
       },
       hours: {
         type: 'number',
@@ -1,7 +1,8 @@
 import type { ZodError } from 'zod';
-import { tariffLookupSchema, taxCalculateSchema, TOOL_NAMES } from './toolSchemas';
-import { executeTariffLookup, executeTaxCalculate } from './tools';
+import { netToGrossSchema, tariffLookupSchema, taxCalculateSchema, TOOL_NAMES } from './toolSchemas';
+import { executeNetToGross, executeTariffLookup, executeTaxCalculate } from './tools';
 import type { ToolError, ToolResult } from '../../types/tools';
+import { TARIF_IDS } from './tools/tariffs';
 
 const MAX_RETRIES = 3;
 
@@ -96,13 +97,30 @@ export class ToolExecutor {
         break;
       }
 
+      case TOOL_NAMES.NET_TO_GROSS: {
+        const parsed = netToGrossSchema.safeParse(args);
+        if (!parsed.success) {
+          validationError = this.zodErrorToToolError(parsed.error);
+          context.retryCount++;
+          context.errors.push(validationError);
+          return {
+            success: false,
+            error: validationError,
+            shouldRetry: context.retryCount < MAX_RETRIES,
+            retryCount: context.retryCount,
+          };
+        }
+        result = executeNetToGross(parsed.data);
+        break;
+      }
+
       default:
         return {
           success: false,
           error: {
             field: 'toolName',
             error: `Unbekanntes Werkzeug: ${toolName}`,
-            suggestion: `Verwende ${TOOL_NAMES.TARIFF_LOOKUP} oder ${TOOL_NAMES.TAX_CALCULATE}`,
+            suggestion: `Verwende ${TOOL_NAMES.TARIFF_LOOKUP}, ${TOOL_NAMES.TAX_CALCULATE} oder ${TOOL_NAMES.NET_TO_GROSS}`,
           },
           shouldRetry: false,
           retryCount: context.retryCount,
@@ -154,7 +172,7 @@ export class ToolExecutor {
    */
   private getSuggestionForField(field: string, _code: string): string {
     const suggestions: Record<string, string> = {
-      tarif: 'Verwende tvoed, tv-l, oder avr',
+      tarif: `Verwende ${TARIF_IDS.join(', ')}`,
       group: 'Verwende P5-P15 fuer Pflege oder E5-E15 fuer allgemein',
       stufe: 'Stufe muss zwischen 1 und 6 liegen',
       taxClass: 'Steuerklasse muss zwischen 1 und 6 liegen',
@@ -163,6 +181,7 @@ export class ToolExecutor {
       state: 'Verwende west, east, oder sachsen',
       hours: 'Stunden pro Woche (z.B. 38.5 fuer Vollzeit)',
       yearlySalary: 'Jahresgehalt in Euro (positiver Wert)',
+      targetNetto: 'Gewuenschtes monatliches Netto in Euro (positiver Wert)',
     };
 
     return suggestions[field] || `Ueberpruefe den Wert fuer ${field}`;
@@ -1,5 +1,6 @@
 import { zodToGeminiTool, mergeTools } from './schemaConverter';
-import { tariffLookupSchema, taxCalculateSchema, TOOL_NAMES } from './toolSchemas';
+import { netToGrossSchema, tariffLookupSchema, taxCalculateSchema, TOOL_NAMES } from './toolSchemas';
+import { formatEingruppierungRules } from './tools/eingruppierung';
 
 // Generate Gemini tool declarations from Zod schemas
 const TARIFF_TOOL = zodToGeminiTool(
@@ -14,8 +15,14 @@ const TAX_TOOL = zodToGeminiTool(
   taxCalculateSchema
 );
 
+const NET_TO_GROSS_TOOL = zodToGeminiTool(
+  TOOL_NAMES.NET_TO_GROSS,
+  'Rueckwaertsrechnung: Berechnet das noetige Monatsbrutto fuer ein gewuenschtes Netto. Mit tarif liefert es passende Entgeltgruppen/Stufen, mit tarif, group und stufe die noetigen Wochenstunden.',
+  netToGrossSchema
+);
+
 // Merged tools for Gemini API
-export const SALARY_TOOLS = mergeTools(TARIFF_TOOL, TAX_TOOL);
+export const SALARY_TOOLS = mergeTools(TARIFF_TOOL, TAX_TOOL, NET_TO_GROSS_TOOL);
 
 // Keep legacy SALARY_TOOL export for backwards compatibility during migration
 export const SALARY_TOOL = SALARY_TOOLS;
@@ -28,6 +35,7 @@ Du bist ein freundlicher, geduldiger und hilfsbereiter Assistent fuer den TVoD P
 2. Zeige dem Nutzer das Bruttogehalt und erklaere kurz: "Jetzt berechnen wir dein Nettogehalt"
 3. Sammle dann die Steuerdaten (Steuerklasse, Kirchensteuer, Kinder)
 4. Nutze DANN 'tax_calculate' mit dem Jahresbrutto fuer die Netto-Berechnung
+5. Fragt der Nutzer umgekehrt, wie viel Brutto, welche Entgeltgruppe/Stufe oder wie viele Stunden er fuer ein Wunsch-Netto braucht, nutze 'net_to_gross'
 
 **GESPRAECHSSTIL:**
 - Du fuehrst ein **ganz normales Gespraech**. Frage nicht nach Tabellenwerten wie "Entgeltgruppe P7" oder "Stufe 3".
@@ -39,12 +47,9 @@ Du bist ein freundlicher, geduldiger und hilfsbereiter Assistent fuer den TVoD P
 
 1. **Job & Qualifikation:**
    - Frage: "Was hast du gelernt oder als was arbeitest du aktuell?"
-   - Mapping:
-     - Ungelernte/Helfer ohne Ausbildung -> P5
-     - Pflegehelfer (1 Jahr Ausbildung) -> P6
-     - Pflegefachkraft (3 Jahre Ausbildung) -> P7/P8
-     - Fachweiterbildung (z.B. Intensiv, OP) -> P9
-     - Leitungspositionen -> P10-P15
+   - Frage bei Leitungsfunktionen nach der Zahl der unterstellten Beschaeftigten, bei Fachkraeften nach Station/Bereich und Fachweiterbildung.
+   - Mapping (Entgeltordnung TVoeD Anlage 1 Teil B XI, die erste passende Regel gilt):
+${formatEingruppierungRules()}
 
 2. **Erfahrung:**
    - Frage: "Wie lange arbeitest du schon in diesem Beruf?"
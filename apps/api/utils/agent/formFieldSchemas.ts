@@ -1,4 +1,15 @@
 import { z } from 'zod';
+import { KRANKENKASSEN, findKrankenkasse } from '../tax/Krankenkassen';
+import { eingruppieren } from './tools/eingruppierung';
+import { QUALIFICATION_LEVELS, formatActualGross, parseActualGross } from './tools/pflegemindestlohn';
+import { formatExperience, parseExperience } from './tools/stufenlaufzeit';
+import { NO_TARIF, TARIF_IDS, TARIFF_PROVIDERS, detectTarif, isNoTarif } from './tools/tariffs';
+
+/** Canonical gross forms of formatActualGross */
+const ACTUAL_GROSS_PATTERN = /^\d+(,\d+)? € (im Monat|pro Stunde)$/;
+
+/** Canonical experience forms of formatExperience */
+const EXPERIENCE_PATTERN = /^([1-6]|Stufe [1-6] seit \d{4}-\d{2}-\d{2}|\d+(,\d+)? Jahre?|seit \d{4}-\d{2}-\d{2}(, davor \d+(,\d+)? Jahre?)?)$/;
 
 /**
  * German number words for pre-processing user input
@@ -27,56 +38,97 @@ export const GERMAN_NUMBER_WORDS: Record<string, number> = {
 
 /**
  * Tariff system schema
- * Accepts variations: TVöD, TVÖD, tvöd, öffentlicher dienst, etc.
+ * Accepts variations: TVöD, TVÖD, tvöd, öffentlicher dienst, Caritas, Diakonie, DRK, etc.
+ * (the patterns of the tariff providers) and 'kein Tarif', 'nicht tarifgebunden' (= 'kein-tarif')
  */
 export const tarifSchema = z.preprocess(
+  (val) => (isNoTarif(String(val)) ? NO_TARIF : detectTarif(String(val)) ?? val),
+  z
+    .enum([...TARIF_IDS, NO_TARIF], {
+      errorMap: (issue, ctx) => {
+        if (issue.code === z.ZodIssueCode.invalid_enum_value) {
+          return {
+            message: `Hmm, '${ctx.data}' kenne ich nicht als Tarifvertrag. Arbeitest du im öffentlichen Dienst (TVöD), bei den Ländern (TV-L), bei Caritas oder Diakonie (AVR), beim DRK, bist du in der Ausbildung (TVAöD) oder hat dein Arbeitgeber keinen Tarif?`,
+          };
+        }
+        return { message: ctx.defaultError };
+      },
+    })
+    .describe(`Tarifvertrag: ${Object.values(TARIFF_PROVIDERS).map(provider => `${provider.label} (${provider.description})`).join(', ')}, kein Tarif (${NO_TARIF})`)
+);
+
+/**
+ * Actual gross schema (only without tariff): monthly salary or hourly wage as agreed in the contract
+ * Accepts: '3.200 €', '2800 brutto im Monat', '17,50 pro Stunde', '16 €/h' (amounts below 100 € are hourly)
+ */
+export const actualGrossSchema = z.preprocess(
+  (val) => {
+    const gross = parseActualGross(val as string | number);
+    return gross ? formatActualGross(gross) : val;
+  },
+  z
+    .string()
+    .regex(ACTUAL_GROSS_PATTERN, {
+      message: "Den Betrag '{input}' verstehe ich nicht. Wie viel verdienst du brutto – im Monat oder pro Stunde? (z.B. '2.900 € im Monat' oder '17,50 € pro Stunde')",
+    })
+    .refine(val => {
+      const gross = parseActualGross(val);
+      if (!gross) return true;
+      return gross.per === 'hour' ? gross.amount >= 5 && gross.amount <= 100 : gross.amount >= 300 && gross.amount <= 30000;
+    }, { message: 'Dieser Betrag klingt ungewöhnlich. Bitte prüfe, ob du dein Brutto im Monat oder pro Stunde angegeben hast.' })
+    .describe('Tatsächliches Brutto ohne Tarif: Monatsgehalt oder Stundenlohn in Euro')
+);
+
+/**
+ * Qualification level schema (only without tariff), determines the Pflegemindestlohn
+ * Accepts: 'Fachkraft', 'examiniert', 'Pflegehelfer mit Ausbildung', 'Hilfskraft', 'ungelernt'
+ */
+export const qualificationLevelSchema = z.preprocess(
   (val) => {
     const str = String(val).toLowerCase().trim();
-    // TVöD variations
-    if (
-      str.includes('tvöd') ||
-      str.includes('tvoed') ||
-      str.includes('öffentlich') ||
-      str.includes('oeffentlich')
-    ) {
-      return 'tvoed';
-    }
-    // TV-L variations
-    if (str.includes('tv-l') || str.includes('tvl') || str.includes('länder') || str.includes('laender')) {
-      return 'tv-l';
+    if (str.includes('fachkraft') || str.includes('examiniert') || str.includes('pflegefach')) {
+      return 'fachkraft';
     }
-    // AVR variations
+    // Helpers with at least one year of training (Pflegeassistenz, Pflegehelfer mit Ausbildung)
     if (
-      str.includes('avr') ||
-      str.includes('kirchlich') ||
-      str.includes('diakonie') ||
-      str.includes('caritas')
+      str.includes('qualifiziert') ||
+      str.includes('assisten') ||
+      str.includes('einjährig') ||
+      (str.includes('mit') && str.includes('ausbildung'))
     ) {
-      return 'avr';
+      return 'qualifizierte-hilfskraft';
+    }
+    if (str.includes('hilfskraft') || str.includes('helfer') || str.includes('ungelernt') || str.includes('ohne ausbildung')) {
+      return 'hilfskraft';
     }
     return val;
   },
   z
-    .enum(['tvoed', 'tv-l', 'avr'], {
+    .enum(QUALIFICATION_LEVELS, {
       errorMap: (issue, ctx) => {
         if (issue.code === z.ZodIssueCode.invalid_enum_value) {
           return {
-            message: `Hmm, '${ctx.data}' kenne ich nicht als Tarifvertrag. Arbeitest du im öffentlichen Dienst (TVöD), bei den Ländern (TV-L), oder kirchlich (AVR)?`,
+            message: 'Bist du Pflegefachkraft (examiniert), Pflegehilfskraft mit mindestens einjähriger Ausbildung oder Pflegehilfskraft ohne Ausbildung?',
           };
         }
         return { message: ctx.defaultError };
       },
     })
-    .describe('Tarifvertrag: TVöD (öffentlicher Dienst), TV-L (Länder), oder AVR (kirchlich)')
+    .describe('Qualifikation für den Pflegemindestlohn: hilfskraft, qualifizierte-hilfskraft oder fachkraft')
 );
 
 /**
  * Entgeltgruppe schema
  * Validates format (P5-P15 or E5-E15)
+ * Job descriptions ('Pflegefachkraft auf der Intensivstation') are classified by the Eingruppierung rules
  * NOTE: P vs E prefix logic is handled in FieldValidator.validate() with formState context
  */
 export const groupSchema = z.preprocess(
   (val) => {
+    const eingruppierung = eingruppieren(String(val));
+    if (eingruppierung) {
+      return String(eingruppierung.level);
+    }
     const str = String(val).toUpperCase().trim();
     // Extract number from various formats
     const match = str.match(/([PE]?)(\d+)/);
@@ -98,58 +150,34 @@ export const groupSchema = z.preprocess(
     .string()
     .regex(/^([PE])?([5-9]|1[0-5])$/, {
       message:
-        "Die Entgeltgruppe '{input}' kenne ich nicht. Pflege ist meist P5-P15, andere Bereiche E5-E15.",
+        "Die Entgeltgruppe '{input}' kenne ich nicht. Pflege ist meist P5-P15, andere Bereiche E5-E15 – oder beschreib mir deine Tätigkeit (z.B. 'Pflegefachkraft auf der Intensivstation').",
     })
     .describe('Entgeltgruppe (z.B. P5-P15 für Pflege oder E5-E15 für andere Bereiche)')
 );
 
 /**
- * Experience level schema (Stufe 1-6 or years)
- * Accepts: '1', 'Stufe 3', '5 Jahre', 'fuenf Jahre', etc.
+ * Experience schema (Stufe 1-6, years of experience or start of employment)
+ * Accepts: '1', 'Stufe 3', '5 Jahre', 'fuenf Jahre', 'seit 01.04.2019', 'seit 2019, davor 2 Jahre', etc.
+ * Normalized to the canonical form of formatExperience; the Stufe itself is derived
+ * from the Stufenlaufzeiten of the tariff at calculation time (resolveStufe).
  */
 export const experienceSchema = z.preprocess(
   (val) => {
-    const str = String(val).toLowerCase().trim();
-    // Check German number words first
-    const words = str.split(/\s+/);
-    for (const word of words) {
-      if (word in GERMAN_NUMBER_WORDS) {
-        return String(GERMAN_NUMBER_WORDS[word]);
-      }
-    }
-    // Extract numeric value
-    const match = str.match(/(\d+)/);
-    if (match) {
-      const num = parseInt(match[1], 10);
-      // Map years to Stufe (approximate)
-      // Also treat num > 6 as years — Stufe can only be 1-6, so anything higher must be years
-      if (str.includes('jahr') || num > 6) {
-        if (num <= 1) return '1';
-        if (num <= 3) return '2';
-        if (num <= 6) return '3';
-        if (num <= 10) return '4';
-        if (num <= 15) return '5';
-        return '6';
-      }
-      // Direct Stufe mapping
-      if (num >= 1 && num <= 6) {
-        return String(num);
-      }
-    }
-    return val;
+    // Replace German number words with digits ("fünf Jahre" -> "5 Jahre")
+    const str = String(val)
+      .toLowerCase()
+      .trim()
+      .split(/\s+/)
+      .map(word => (word in GERMAN_NUMBER_WORDS ? String(GERMAN_NUMBER_WORDS[word]) : word))
+      .join(' ');
+    return formatExperience(parseExperience(str)) ?? val;
   },
   z
-    .enum(['1', '2', '3', '4', '5', '6'], {
-      errorMap: (issue, ctx) => {
-        if (issue.code === z.ZodIssueCode.invalid_enum_value) {
-          return {
-            message: `Die Erfahrungsstufe '${ctx.data}' verstehe ich nicht. Wie lange bist du schon dabei? (z.B. '3 Jahre' oder 'Stufe 2')`,
-          };
-        }
-        return { message: ctx.defaultError };
-      },
+    .string()
+    .regex(EXPERIENCE_PATTERN, {
+      message: 'Die Erfahrungsstufe verstehe ich nicht. Wie lange bist du schon dabei? (z.B. \'3 Jahre\', \'seit 04/2019\' oder \'Stufe 2\')',
     })
-    .describe('Erfahrungsstufe 1-6 basierend auf Berufsjahren')
+    .describe('Erfahrungsstufe 1-6, Berufsjahre oder Beschäftigungsbeginn')
 );
 
 /**
@@ -369,6 +397,182 @@ export const numberOfChildrenSchema = z.preprocess(
     .describe('Anzahl der Kinder (0-10)')
 );
 
+/**
+ * Child allowance schema (Kinderfreibetrag per child: 'halb' = 0.5, 'voll' = 1.0)
+ * Accepts: '0,5', 'halb', 'geteilt', 'anderer Elternteil' / '1', 'voll', 'ganz', 'verheiratet', etc.
+ */
+export const childAllowanceSchema = z.preprocess(
+  (val) => {
+    const str = String(val).toLowerCase().trim();
+    if (
+      str.includes('0,5') ||
+      str.includes('0.5') ||
+      str.includes('halb') ||
+      str.includes('hälfte') ||
+      str.includes('geteilt') ||
+      str.includes('anderer elternteil') ||
+      str.includes('anderen elternteil')
+    ) {
+      return 'halb';
+    }
+    if (
+      str === '1' ||
+      str.includes('1,0') ||
+      str.includes('1.0') ||
+      str.includes('voll') ||
+      str.includes('ganz') ||
+      str.includes('verheiratet') ||
+      str.includes('übertragen')
+    ) {
+      return 'voll';
+    }
+    return val;
+  },
+  z
+    .enum(['halb', 'voll'], {
+      errorMap: (issue, ctx) => {
+        if (issue.code === z.ZodIssueCode.invalid_enum_value) {
+          return {
+            message: `'${ctx.data}' verstehe ich nicht. Steht dir der Kinderfreibetrag voll zu (1,0 pro Kind, z.B. verheiratet) oder teilst du ihn mit dem anderen Elternteil (0,5 pro Kind)?`,
+          };
+        }
+        return { message: ctx.defaultError };
+      },
+    })
+    .describe('Kinderfreibetrag pro Kind: halb (0,5, geteilt mit dem anderen Elternteil) oder voll (1,0)')
+);
+
+/**
+ * Health insurance type schema (gesetzlich vs. privat)
+ * Accepts: 'GKV', 'PKV', 'gesetzlich', 'privat', names of common Krankenkassen, etc.
+ */
+export const healthInsuranceSchema = z.preprocess(
+  (val) => {
+    const str = String(val).toLowerCase().trim();
+    if (str.includes('pkv') || str.includes('privat')) {
+      return 'privat';
+    }
+    if (
+      str.includes('gkv') ||
+      str.includes('gesetzlich') ||
+      str.includes('krankenkasse') ||
+      ['aok', 'tk', 'barmer', 'dak', 'ikk', 'bkk', 'hkk'].some((kasse) => str.includes(kasse))
+    ) {
+      return 'gesetzlich';
+    }
+    return val;
+  },
+  z
+    .enum(['gesetzlich', 'privat'], {
+      errorMap: (issue, ctx) => {
+        if (issue.code === z.ZodIssueCode.invalid_enum_value) {
+          return {
+            message: `'${ctx.data}' verstehe ich nicht. Bist du gesetzlich (z.B. AOK, TK) oder privat krankenversichert?`,
+          };
+        }
+        return { message: ctx.defaultError };
+      },
+    })
+    .describe('Krankenversicherung: gesetzlich (GKV) oder privat (PKV)')
+);
+
+/**
+ * Monthly PKV + PPV premium schema (in Euro)
+ * Accepts: 450, '450 €', '450,50 Euro', etc.
+ */
+export const pkvPremiumSchema = z.preprocess(
+  (val) => {
+    const str = String(val).toLowerCase().replace(/€|euro/g, '').trim();
+    // Handle German number format (1.234,56)
+    const normalized = str.replace(/\.(?=\d{3}(\D|$))/g, '').replace(',', '.');
+    const num = parseFloat(normalized);
+    if (!isNaN(num)) {
+      return num;
+    }
+    return val;
+  },
+  z
+    .number({
+      errorMap: () => ({
+        message: "Den Beitrag '{input}' verstehe ich nicht. Wie viel zahlst du monatlich für Kranken- und Pflegeversicherung? (z.B. '550 €')",
+      }),
+    })
+    .min(50, { message: 'Weniger als 50 € im Monat für die PKV? Das klingt ungewöhnlich niedrig. Bitte prüfe deine Angabe.' })
+    .max(2500, { message: 'Mehr als 2.500 € im Monat für die PKV? Das klingt ungewöhnlich hoch. Bitte prüfe deine Angabe.' })
+    .describe('Monatlicher Beitrag zur privaten Kranken- und Pflegeversicherung in Euro')
+);
+
+/**
+ * Partner income schema (monthly gross of the spouse in Euro, only for married users)
+ * Accepts: 3200, '3.200 €', '2500 brutto', 'keins' (= 0)
+ */
+export const partnerIncomeSchema = z.preprocess(
+  (val) => {
+    const str = String(val).toLowerCase().replace(/€|euro|brutto/g, '').trim();
+    if (str === 'kein' || str === 'keins' || str === 'keines' || str.includes('kein einkommen')) {
+      return 0;
+    }
+    // Handle German number format (1.234,56)
+    const normalized = str.replace(/\.(?=\d{3}(\D|$))/g, '').replace(',', '.');
+    const num = parseFloat(normalized);
+    if (!isNaN(num)) {
+      return num;
+    }
+    return val;
+  },
+  z
+    .number({
+      errorMap: () => ({
+        message: "Das Einkommen '{input}' verstehe ich nicht. Wie viel verdient dein Partner bzw. deine Partnerin monatlich brutto? (z.B. '3.000 €' oder 'keins')",
+      }),
+    })
+    .min(0, { message: 'Das Einkommen kann nicht negativ sein. Bitte prüfe deine Angabe.' })
+    .max(30000, { message: 'Mehr als 30.000 € brutto im Monat? Bitte gib das Monatsbrutto an, nicht das Jahresbrutto.' })
+    .describe('Monatliches Bruttoeinkommen des Ehepartners in Euro (0 = kein Einkommen)')
+);
+
+/**
+ * Statutory health insurer schema (Krankenkasse, optional)
+ * Accepts names and abbreviations from the catalog with typos ('Technicker', 'Barmer GEK', 'DAk').
+ * A bare 'AOK' is kept as 'AOK' - FieldValidator resolves the regional AOK from the Bundesland.
+ * Kassen not in the catalog are accepted as typed (calculation uses the average Zusatzbeitrag).
+ */
+export const healthInsurerSchema = z.preprocess(
+  (val) => {
+    const str = String(val)
+      .toLowerCase()
+      .replace(/\b(die|meine|bei der|krankenkasse)\b/g, '')
+      .trim();
+    if (str === 'aok') {
+      return 'AOK';
+    }
+    const exact = findKrankenkasse(str);
+    if (exact) {
+      return exact.name;
+    }
+    // Fuzzy match against names and aliases
+    let bestMatch = '';
+    let bestDistance = Infinity;
+    for (const kasse of KRANKENKASSEN) {
+      for (const candidate of [kasse.name.toLowerCase(), ...kasse.aliases]) {
+        const distance = levenshtein(str, candidate);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          bestMatch = kasse.name;
+        }
+      }
+    }
+    if (bestDistance <= 2 && str.length > 2) {
+      return bestMatch;
+    }
+    return String(val).trim();
+  },
+  z
+    .string()
+    .min(2, { message: "Die Krankenkasse '{input}' kenne ich nicht. Bei welcher Kasse bist du? (z.B. TK, AOK, Barmer)" })
+    .describe('Gesetzliche Krankenkasse (z.B. TK, AOK Bayern, Barmer, DAK)')
+);
+
 // ============================================================================
 // DRK-specific field schemas (for employer-specific bonus calculations)
 // ============================================================================
@@ -521,6 +725,58 @@ export const jumpInFrequencySchema = z.preprocess(
     .describe('Durchschnittliches Einspringen pro Monat (0-10)')
 );
 
+/**
+ * Shift length schema (hours per shift)
+ * Accepts: 12, '12 Stunden', '12-Stunden-Dienste', '8,5 h'
+ */
+export const shiftHoursSchema = z.preprocess(
+  (val) => {
+    const str = String(val).toLowerCase().trim();
+    if (str in GERMAN_NUMBER_WORDS) {
+      return GERMAN_NUMBER_WORDS[str];
+    }
+    const num = parseFloat(str.replace(',', '.'));
+    if (!isNaN(num)) {
+      return num;
+    }
+    return val;
+  },
+  z
+    .number()
+    .min(3, { message: 'Weniger als 3 Stunden pro Dienst? Bitte prüfe deine Angabe.' })
+    .max(24, {
+      message: 'Ein Dienst kann nicht länger als 24 Stunden sein. Bitte prüfe deine Angabe.',
+    })
+    .describe('Länge eines Dienstes in Stunden (z.B. 8 oder 12)')
+);
+
+/**
+ * Holidays worked per year schema ("Wie viele Feiertage arbeitest du im Jahr ungefähr?")
+ * Typical range: 0-16 (gesetzliche Feiertage plus Heiligabend/Silvester).
+ * "weiß nicht" is estimated from the shift pattern by FieldValidator.
+ */
+export const holidayShiftsSchema = z.preprocess(
+  (val) => {
+    const str = String(val).toLowerCase().trim();
+    if (str in GERMAN_NUMBER_WORDS) {
+      return GERMAN_NUMBER_WORDS[str];
+    }
+    const num = parseInt(str, 10);
+    if (!isNaN(num)) {
+      return num;
+    }
+    return val;
+  },
+  z
+    .number()
+    .int()
+    .min(0, { message: 'Die Anzahl der Feiertage kann nicht negativ sein.' })
+    .max(16, {
+      message: 'Mehr als 16 Feiertage im Jahr gibt es in keinem Bundesland. Bitte prüfe deine Angabe.',
+    })
+    .describe('Anzahl der Feiertage, an denen du im Jahr ungefähr arbeitest (0-16)')
+);
+
 /**
  * Qualifications schema (multi-select)
  * Returns array of qualification keys
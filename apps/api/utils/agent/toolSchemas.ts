@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { TARIF_IDS, TARIFF_PROVIDERS } from './tools/tariffs';
 
 /**
  * Zod schemas for function calling tools
@@ -9,9 +10,9 @@ import { z } from 'zod';
 // Tariff Lookup Tool Schema
 export const tariffLookupSchema = z.object({
   tarif: z
-    .enum(['tvoed', 'tv-l', 'avr'])
+    .enum(TARIF_IDS)
     .describe(
-      'Tarifvertrag: TVöD (öffentlicher Dienst), TV-L (Länder), oder AVR (kirchlich)'
+      `Tarifvertrag: ${Object.values(TARIFF_PROVIDERS).map(provider => `${provider.id} = ${provider.label} (${provider.description})`).join(', ')}`
     ),
   group: z
     .string()
@@ -20,7 +21,7 @@ export const tariffLookupSchema = z.object({
     ),
   stufe: z
     .enum(['1', '2', '3', '4', '5', '6'])
-    .describe('Erfahrungsstufe 1-6 basierend auf Berufsjahren'),
+    .describe('Erfahrungsstufe 1-6 basierend auf Berufsjahren (TVAöD-Pflege: Ausbildungsjahr 1-3)'),
   hours: z
     .number()
     .min(1)
@@ -31,6 +32,11 @@ export const tariffLookupSchema = z.object({
     .string()
     .optional()
     .describe('Bundesland für regionale Tarifunterschiede'),
+  validOn: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe('Stichtag der Tabelle im Format JJJJ-MM-TT (Standard: heute), z.B. für Werte nach einer Tariferhöhung'),
 });
 
 // Tax Calculation Tool Schema
@@ -66,6 +72,10 @@ export const taxCalculateSchema = z.object({
     .max(10)
     .default(0)
     .describe('Anzahl der Kinder für Kinderfreibeträge'),
+  childAllowanceFactor: z
+    .union([z.literal(0.5), z.literal(1)])
+    .optional()
+    .describe('Kinderfreibetrag pro Kind: 0.5 (geteilt mit dem anderen Elternteil) oder 1 (voll, z.B. verheiratet). Standard: 0.5 in Steuerklasse 1, sonst 1'),
   state: z
     .enum(['west', 'east', 'sachsen'])
     .default('west')
@@ -81,14 +91,31 @@ export const taxCalculateSchema = z.object({
     .number()
     .min(0)
     .max(5)
-    .default(1.6)
-    .describe('Zusatzbeitrag Krankenversicherung in Prozent (Standard ca. 1.6%)'),
+    .optional()
+    .describe('Zusatzbeitrag Krankenversicherung in Prozent (Standard: durchschnittlicher Zusatzbeitrag des Jahres)'),
+});
+
+// Net-to-Gross Tool Schema (reverse calculation, same tax fields as tax_calculate)
+export const netToGrossSchema = taxCalculateSchema.omit({ yearlySalary: true }).extend({
+  targetNetto: z.number().positive().describe('Gewünschtes monatliches Netto in Euro'),
+  tarif: tariffLookupSchema.shape.tarif
+    .optional()
+    .describe('Tarifvertrag, um passende Entgeltgruppen/Stufen für das nötige Brutto zu finden'),
+  group: z
+    .string()
+    .optional()
+    .describe('Aktuelle Entgeltgruppe (mit stufe), um die nötigen Wochenstunden zu berechnen'),
+  stufe: tariffLookupSchema.shape.stufe
+    .optional()
+    .describe('Aktuelle Erfahrungsstufe (mit group), um die nötigen Wochenstunden zu berechnen'),
+  hours: tariffLookupSchema.shape.hours,
 });
 
 // Tool names as constants
 export const TOOL_NAMES = {
   TARIFF_LOOKUP: 'tariff_lookup',
   TAX_CALCULATE: 'tax_calculate',
+  NET_TO_GROSS: 'net_to_gross',
 } as const;
 
 // Tool descriptions in German for Gemini function declarations
@@ -97,4 +124,6 @@ export const TOOL_DESCRIPTIONS = {
     'Schlägt das Bruttogehalt basierend auf Tarifvertrag, Entgeltgruppe und Erfahrungsstufe nach',
   [TOOL_NAMES.TAX_CALCULATE]:
     'Berechnet das Nettogehalt aus dem Bruttogehalt unter Berücksichtigung von Steuern und Sozialabgaben',
+  [TOOL_NAMES.NET_TO_GROSS]:
+    'Berechnet das nötige Bruttogehalt (und passende Entgeltgruppen, Stufen oder Wochenstunden) für ein gewünschtes Netto',
 } as const;
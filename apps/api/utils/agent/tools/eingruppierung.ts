@@ -0,0 +1,271 @@
+/**
+ * Eingruppierung in der Pflege nach der Entgeltordnung (TVöD Anlage 1 Teil B Abschnitt XI):
+ * Qualifikation, Funktion, Leitungsspanne und Fachweiterbildung -> Entgeltgruppe P 5 ... P 15.
+ * Tariffs with another group prefix use the same level (see FieldValidator.validateGroup).
+ */
+
+export type PflegeQualification = 'ohne-ausbildung' | 'pflegehelfer' | 'pflegefachkraft';
+
+export type PflegeFunction =
+  | 'praxisanleitung'
+  | 'stellv-stationsleitung'
+  | 'stationsleitung'
+  | 'bereichsleitung'
+  | 'pflegedienstleitung';
+
+/**
+ * What the Eingruppierung depends on, see parseEingruppierungInput
+ */
+export interface EingruppierungInput {
+  qualification?: PflegeQualification;
+  function?: PflegeFunction;
+  /** Number of Beschäftigte unterstellt (Leitungsspanne) */
+  leadershipSpan?: number;
+  /** Completed Fachweiterbildung (e.g. Intensiv und Anästhesie, OP, Psychiatrie) */
+  fachweiterbildung?: boolean;
+  /** Area with schwierigen Aufgaben (e.g. "Intensivpflege"), undefined for the general ward */
+  schwierigeAufgaben?: string;
+}
+
+/**
+ * Rule of the Entgeltordnung that determined the group
+ */
+export interface EingruppierungRule {
+  id: string;
+  /** Number of the Entgeltgruppe (P 8 -> 8) */
+  level: number;
+  /** Who is in the group, e.g. "Pflegefachkraft mit schwierigen Aufgaben" */
+  description: string;
+  /** Why the group and not the one below, e.g. "Schwierige Aufgaben ... heben von P 7 in P 8" */
+  reason: string;
+  matches: (input: EingruppierungInput) => boolean;
+}
+
+/**
+ * Candidate group with the rule that matched
+ */
+export interface EingruppierungResult {
+  group: string;
+  level: number;
+  rule: Pick<EingruppierungRule, 'id' | 'description' | 'reason'>;
+  input: EingruppierungInput;
+}
+
+const SOURCE = 'TVöD Anlage 1 Teil B Abschnitt XI';
+
+/** Areas with schwierigen Aufgaben (Protokollerklärung), matched in the job description */
+const SCHWIERIGE_AUFGABEN: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /intensiv|\bits\b|imc/, label: 'Intensivpflege' },
+  { pattern: /dialyse|nephrolog/, label: 'Dialyse' },
+  { pattern: /\bop\b|operationsdienst|operationssaal|anästhesie|anaesthesie/, label: 'OP/Anästhesie' },
+  { pattern: /onkolog|palliativ/, label: 'Onkologie/Palliativpflege' },
+  { pattern: /psychiatr/, label: 'Psychiatrie' },
+  { pattern: /notaufnahme|\bzna\b|notfall/, label: 'Notaufnahme' },
+  { pattern: /endoskop/, label: 'Endoskopie' },
+];
+
+const isFachkraft = (input: EingruppierungInput) =>
+  // Leitungsfunktionen and Praxisanleitung require the Pflegeausbildung
+  input.qualification === 'pflegefachkraft' || (input.qualification === undefined && input.function !== undefined);
+
+const span = (input: EingruppierungInput) => input.leadershipSpan ?? 0;
+
+/**
+ * Rules from the highest group down, the first match wins
+ */
+const RULES: EingruppierungRule[] = [
+  {
+    id: 'pdl-250',
+    level: 15,
+    description: 'Pflegedienstleitung mit mindestens 250 unterstellten Beschäftigten',
+    reason: 'Ab 250 unterstellten Beschäftigten ist die Pflegedienstleitung in P 15 statt P 14 eingruppiert.',
+    matches: input => input.function === 'pflegedienstleitung' && span(input) >= 250,
+  },
+  {
+    id: 'pdl',
+    level: 14,
+    description: 'Pflegedienstleitung',
+    reason: 'Die Gesamtverantwortung für den Pflegedienst hebt über die Bereichsleitung (bis P 14) hinaus; P 15 erst ab 250 unterstellten Beschäftigten.',
+    matches: input => input.function === 'pflegedienstleitung',
+  },
+  {
+    id: 'bereichsleitung-96',
+    level: 14,
+    description: 'Bereichsleitung mit mindestens 96 unterstellten Beschäftigten',
+    reason: 'Ab 96 unterstellten Beschäftigten ist die Bereichsleitung in P 14 statt P 13 eingruppiert.',
+    matches: input => input.function === 'bereichsleitung' && span(input) >= 96,
+  },
+  {
+    id: 'bereichsleitung-48',
+    level: 13,
+    description: 'Bereichsleitung mit mindestens 48 unterstellten Beschäftigten',
+    reason: 'Ab 48 unterstellten Beschäftigten ist die Bereichsleitung in P 13 statt P 12 eingruppiert.',
+    matches: input => input.function === 'bereichsleitung' && span(input) >= 48,
+  },
+  {
+    id: 'bereichsleitung',
+    level: 12,
+    description: 'Bereichsleitung (mehrere Stationen)',
+    reason: 'Die Leitung mehrerer Stationen geht über eine Stationsleitung hinaus; P 13 erst ab 48 unterstellten Beschäftigten.',
+    matches: input => input.function === 'bereichsleitung',
+  },
+  {
+    id: 'stationsleitung-24',
+    level: 12,
+    description: 'Stationsleitung mit mindestens 24 unterstellten Beschäftigten',
+    reason: 'Ab 24 unterstellten Beschäftigten ist die Stationsleitung in P 12 statt P 11 eingruppiert.',
+    matches: input => input.function === 'stationsleitung' && span(input) >= 24,
+  },
+  {
+    id: 'stationsleitung-12',
+    level: 11,
+    description: 'Stationsleitung mit mindestens 12 unterstellten Beschäftigten',
+    reason: 'Ab 12 unterstellten Beschäftigten ist die Stationsleitung in P 11 statt P 10 eingruppiert.',
+    matches: input => input.function === 'stationsleitung' && span(input) >= 12,
+  },
+  {
+    id: 'stationsleitung',
+    level: 10,
+    description: 'Stationsleitung',
+    reason: 'Die Leitung einer Station hebt über die ständige Vertretung (P 9) hinaus; P 11 erst ab 12 unterstellten Beschäftigten.',
+    matches: input => input.function === 'stationsleitung',
+  },
+  {
+    id: 'stellv-stationsleitung-12',
+    level: 10,
+    description: 'Ständige Vertretung einer Stationsleitung mit mindestens 12 unterstellten Beschäftigten',
+    reason: 'Ab 12 Beschäftigten auf der Station ist die ständige Vertretung in P 10 statt P 9 eingruppiert.',
+    matches: input => input.function === 'stellv-stationsleitung' && span(input) >= 12,
+  },
+  {
+    id: 'stellv-stationsleitung',
+    level: 9,
+    description: 'Ständige Vertretung einer Stationsleitung',
+    reason: 'Die ständige Vertretung der Stationsleitung hebt Pflegefachkräfte von P 8 in P 9; P 10 erst ab 12 unterstellten Beschäftigten.',
+    matches: input => input.function === 'stellv-stationsleitung',
+  },
+  {
+    id: 'praxisanleitung',
+    level: 9,
+    description: 'Pflegefachkraft als Praxisanleitung mit berufspädagogischer Zusatzqualifikation',
+    reason: 'Die Praxisanleitung mit berufspädagogischer Zusatzqualifikation hebt Pflegefachkräfte von P 8 in P 9.',
+    matches: input => input.function === 'praxisanleitung' && isFachkraft(input),
+  },
+  {
+    id: 'fachweiterbildung',
+    level: 9,
+    description: 'Pflegefachkraft mit Fachweiterbildung und entsprechender Tätigkeit',
+    reason: 'Eine abgeschlossene Fachweiterbildung mit entsprechender Tätigkeit hebt Pflegefachkräfte von P 8 in P 9.',
+    matches: input => Boolean(input.fachweiterbildung) && isFachkraft(input),
+  },
+  {
+    id: 'schwierige-aufgaben',
+    level: 8,
+    description: 'Pflegefachkraft mit schwierigen Aufgaben',
+    reason: 'Schwierige Aufgaben (z.B. Intensivpflege, Dialyse, OP, Onkologie, Psychiatrie) heben Pflegefachkräfte von P 7 in P 8; P 9 erst mit Fachweiterbildung.',
+    matches: input => Boolean(input.schwierigeAufgaben) && isFachkraft(input),
+  },
+  {
+    id: 'pflegefachkraft',
+    level: 7,
+    description: 'Pflegefachkraft (dreijährige Ausbildung) mit entsprechender Tätigkeit',
+    reason: 'Die dreijährige Pflegeausbildung hebt von P 6 in P 7; P 8 erst mit schwierigen Aufgaben (z.B. Intensivpflege).',
+    matches: input => isFachkraft(input),
+  },
+  {
+    id: 'pflegehelfer',
+    level: 6,
+    description: 'Pflegehelfer mit mindestens einjähriger Ausbildung',
+    reason: 'Die mindestens einjährige Helferausbildung hebt von P 5 in P 6; P 7 erst mit der dreijährigen Pflegeausbildung.',
+    matches: input => input.qualification === 'pflegehelfer',
+  },
+  {
+    id: 'ohne-ausbildung',
+    level: 5,
+    description: 'Beschäftigte in der Pflege ohne Pflegeausbildung',
+    reason: 'Ohne Pflegeausbildung ist P 5 die Eingangsgruppe; P 6 erst mit einer mindestens einjährigen Helferausbildung.',
+    matches: input => input.qualification === 'ohne-ausbildung',
+  },
+];
+
+/**
+ * Read qualification, function, Leitungsspanne and Fachweiterbildung from a job description,
+ * e.g. "Pflegefachkraft auf der Intensivstation", "Stationsleitung mit 20 Mitarbeitern".
+ * Undefined if the text names neither a qualification nor a function.
+ */
+export function parseEingruppierungInput(text: string): EingruppierungInput | undefined {
+  const lower = text.toLowerCase();
+  const input: EingruppierungInput = {};
+
+  if (/ohne\s+(pflege)?ausbildung|ungelernt|angelernt|quereinsteig/.test(lower)) {
+    input.qualification = 'ohne-ausbildung';
+  } else if (/helfer|assisten|hilfskraft/.test(lower)) {
+    input.qualification = 'pflegehelfer';
+  } else if (/fachkraft|pflegefach|examiniert|krankenpfleger|krankenschwester|altenpfleger|fachpfleger|pflegekraft/.test(lower)) {
+    input.qualification = 'pflegefachkraft';
+  }
+
+  if (/pflegedienstleit|\bpdl\b|pflegedirekt/.test(lower)) {
+    input.function = 'pflegedienstleitung';
+  } else if (/bereichsleit|abteilungsleit/.test(lower)) {
+    input.function = 'bereichsleitung';
+  } else if (/stationsleit|wohnbereichsleit|teamleit/.test(lower)) {
+    input.function = /stellv|vertret/.test(lower) ? 'stellv-stationsleitung' : 'stationsleitung';
+  } else if (/praxisanleit/.test(lower)) {
+    input.function = 'praxisanleitung';
+  }
+
+  const spanMatch = lower.match(/(\d+)\s*(unterstellt|mitarbeit|beschäftigt|kolleg|pflegekräft|leute|personen|vk\b)/);
+  if (spanMatch) input.leadershipSpan = parseInt(spanMatch[1], 10);
+
+  if (/fachweiterbildung|fachpfleger|fachkrankenpfleger|fachkrankenschwester|weiterbildung/.test(lower)) {
+    input.fachweiterbildung = true;
+  }
+
+  const area = SCHWIERIGE_AUFGABEN.find(({ pattern }) => pattern.test(lower));
+  if (area) input.schwierigeAufgaben = area.label;
+
+  if (!input.qualification && !input.function) return undefined;
+  return input;
+}
+
+/**
+ * Candidate Entgeltgruppe (P-Tabelle) for the input, undefined if no rule matches
+ */
+export function classifyEingruppierung(input: EingruppierungInput): EingruppierungResult | undefined {
+  const rule = RULES.find(candidate => candidate.matches(input));
+  if (!rule) return undefined;
+  return {
+    group: `P${rule.level}`,
+    level: rule.level,
+    rule: { id: rule.id, description: rule.description, reason: rule.reason },
+    input,
+  };
+}
+
+/**
+ * Eingruppierung of a job description (parseEingruppierungInput + classifyEingruppierung).
+ * Undefined for answers that name the group itself ("P8", "E 9", "7").
+ */
+export function eingruppieren(text: string): EingruppierungResult | undefined {
+  if (/\b[PE]\s?\d/i.test(text) || /^\s*\d+\s*$/.test(text)) return undefined;
+  const input = parseEingruppierungInput(text);
+  return input ? classifyEingruppierung(input) : undefined;
+}
+
+/**
+ * "Pflegefachkraft mit schwierigen Aufgaben (Intensivpflege) – Schwierige Aufgaben ... heben ... (TVöD Anlage 1 Teil B Abschnitt XI)"
+ */
+export function formatEingruppierung(result: EingruppierungResult): string {
+  const area = result.rule.id === 'schwierige-aufgaben' && result.input.schwierigeAufgaben
+    ? ` (${result.input.schwierigeAufgaben})`
+    : '';
+  return `${result.rule.description}${area} – ${result.rule.reason} (${SOURCE})`;
+}
+
+/**
+ * The rules as a list for prompts, e.g. "- P 8: Pflegefachkraft mit schwierigen Aufgaben"
+ */
+export function formatEingruppierungRules(): string {
+  return RULES.map(rule => `- P ${rule.level}: ${rule.description}`).join('\n');
+}
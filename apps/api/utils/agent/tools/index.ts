@@ -1,2 +1,3 @@
 export { executeTariffLookup } from './tariffLookup';
 export { executeTaxCalculate } from './taxCalculate';
+export { executeNetToGross } from './netToGross';
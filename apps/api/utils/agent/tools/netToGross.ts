@@ -0,0 +1,88 @@
+import { TaxWrapper, getZusatzversorgung } from '../../tax';
+import type { SalaryInput } from '../../tax/types';
+import type { NetToGrossInput, NetToGrossResult } from '../../../types/tools';
+import { executeTariffLookup, findTariffPositionsForGross } from './tariffLookup';
+import { mapChurchTax } from './taxCalculate';
+import { TARIFF_PROVIDERS } from './tariffs';
+
+const taxWrapper = new TaxWrapper();
+
+const FULL_TIME_HOURS = 38.5;
+
+/**
+ * Execute reverse calculation: gross (and tariff positions or hours) for a target net
+ */
+export function executeNetToGross(input: NetToGrossInput): NetToGrossResult {
+  try {
+    const salaryInput: SalaryInput = {
+      yearlySalary: 0, // searched by calculateGrossForNetto
+      taxClass: input.taxClass,
+      year: input.year,
+      hasChildren: input.hasChildren ?? false,
+      childCount: input.childCount ?? 0,
+      childAllowanceFactor: input.childAllowanceFactor,
+      churchTax: mapChurchTax(input.churchTax),
+      state: input.state ?? 'west',
+      healthInsuranceAddOn: input.healthInsuranceAddOn,
+      birthYear: input.birthYear,
+      // With a tariff, its Zusatzversorgung reduces the net
+      zusatzversorgung: getZusatzversorgung(input.tarif, input.state ?? 'west'),
+    };
+
+    const solved = taxWrapper.calculateGrossForNetto(salaryInput, input.targetNetto);
+    if (!solved.reachable) {
+      return {
+        success: false,
+        targetNetto: input.targetNetto,
+        error: {
+          field: 'targetNetto',
+          error: `Ein Netto von ${input.targetNetto} € ist nicht realistisch erreichbar`,
+          received: input.targetNetto,
+          suggestion: 'Gib ein monatliches Netto an (z.B. 2500)',
+        },
+      };
+    }
+
+    const hours = input.hours ?? (input.tarif ? TARIFF_PROVIDERS[input.tarif].fullTimeHours : FULL_TIME_HOURS);
+
+    // Hours needed in the current group/stufe (gross scales linearly with the hours)
+    let requiredHours: number | undefined;
+    if (input.tarif && input.group && input.stufe) {
+      const fullTime = executeTariffLookup({ tarif: input.tarif, group: input.group, stufe: input.stufe });
+      if (!fullTime.success) {
+        return { success: false, targetNetto: input.targetNetto, error: fullTime.error };
+      }
+      requiredHours = calculateRequiredHours(solved.monthlyGross, fullTime.monthlyGross!, TARIFF_PROVIDERS[input.tarif].fullTimeHours);
+    }
+
+    return {
+      success: true,
+      targetNetto: input.targetNetto,
+      monthlyGross: solved.monthlyGross,
+      yearlyGross: Math.round(solved.monthlyGross * 12 * 100) / 100,
+      netto: solved.netto,
+      ...(requiredHours !== undefined && { requiredHours }),
+      ...(input.tarif && { positions: findTariffPositionsForGross(input.tarif, solved.monthlyGross, hours).slice(0, 5) }),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      targetNetto: input.targetNetto,
+      error: {
+        field: 'calculation',
+        error: error instanceof Error ? error.message : 'Unbekannter Berechnungsfehler',
+        suggestion: 'Bitte ueberpruefe die Eingabewerte',
+      },
+    };
+  }
+}
+
+/**
+ * Weekly hours (rounded up to half hours) needed for a monthly gross,
+ * given the full-time gross of the group/stufe. May exceed full time.
+ *
+ * @param fullTimeHours - Full-time weekly hours of the tariff
+ */
+export function calculateRequiredHours(monthlyGross: number, fullTimeMonthlyGross: number, fullTimeHours: number = FULL_TIME_HOURS): number {
+  return Math.ceil((monthlyGross / fullTimeMonthlyGross) * fullTimeHours * 2) / 2;
+}
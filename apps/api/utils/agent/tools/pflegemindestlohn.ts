@@ -0,0 +1,170 @@
+/**
+ * Pflegemindestlohn (PflegeArbbV) for employers without a tariff:
+ * gross entered by the user and the hourly floor by qualification level.
+ */
+
+import { WEEKS_PER_MONTH } from './tariffs';
+
+export type QualificationLevel = 'hilfskraft' | 'qualifizierte-hilfskraft' | 'fachkraft';
+
+/** All qualification levels, e.g. for z.enum */
+export const QUALIFICATION_LEVELS: [QualificationLevel, ...QualificationLevel[]] = [
+  'hilfskraft',
+  'qualifizierte-hilfskraft',
+  'fachkraft',
+];
+
+export const QUALIFICATION_LEVEL_LABELS: Record<QualificationLevel, string> = {
+  hilfskraft: 'Pflegehilfskraft',
+  'qualifizierte-hilfskraft': 'qualifizierte Pflegehilfskraft',
+  fachkraft: 'Pflegefachkraft',
+};
+
+/**
+ * Hourly minimum wages by first day of validity (sorted), 5. and 6. PflegeArbbV
+ */
+const PFLEGEMINDESTLOHN: Array<{ validFrom: string; hourly: Record<QualificationLevel, number> }> = [
+  { validFrom: '2024-05-01', hourly: { hilfskraft: 15.5, 'qualifizierte-hilfskraft': 16.5, fachkraft: 19.5 } },
+  { validFrom: '2025-07-01', hourly: { hilfskraft: 16.1, 'qualifizierte-hilfskraft': 17.35, fachkraft: 20.5 } },
+  { validFrom: '2026-07-01', hourly: { hilfskraft: 16.52, 'qualifizierte-hilfskraft': 17.8, fachkraft: 21.03 } },
+];
+
+/**
+ * Gross as entered: per month or per hour
+ */
+export interface ActualGross {
+  amount: number;
+  per: 'month' | 'hour';
+}
+
+/**
+ * Minimum wage valid from a date
+ */
+export interface PflegemindestlohnRate {
+  validFrom: string;
+  hourly: number;
+}
+
+/**
+ * Result of checkPflegemindestlohn
+ */
+export interface PflegemindestlohnCheck {
+  hourlyWage: number;
+  /** Floor valid on the check date */
+  current: PflegemindestlohnRate;
+  /** Floors the wage is below: the current one and raises later in the year */
+  violations: PflegemindestlohnRate[];
+}
+
+function formatEuro(amount: number): string {
+  return amount.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-');
+  return `${day}.${month}.${year}`;
+}
+
+/** Units of a gross answer, see parseActualGross */
+const HOURLY_UNIT = /stunde|std|\/\s*h\b|stündlich/;
+const MONTHLY_UNIT = /monat|mtl/;
+
+/**
+ * Parse the gross answer: "3.200 € im Monat", "17,50 pro Stunde", "17,50 €/h", "2800 brutto"
+ * and the canonical form of formatActualGross. The unit is the one right after the amount
+ * ("3200 € im Monat bei 30 Stunden" is monthly), else the one before it ("Stundenlohn 17,50").
+ * Amounts below 100 € without a unit are hourly wages.
+ */
+export function parseActualGross(gross?: string | number): ActualGross | undefined {
+  if (gross === undefined || gross === null || gross === '') return undefined;
+  const text = String(gross).toLowerCase().trim();
+
+  const match = text.match(/\d{1,3}(?:\.\d{3})+(?:,\d+)?|\d+(?:[.,]\d+)?/);
+  if (!match) return undefined;
+  // German number format (1.234,56)
+  const amount = parseFloat(match[0].replace(/\.(?=\d{3}(\D|$))/g, '').replace(',', '.'));
+  if (isNaN(amount)) return undefined;
+
+  // Text between the amount and the next number, then the text before the amount
+  const after = text.slice(match.index! + match[0].length).split(/\d/)[0];
+  const before = text.slice(0, match.index);
+  const unitIn = (part: string) => (HOURLY_UNIT.test(part) ? 'hour' : MONTHLY_UNIT.test(part) ? 'month' : undefined);
+
+  const per = unitIn(after) ?? unitIn(before) ?? (amount < 100 ? 'hour' : 'month');
+  return { amount, per };
+}
+
+/**
+ * Canonical text of a gross answer, stored in the form state: "3200 € im Monat" or "17,5 € pro Stunde"
+ */
+export function formatActualGross(gross: ActualGross): string {
+  const amount = String(Math.round(gross.amount * 100) / 100).replace('.', ',');
+  return gross.per === 'hour' ? `${amount} € pro Stunde` : `${amount} € im Monat`;
+}
+
+/**
+ * Monthly gross of an answer; hourly wages are paid for weeklyHours × 4,348 hours per month
+ */
+export function getMonthlyGross(gross: ActualGross, weeklyHours: number): number {
+  return gross.per === 'month' ? gross.amount : gross.amount * weeklyHours * WEEKS_PER_MONTH;
+}
+
+/**
+ * Hourly wage of an answer; monthly salaries are divided by weeklyHours × 4,348
+ */
+export function getHourlyWage(gross: ActualGross, weeklyHours: number): number {
+  return gross.per === 'hour' ? gross.amount : gross.amount / (weeklyHours * WEEKS_PER_MONTH);
+}
+
+/**
+ * Pflegemindestlohn of a qualification level valid on a date (the first known one before 2024-05-01)
+ */
+export function getPflegemindestlohn(level: QualificationLevel, onDate: Date | string = new Date()): PflegemindestlohnRate {
+  const date = typeof onDate === 'string' ? onDate.slice(0, 10) : onDate.toISOString().slice(0, 10);
+  const entry = [...PFLEGEMINDESTLOHN].reverse().find(rate => rate.validFrom <= date) ?? PFLEGEMINDESTLOHN[0];
+  return { validFrom: entry.validFrom, hourly: entry.hourly[level] };
+}
+
+/**
+ * Compare a gross with the Pflegemindestlohn on a date and with the raises until the end of its year
+ *
+ * @param gross - Gross as entered
+ * @param weeklyHours - Contractual weekly hours
+ * @param level - Qualification level of the user
+ * @param onDate - Date of the check (default: today)
+ */
+export function checkPflegemindestlohn(
+  gross: ActualGross,
+  weeklyHours: number,
+  level: QualificationLevel,
+  onDate: Date | string = new Date()
+): PflegemindestlohnCheck {
+  const date = typeof onDate === 'string' ? onDate.slice(0, 10) : onDate.toISOString().slice(0, 10);
+  const hourlyWage = Math.round(getHourlyWage(gross, weeklyHours) * 100) / 100;
+  const current = getPflegemindestlohn(level, date);
+  const laterThisYear = PFLEGEMINDESTLOHN
+    .filter(rate => rate.validFrom > date && rate.validFrom.slice(0, 4) === date.slice(0, 4))
+    .map(rate => ({ validFrom: rate.validFrom, hourly: rate.hourly[level] }));
+
+  return {
+    hourlyWage,
+    current,
+    violations: [current, ...laterThisYear].filter(rate => hourlyWage < rate.hourly),
+  };
+}
+
+/**
+ * Warning for the result message, undefined if the wage is not below any floor of the check
+ */
+export function formatPflegemindestlohnWarning(check: PflegemindestlohnCheck, level: QualificationLevel): string | undefined {
+  if (check.violations.length === 0) return undefined;
+
+  const label = QUALIFICATION_LEVEL_LABELS[level];
+  const lines = check.violations.map(rate =>
+    rate === check.current
+      ? `⚠️ Dein Stundenlohn von ${formatEuro(check.hourlyWage)} € liegt unter dem Pflegemindestlohn (${label}: ${formatEuro(rate.hourly)} € seit ${formatDate(rate.validFrom)}).`
+      : `⚠️ Ab ${formatDate(rate.validFrom)} steigt der Pflegemindestlohn (${label}) auf ${formatEuro(rate.hourly)} € – dein Stundenlohn von ${formatEuro(check.hourlyWage)} € liegt darunter.`
+  );
+  lines.push('Dein Arbeitgeber muss mindestens den Pflegemindestlohn zahlen. Sprich ihn darauf an oder lass dich z.B. von einer Gewerkschaft beraten.');
+  return lines.join('\n');
+}
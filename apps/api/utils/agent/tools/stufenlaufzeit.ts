@@ -0,0 +1,211 @@
+import { getTariffProvider } from './tariffs';
+
+/** Highest Stufe of any tariff: bare numbers above it are years */
+const MAX_STUFE = 6;
+
+/**
+ * Experience as entered, see parseExperience
+ */
+export interface ExperienceInput {
+  /** Stufe stated by the user (with employmentStart: the Stufe held since that date) */
+  stufe?: number;
+  /** Einschlägige Berufserfahrung before the current employment, in years */
+  priorExperienceYears?: number;
+  /** Start of the current employment (or of the stated Stufe), ISO date */
+  employmentStart?: string;
+}
+
+/**
+ * Stufe on a date
+ */
+export interface StufeResult {
+  stufe: number;
+  /** Next Stufe and the date from which it is paid, null in the Endstufe or without a start date */
+  nextStufe: number | null;
+  nextStepUp: string | null;
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Add whole years to an ISO date; the higher Stufe is paid from the first of the month it is reached in
+ */
+function stepUpDate(isoDate: string, years: number): string {
+  const [year, month] = isoDate.split('-').map(Number);
+  return `${year + years}-${String(month).padStart(2, '0')}-01`;
+}
+
+function subtractYears(isoDate: string, years: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() - Math.round(years * 12));
+  return toIsoDate(date);
+}
+
+/**
+ * Parse a German date ("01.04.2019", "04/2019", "April 2019", "seit/ab 2019") or ISO date to ISO
+ */
+function parseDate(text: string): string | undefined {
+  const iso = text.match(/(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return iso[0];
+
+  const german = text.match(/(\d{1,2})\.(\d{1,2})\.(\d{4})/);
+  if (german) return `${german[3]}-${german[2].padStart(2, '0')}-${german[1].padStart(2, '0')}`;
+
+  const monthYear = text.match(/(\d{1,2})[./](\d{4})/);
+  if (monthYear) return `${monthYear[2]}-${monthYear[1].padStart(2, '0')}-01`;
+
+  const months = ['januar', 'februar', 'märz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember'];
+  const named = text.match(/([a-zä]+)\s+(\d{4})/);
+  const monthIndex = named ? months.indexOf(named[1]) : -1;
+  if (named && monthIndex >= 0) return `${named[2]}-${String(monthIndex + 1).padStart(2, '0')}-01`;
+
+  const year = text.match(/(?:seit|ab)\s+(\d{4})\b/);
+  if (year) return `${year[1]}-01-01`;
+
+  return undefined;
+}
+
+/**
+ * Parse the experience answer: "Stufe 3", "3", "5 Jahre", "unter 1 Jahr", "seit 01.04.2019", "ab 2020",
+ * "seit 2019, davor 2 Jahre", "Stufe 4 seit 03/2023" and the canonical form of formatExperience
+ */
+export function parseExperience(experience?: string | number): ExperienceInput {
+  if (experience === undefined || experience === null || experience === '') return {};
+  const text = String(experience).toLowerCase().trim();
+
+  const employmentStart = /seit|ab|\d{1,2}[./]\d{4}|\d{4}-\d{2}/.test(text) ? parseDate(text) : undefined;
+  // Without the date part, numbers are Stufen or years
+  const rest = [/\d{4}-\d{2}-\d{2}/g, /\d{1,2}\.\d{1,2}\.\d{4}/g, /\d{1,2}[./]\d{4}/g, /[a-zä]+\s+\d{4}/g]
+    .reduce((remaining, pattern) => remaining.replace(pattern, ' '), text)
+    .trim();
+
+  const stufeMatch = rest.match(/stufe\s*([1-6])/) || rest.match(/^([1-6])$/);
+  if (stufeMatch) {
+    return { stufe: parseInt(stufeMatch[1], 10), ...(employmentStart && { employmentStart }) };
+  }
+
+  let priorExperienceYears: number | undefined;
+  if (/unter\s*(1|einem)\s*jahr/.test(rest)) {
+    priorExperienceYears = 0;
+  } else {
+    const yearsMatch = rest.match(/(\d+(?:[.,]\d+)?)/);
+    if (yearsMatch) {
+      const years = parseFloat(yearsMatch[1].replace(',', '.'));
+      // Bare numbers above 6 can only be years (Stufen are 1-6)
+      if (rest.includes('jahr') || years > MAX_STUFE) priorExperienceYears = years;
+    }
+  }
+
+  if (employmentStart && priorExperienceYears === undefined && !/davor|vorher/.test(rest)) {
+    return { employmentStart };
+  }
+  return {
+    ...(priorExperienceYears !== undefined && { priorExperienceYears }),
+    ...(employmentStart && { employmentStart }),
+  };
+}
+
+/**
+ * Canonical text of an experience answer, stored in the form state:
+ * "3", "Stufe 3 seit 2023-03-01", "5 Jahre", "seit 2019-04-01" or "seit 2019-04-01, davor 2 Jahre".
+ * Undefined if the answer contains neither a Stufe, years nor a start date.
+ */
+export function formatExperience(input: ExperienceInput): string | undefined {
+  const years = input.priorExperienceYears !== undefined
+    ? `${String(input.priorExperienceYears).replace('.', ',')} ${input.priorExperienceYears === 1 ? 'Jahr' : 'Jahre'}`
+    : undefined;
+
+  if (input.stufe !== undefined) {
+    return input.employmentStart ? `Stufe ${input.stufe} seit ${input.employmentStart}` : String(input.stufe);
+  }
+  if (input.employmentStart) {
+    return years ? `seit ${input.employmentStart}, davor ${years}` : `seit ${input.employmentStart}`;
+  }
+  return years;
+}
+
+/**
+ * Stufe on a date from the Stufenlaufzeiten of the tariff.
+ * Without a start date, years of experience count as prior experience of a new hire on that date.
+ *
+ * @param tarif - Tariff id or collected answer (see getTariffProvider)
+ * @param input - Parsed experience
+ * @param onDate - Date the Stufe is determined for (default: today)
+ */
+export function calculateStufe(tarif: string | undefined, input: ExperienceInput, onDate: Date | string = new Date()): StufeResult {
+  const provider = getTariffProvider(tarif);
+  const laufzeiten = provider.stufenlaufzeiten;
+  const maxStufe = laufzeiten.length + 1;
+  const date = typeof onDate === 'string' ? onDate.slice(0, 10) : toIsoDate(onDate);
+
+  // Stated Stufe without a date: no step-up date can be derived
+  if (input.stufe !== undefined && !input.employmentStart) {
+    return { stufe: input.stufe, nextStufe: null, nextStepUp: null };
+  }
+
+  const start = input.employmentStart ?? date;
+  let stufe: number;
+  let stufeSince: string;
+
+  if (input.stufe !== undefined) {
+    stufe = input.stufe;
+    stufeSince = start;
+  } else {
+    const priorYears = input.priorExperienceYears ?? 0;
+    const maxCredited = provider.maxCreditedStufe;
+    if (maxCredited >= maxStufe) {
+      // Full crediting: as if employed since start minus the prior experience
+      stufe = 1;
+      stufeSince = subtractYears(start, priorYears);
+    } else {
+      // Credited Stufe at hiring, its Laufzeit starts with the employment
+      stufe = 1;
+      let threshold = 0;
+      while (stufe < maxCredited && priorYears >= threshold + laufzeiten[stufe - 1]) {
+        threshold += laufzeiten[stufe - 1];
+        stufe++;
+      }
+      stufeSince = start;
+    }
+  }
+
+  // Walk the Stufenlaufzeiten up to the date
+  while (stufe < maxStufe) {
+    const next = stepUpDate(stufeSince, laufzeiten[stufe - 1]);
+    if (next > date) break;
+    stufe++;
+    stufeSince = next;
+  }
+
+  return stufe < maxStufe
+    ? { stufe, nextStufe: stufe + 1, nextStepUp: stepUpDate(stufeSince, laufzeiten[stufe - 1]) }
+    : { stufe, nextStufe: null, nextStepUp: null };
+}
+
+/**
+ * Stufe for an experience answer as stored in the form state (parseExperience + calculateStufe).
+ * Defaults to Stufe 2 when the answer is missing.
+ */
+export function resolveStufe(tarif: string | undefined, experience: string | number | undefined, onDate: Date | string = new Date()): StufeResult {
+  const input = parseExperience(experience);
+  if (input.stufe === undefined && input.priorExperienceYears === undefined && !input.employmentStart) {
+    return { stufe: 2, nextStufe: null, nextStepUp: null };
+  }
+  return calculateStufe(tarif, input, onDate);
+}
+
+/**
+ * "Stufe 3, nächster Aufstieg in Stufe 4 am 01.04.2027"
+ *
+ * @param tarif - Tariff of the result, for the Endstufe
+ */
+export function formatStufe(result: StufeResult, tarif?: string): string {
+  if (!result.nextStufe || !result.nextStepUp) {
+    const endstufe = getTariffProvider(tarif).stufenlaufzeiten.length + 1;
+    return result.stufe === endstufe ? `Stufe ${result.stufe} (Endstufe)` : `Stufe ${result.stufe}`;
+  }
+  const [year, month, day] = result.nextStepUp.split('-');
+  return `Stufe ${result.stufe}, nächster Aufstieg in Stufe ${result.nextStufe} am ${day}.${month}.${year}`;
+}
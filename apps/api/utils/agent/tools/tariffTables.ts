@@ -0,0 +1,204 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TARIFF_PROVIDERS, type TariffProvider } from './tariffs';
+
+/**
+ * One row of the tariff_tables store: monthly full-time gross of a group/Stufe
+ * in a tariff, valid from a date until the next valid_from of the same tariff
+ */
+export interface TariffTableRow {
+  tarif: string;
+  /** ISO date (YYYY-MM-DD) */
+  valid_from: string;
+  gruppe: string;
+  stufe: number;
+  monthly_gross: number;
+}
+
+/**
+ * Tariff table valid on a date: group -> [Stufe 1, ..., Stufe 6]
+ */
+export interface TariffTable {
+  tarif: string;
+  validFrom: string;
+  groups: Record<string, number[]>;
+}
+
+/**
+ * Built-in tables of the tariff providers, used for every tariff that has no rows in tariff_tables
+ * (fresh installations, local development, database unreachable)
+ */
+const BUILT_IN_TABLES: Record<string, TariffProvider['tables']> = Object.fromEntries(
+  Object.values(TARIFF_PROVIDERS).map(provider => [provider.id, provider.tables])
+);
+
+/** Rows loaded from the database are reused for this long (ms) */
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+/** Rows per request; PostgREST returns at most 1000 rows per select */
+const PAGE_SIZE = 1000;
+
+let cachedTables: { tables: Record<string, TariffTable[]>; loadedAt: number } | null = null;
+
+/**
+ * Group rows by tariff into tables sorted by valid_from ascending
+ */
+function rowsToTables(rows: TariffTableRow[]): Record<string, TariffTable[]> {
+  const tables: Record<string, TariffTable[]> = {};
+
+  for (const row of rows) {
+    const versions = tables[row.tarif] ??= [];
+    let table = versions.find(version => version.validFrom === row.valid_from);
+    if (!table) {
+      table = { tarif: row.tarif, validFrom: row.valid_from, groups: {} };
+      versions.push(table);
+    }
+    const salaries = table.groups[row.gruppe] ??= [];
+    salaries[row.stufe - 1] = Number(row.monthly_gross);
+  }
+
+  for (const versions of Object.values(tables)) {
+    versions.sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+  }
+  return tables;
+}
+
+/**
+ * Load tariff_tables into the in-memory cache (at most every CACHE_TTL_MS unless forced).
+ * Rows are read page by page, so all versions of all tariffs are cached however many there are.
+ * Lookups stay synchronous and fall back to the built-in tables if loading fails.
+ */
+export async function loadTariffTables(supabase: SupabaseClient, options: { force?: boolean } = {}): Promise<void> {
+  if (!options.force && cachedTables && Date.now() - cachedTables.loadedAt < CACHE_TTL_MS) {
+    return;
+  }
+
+  const rows: TariffTableRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    // Stable order over the unique key, otherwise pages may overlap or skip rows
+    const { data, error } = await supabase
+      .from('tariff_tables')
+      .select('tarif, valid_from, gruppe, stufe, monthly_gross')
+      .order('tarif')
+      .order('valid_from')
+      .order('gruppe')
+      .order('stufe')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[TariffTables] Loading tariff_tables failed, using built-in tables:', error.message);
+      return;
+    }
+
+    rows.push(...((data ?? []) as TariffTableRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  cachedTables = { tables: rowsToTables(rows), loadedAt: Date.now() };
+}
+
+/**
+ * Drop the cache so the next loadTariffTables reads the database (after admin changes)
+ */
+export function invalidateTariffTables(): void {
+  cachedTables = null;
+}
+
+/**
+ * All versions of a tariff, sorted by valid_from ascending.
+ * Database rows replace the built-in tables of a tariff completely.
+ */
+export function getTariffTableVersions(tarif: string): TariffTable[] {
+  const stored = cachedTables?.tables[tarif];
+  if (stored && stored.length > 0) return stored;
+  return (BUILT_IN_TABLES[tarif] ?? []).map(({ validFrom, groups }) => ({ tarif, validFrom, groups }));
+}
+
+/**
+ * Tariff table valid on a date: the latest version with valid_from on or before it,
+ * the earliest version for dates before all of them
+ *
+ * @param date - Effective date, ISO string (YYYY-MM-DD) or Date
+ */
+export function getTariffTable(tarif: string, date: string | Date = new Date()): TariffTable | undefined {
+  const versions = getTariffTableVersions(tarif);
+  const isoDate = typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+  return [...versions].reverse().find(version => version.validFrom <= isoDate) ?? versions[0];
+}
+
+/**
+ * Salaries of a group in a table, matched case-insensitively ("e9a" -> "E9a")
+ */
+export function findTariffGroup(table: TariffTable, group: string): { group: string; salaries: number[] } | undefined {
+  const key = Object.keys(table.groups).find(name => name.toUpperCase() === group.replace(/\s+/g, '').toUpperCase());
+  return key ? { group: key, salaries: table.groups[key] } : undefined;
+}
+
+/**
+ * The built-in tables as rows, e.g. to seed tariff_tables
+ */
+export function getBuiltInTariffRows(): TariffTableRow[] {
+  return Object.entries(BUILT_IN_TABLES).flatMap(([tarif, versions]) =>
+    versions.flatMap(({ validFrom, groups }) =>
+      Object.entries(groups).flatMap(([gruppe, salaries]) =>
+        salaries.map((monthly_gross, index) => ({ tarif, valid_from: validFrom, gruppe, stufe: index + 1, monthly_gross }))
+      )
+    )
+  );
+}
+
+/**
+ * Parse an import of tariff rows. One table per import, first line optional header:
+ *
+ *   Gruppe;Stufe 1;Stufe 2;...;Stufe 6
+ *   P7;3096,58;3272,41;...
+ *
+ * Separators ';', tab or ',' (then with '.' as decimal point); German decimals are accepted.
+ */
+export function parseTariffTableImport(
+  text: string,
+  tarif: string,
+  validFrom: string
+): { rows: TariffTableRow[]; errors: string[] } {
+  const rows: TariffTableRow[] = [];
+  const errors: string[] = [];
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(validFrom)) {
+    return { rows, errors: [`Ungültiges Datum "${validFrom}" (erwartet JJJJ-MM-TT)`] };
+  }
+
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  lines.forEach((line, index) => {
+    const separator = line.includes(';') ? ';' : line.includes('\t') ? '\t' : ',';
+    const [gruppe, ...values] = line.split(separator).map(cell => cell.trim());
+
+    // Header line
+    if (index === 0 && /gruppe|eg/i.test(gruppe) && values.every(value => !/\d+[.,]\d{2}$/.test(value))) {
+      return;
+    }
+
+    if (!/^[A-Za-z]{1,3}\s*\d{1,2}[a-z]?$|^[A-Za-z]+$/.test(gruppe)) {
+      errors.push(`Zeile ${index + 1}: Entgeltgruppe "${gruppe}" nicht erkannt`);
+      return;
+    }
+
+    values.forEach((value, stufeIndex) => {
+      if (!value) return;
+      const normalized = separator === ',' ? value : value.replace(/\./g, '').replace(',', '.');
+      const monthlyGross = parseFloat(normalized.replace(/[^\d.]/g, ''));
+      if (!Number.isFinite(monthlyGross) || monthlyGross <= 0) {
+        errors.push(`Zeile ${index + 1}: Betrag "${value}" in Stufe ${stufeIndex + 1} ungültig`);
+        return;
+      }
+      rows.push({
+        tarif,
+        valid_from: validFrom,
+        gruppe: gruppe.replace(/\s+/g, '').replace(/^[a-z]+/i, prefix => prefix.toUpperCase()),
+        stufe: stufeIndex + 1,
+        monthly_gross: Math.round(monthlyGross * 100) / 100,
+      });
+    });
+  });
+
+  return { rows, errors };
+}
@@ -0,0 +1,44 @@
+import type { TableGroups, TariffProvider } from './types';
+
+// AVR Caritas Anlage 31/32 (Pflege), Anlage 33 (Sozial- und Erziehungsdienst)
+const AVR_CARITAS_2025: TableGroups = {
+  'P5': [2778.72, 2916.51, 3016.04, 3116.58, 3216.12, 3316.66],
+  'P6': [2916.51, 3066.29, 3166.83, 3292.41, 3417.00, 3516.54],
+  'P7': [3116.58, 3292.41, 3467.24, 3642.07, 3817.90, 3967.68],
+  'P8': [3367.37, 3567.25, 3767.13, 3967.01, 4166.89, 4366.77],
+  'E5': [2916.51, 3066.29, 3166.83, 3292.41, 3417.00, 3516.54],
+  'E6': [3016.04, 3166.83, 3292.41, 3442.19, 3566.77, 3691.35],
+  'E7': [3116.58, 3292.41, 3467.24, 3642.07, 3817.90, 3967.68],
+  'E8': [3367.37, 3567.25, 3767.13, 3967.01, 4166.89, 4366.77],
+};
+
+/**
+ * AVR Caritas: Arbeitsvertragsrichtlinien des Deutschen Caritasverbandes
+ */
+export const avrCaritasProvider: TariffProvider = {
+  id: 'avr-caritas',
+  label: 'AVR Caritas',
+  description: 'katholisch, Caritas',
+  inputPattern: /avr|caritas|katholisch|kirchlich/,
+  documentPattern: /\bAVR\b|Caritas/i,
+  fullTimeHours: 39,
+  groupPrefix: 'P',
+  defaultGroup: 'P7',
+  tables: [
+    { validFrom: '2025-01-01', groups: AVR_CARITAS_2025 },
+  ],
+  // Anlage 31/32 §13 AVR: einschlägige Berufserfahrung is credited in full
+  stufenlaufzeiten: [1, 2, 3, 4, 5],
+  maxCreditedStufe: 6,
+  // Anlage 31/32 AVR: Stufe 3 of the group; Nachtarbeit 20-6 Uhr
+  hourlyRateStufe: 3,
+  nightWorkHours: 10,
+  // Anlage 31/32 §6 AVR
+  allowances: {
+    shiftChange: { fullShift: 155, partialShift: 40 },
+    night: { percentage: 20 },
+    sunday: { percentage: 25 },
+    holiday: { percentage: 135 },
+    holidayEve: { percentage: 35 },
+  },
+};
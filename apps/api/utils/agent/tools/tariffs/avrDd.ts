@@ -0,0 +1,45 @@
+import type { TableGroups, TariffProvider } from './types';
+
+// AVR-DD (Diakonie Deutschland) 2025 monthly gross salary tables
+// [Basisstufe, Erfahrungsstufe 1, Erfahrungsstufe 2]
+const AVR_DD_2025: TableGroups = {
+  'E4': [2592.35, 2736.12, 2871.48],
+  'E5': [2712.80, 2870.44, 3018.30],
+  'E6': [2856.91, 3031.06, 3192.65],
+  'E7': [3143.37, 3349.24, 3531.78],
+  'E8': [3349.02, 3568.93, 3764.58],
+  'E9': [3601.66, 3832.18, 4052.40],
+  'E10': [3893.51, 4148.27, 4389.94],
+};
+
+/**
+ * AVR-DD: Arbeitsvertragsrichtlinien der Diakonie Deutschland
+ */
+export const avrDdProvider: TariffProvider = {
+  id: 'avr-dd',
+  label: 'AVR-DD',
+  description: 'evangelisch, Diakonie',
+  inputPattern: /avr[- ]?dd|diakonie|evangelisch/,
+  documentPattern: /AVR[- ]?DD|Diakonie/i,
+  fullTimeHours: 39,
+  groupPrefix: 'E',
+  defaultGroup: 'E7',
+  tables: [
+    { validFrom: '2025-01-01', groups: AVR_DD_2025 },
+  ],
+  // §14 AVR-DD: Erfahrungsstufe 1 after 2 years, Erfahrungsstufe 2 after another 4 years;
+  // einschlägige Berufserfahrung is credited in full
+  stufenlaufzeiten: [2, 4],
+  maxCreditedStufe: 3,
+  // AVR-DD: Stundenentgelt of the own Stufe; Nachtarbeit 21-6 Uhr
+  hourlyRateStufe: 'own',
+  nightWorkHours: 9,
+  // §20a AVR-DD and Anlage 7
+  allowances: {
+    shiftChange: { fullShift: 105, partialShift: 40 },
+    night: { percentage: 20 },
+    sunday: { percentage: 25 },
+    holiday: { percentage: 135 },
+    holidayEve: { percentage: 35 },
+  },
+};
@@ -0,0 +1,25 @@
+import type { TableGroups } from './types';
+
+/**
+ * Linear increase of a whole table, rounded to the cent
+ */
+export function increaseTable(groups: TableGroups, percent: number): TableGroups {
+  return Object.fromEntries(
+    Object.entries(groups).map(([group, salaries]) => [
+      group,
+      salaries.map(salary => Math.round(salary * (100 + percent)) / 100),
+    ])
+  );
+}
+
+/**
+ * Fixed increase of a whole table in Euro (e.g. Ausbildungsentgelte)
+ */
+export function increaseTableBy(groups: TableGroups, amount: number): TableGroups {
+  return Object.fromEntries(
+    Object.entries(groups).map(([group, salaries]) => [
+      group,
+      salaries.map(salary => Math.round((salary + amount) * 100) / 100),
+    ])
+  );
+}
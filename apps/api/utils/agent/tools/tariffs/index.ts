@@ -0,0 +1,86 @@
+import { avrCaritasProvider } from './avrCaritas';
+import { avrDdProvider } from './avrDd';
+import { tvaoedPflegeProvider } from './tvaoedPflege';
+import { tvDrkProvider } from './tvDrk';
+import { tvlProvider } from './tvl';
+import { tvoedProvider } from './tvoed';
+import type { TarifId, TariffProvider } from './types';
+
+export type { SpecialPaymentRule, TableGroups, TarifId, TariffProvider } from './types';
+
+/**
+ * Tariff providers by id, in display order
+ */
+export const TARIFF_PROVIDERS: Record<TarifId, TariffProvider> = {
+  tvoed: tvoedProvider,
+  'tv-l': tvlProvider,
+  'avr-caritas': avrCaritasProvider,
+  'avr-dd': avrDdProvider,
+  'tv-drk': tvDrkProvider,
+  'tvaoed-pflege': tvaoedPflegeProvider,
+};
+
+/** Average weeks per month (52.18 / 12), converts weekly hours to monthly hours (§24 Abs. 3 TVöD) */
+export const WEEKS_PER_MONTH = 4.348;
+
+/**
+ * All tariff ids, e.g. for z.enum
+ */
+export const TARIF_IDS = Object.keys(TARIFF_PROVIDERS) as [TarifId, ...TarifId[]];
+
+/**
+ * Collected tarif of employers without a collective agreement: the user enters the actual gross,
+ * it is checked against the Pflegemindestlohn (see pflegemindestlohn.ts)
+ */
+export const NO_TARIF = 'kein-tarif';
+
+/** Usual full time of employers without a tariff */
+export const NO_TARIF_FULL_TIME_HOURS = 40;
+
+const NO_TARIF_PATTERN = /kein(en)?\s*tarif|ohne\s*tarif|nicht\s*tarifgebunden|keine?\s*tarifbindung|privater?\s*(träger|arbeitgeber|pflegedienst)/;
+
+/**
+ * Whether the collected tarif is the "kein Tarif" answer (canonical or as typed)
+ */
+export function isNoTarif(tarif?: string): boolean {
+  if (!tarif) return false;
+  const lower = tarif.toLowerCase().trim();
+  return lower === NO_TARIF || NO_TARIF_PATTERN.test(lower);
+}
+
+/**
+ * Order in which the patterns are tried: the specific tariffs first
+ * ("AVR-DD" before "AVR", "TVAöD" and "TV-DRK" before the general ones)
+ */
+const DETECTION_ORDER: TarifId[] = ['tvaoed-pflege', 'tv-drk', 'avr-dd', 'avr-caritas', 'tv-l', 'tvoed'];
+
+/**
+ * Tariff id of a user answer or stored value ("TVöD", "Diakonie", "avr"), undefined if none matches.
+ * The former id 'avr' resolves to AVR Caritas.
+ */
+export function detectTarif(text: string): TarifId | undefined {
+  const lower = text.toLowerCase().trim();
+  if (lower in TARIFF_PROVIDERS) return lower as TarifId;
+  return DETECTION_ORDER.find(id => TARIFF_PROVIDERS[id].inputPattern.test(lower));
+}
+
+/**
+ * Tariff named in a document's table heading or filename, null if none
+ */
+export function detectTarifInDocument(text: string): TarifId | null {
+  return DETECTION_ORDER.find(id => TARIFF_PROVIDERS[id].documentPattern.test(text)) ?? null;
+}
+
+/**
+ * Normalize a collected tarif to its id (TVöD is the default)
+ */
+export function normalizeTarif(tarif?: string): TarifId {
+  return (tarif && detectTarif(tarif)) || 'tvoed';
+}
+
+/**
+ * Provider of a collected or stored tarif (TVöD for unknown values)
+ */
+export function getTariffProvider(tarif?: string): TariffProvider {
+  return TARIFF_PROVIDERS[normalizeTarif(tarif)];
+}
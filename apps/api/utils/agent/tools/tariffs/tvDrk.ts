@@ -0,0 +1,41 @@
+import type { TableGroups, TariffProvider } from './types';
+
+// TV-DRK (DRK-Reformtarifvertrag) 2025 monthly gross salary tables, Pflege
+const TV_DRK_2025: TableGroups = {
+  // [Stufe 1, Stufe 2, Stufe 3, Stufe 4, Stufe 5, Stufe 6]
+  'P5': [2675.96, 2809.61, 2906.16, 3003.68, 3100.24, 3197.76],
+  'P6': [2809.61, 2954.90, 3052.43, 3174.24, 3295.09, 3391.64],
+  'P7': [3003.68, 3174.24, 3343.82, 3513.41, 3683.96, 3829.25],
+  'P8': [3246.95, 3440.83, 3634.72, 3828.60, 4022.48, 4216.37],
+  'P9': [3489.25, 3731.63, 3974.01, 4216.40, 4458.78, 4652.66],
+};
+
+/**
+ * TV-DRK: Tarifvertrag des Deutschen Roten Kreuzes
+ */
+export const tvDrkProvider: TariffProvider = {
+  id: 'tv-drk',
+  label: 'TV-DRK',
+  description: 'Deutsches Rotes Kreuz',
+  inputPattern: /drk|rotes kreuz|rotkreuz/,
+  documentPattern: /TV[- ]?DRK|DRK-Reformtarifvertrag/i,
+  fullTimeHours: 39,
+  groupPrefix: 'P',
+  defaultGroup: 'P7',
+  tables: [
+    { validFrom: '2025-01-01', groups: TV_DRK_2025 },
+  ],
+  // Stufenlaufzeiten as in the TVöD; prior experience up to Stufe 3
+  stufenlaufzeiten: [1, 2, 3, 4, 5],
+  maxCreditedStufe: 3,
+  // TV-DRK like TVöD: Stufe 3 of the group; Nachtarbeit 21-6 Uhr
+  hourlyRateStufe: 3,
+  nightWorkHours: 9,
+  allowances: {
+    shiftChange: { fullShift: 105, partialShift: 40 },
+    night: { percentage: 20 },
+    sunday: { percentage: 25 },
+    holiday: { percentage: 135 },
+    holidayEve: { percentage: 35 },
+  },
+};
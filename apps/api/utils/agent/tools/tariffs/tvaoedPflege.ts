@@ -0,0 +1,50 @@
+import { increaseTableBy } from './increaseTable';
+import type { TableGroups, TariffProvider } from './types';
+
+// TVAöD - Besonderer Teil Pflege: Ausbildungsentgelt by Ausbildungsjahr
+// [1. Ausbildungsjahr, 2. Ausbildungsjahr, 3. Ausbildungsjahr]
+const TVAOED_PFLEGE_2025: TableGroups = {
+  'Pflege': [1415.69, 1477.07, 1578.38],
+};
+
+/**
+ * TVAöD-Pflege: trainees in the Pflegeausbildung under the TVöD.
+ * The "Stufe" is the Ausbildungsjahr.
+ */
+export const tvaoedPflegeProvider: TariffProvider = {
+  id: 'tvaoed-pflege',
+  label: 'TVAöD-Pflege',
+  description: 'Pflegeausbildung im öffentlichen Dienst',
+  inputPattern: /tvaöd|tvaoed|ausbildung|azubi|auszubildend/,
+  documentPattern: /TVA[öo]e?D/i,
+  fullTimeHours: 38.5,
+  groupPrefix: '',
+  defaultGroup: 'Pflege',
+  tables: [
+    { validFrom: '2025-04-01', groups: TVAOED_PFLEGE_2025 },
+    // Tarifeinigung TVöD Bund/VKA 2025: +75 € ab 1. Mai 2026
+    { validFrom: '2026-05-01', groups: increaseTableBy(TVAOED_PFLEGE_2025, 75) },
+  ],
+  // One Ausbildungsjahr per Stufe, no crediting
+  stufenlaufzeiten: [1, 1],
+  maxCreditedStufe: 1,
+  // TVAöD: Ausbildungsentgelt of the Ausbildungsjahr; Nachtarbeit 21-6 Uhr
+  hourlyRateStufe: 'own',
+  nightWorkHours: 9,
+  // §8 TVöD applies accordingly (§7 TVAöD-BT Pflege)
+  allowances: {
+    shiftChange: { fullShift: 155, partialShift: 40 },
+    night: { percentage: 20 },
+    sunday: { percentage: 25 },
+    holiday: { percentage: 135 },
+    holidayEve: { percentage: 35 },
+  },
+  // §14 TVAöD: Jahressonderzahlung with the November Ausbildungsentgelt
+  specialPayments: {
+    2025: {
+      jahressonderzahlung: [{ maxGroup: 99, percent: 90 }],
+      jahressonderzahlungMonth: 11,
+      jahressonderzahlungLabel: 'Jahressonderzahlung (§14 TVAöD)',
+    },
+  },
+};
@@ -0,0 +1,64 @@
+import type { TableGroups, TariffProvider } from './types';
+
+// TV-L values are slightly different (Laender)
+const TVL_2025: TableGroups = {
+  'P5': [2708.72, 2846.51, 2946.04, 3046.58, 3146.12, 3246.66],
+  'P6': [2846.51, 2996.29, 3096.83, 3222.41, 3347.00, 3446.54],
+  'P7': [3046.58, 3222.41, 3397.24, 3572.07, 3747.90, 3897.68],
+  'P8': [3297.37, 3497.25, 3697.13, 3897.01, 4096.89, 4296.77],
+  'E5': [2846.51, 2996.29, 3096.83, 3222.41, 3347.00, 3446.54],
+  'E6': [2946.04, 3096.83, 3222.41, 3372.19, 3496.77, 3621.35],
+  'E7': [3046.58, 3222.41, 3397.24, 3572.07, 3747.90, 3897.68],
+  'E8': [3297.37, 3497.25, 3697.13, 3897.01, 4096.89, 4296.77],
+  'E9': [3547.16, 3797.04, 4046.92, 4296.80, 4546.68, 4746.56],
+  'E10': [3847.05, 4096.93, 4396.81, 4696.69, 4996.57, 5246.45],
+  'E11': [4046.92, 4346.80, 4646.68, 4946.56, 5296.44, 5596.32],
+  'E12': [4296.80, 4596.68, 4946.56, 5296.44, 5646.32, 5996.20],
+  'E13': [4546.68, 4896.56, 5296.44, 5696.32, 6096.20, 6446.08],
+  'E14': [4896.56, 5296.44, 5746.32, 6196.20, 6646.08, 7045.96],
+  'E15': [5296.44, 5746.32, 6246.20, 6746.08, 7245.96, 7695.84],
+};
+
+/**
+ * TV-L: Länder, e.g. Universitätskliniken
+ */
+export const tvlProvider: TariffProvider = {
+  id: 'tv-l',
+  label: 'TV-L',
+  description: 'Länder, z.B. Unikliniken',
+  inputPattern: /tv-l|tvl|länder|laender|uniklini/,
+  documentPattern: /TV-?L\b/,
+  fullTimeHours: 38.5,
+  groupPrefix: 'E',
+  defaultGroup: 'P7',
+  tables: [
+    { validFrom: '2025-02-01', groups: TVL_2025 },
+  ],
+  // §16 Abs. 3 TV-L; §16 Abs. 2: prior experience up to Stufe 3
+  stufenlaufzeiten: [1, 2, 3, 4, 5],
+  maxCreditedStufe: 3,
+  // §8 Abs. 1 TV-L: Stufe 3 of the group; §7 Abs. 5: Nachtarbeit 21-6 Uhr
+  hourlyRateStufe: 3,
+  nightWorkHours: 9,
+  // §8 and §7 TV-L
+  allowances: {
+    shiftChange: { fullShift: 155, partialShift: 40 },
+    night: { percentage: 20 },
+    sunday: { percentage: 25 },
+    holiday: { percentage: 135 },
+    holidayEve: { percentage: 35 },
+  },
+  // §20 TV-L
+  specialPayments: {
+    2025: {
+      jahressonderzahlung: [
+        { maxGroup: 8, percent: 84.51 },
+        { maxGroup: 11, percent: 70.28 },
+        { maxGroup: 13, percent: 51.78 },
+        { maxGroup: 15, percent: 32.19 },
+      ],
+      jahressonderzahlungMonth: 11,
+      jahressonderzahlungLabel: 'Jahressonderzahlung (§20 TV-L)',
+    },
+  },
+};
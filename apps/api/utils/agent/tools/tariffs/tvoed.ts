@@ -0,0 +1,93 @@
+import { increaseTable } from './increaseTable';
+import type { TableGroups, TariffProvider } from './types';
+
+// TVoD-P (Pflege) 2025/2026 monthly gross salary tables
+// Source: https://oeffentlicher-dienst.info/tvoed/p/
+const TVOED_2025: TableGroups = {
+  // [Stufe 1, Stufe 2, Stufe 3, Stufe 4, Stufe 5, Stufe 6]
+  'P5': [2758.72, 2896.51, 2996.04, 3096.58, 3196.12, 3296.66],
+  'P6': [2896.51, 3046.29, 3146.83, 3272.41, 3397.00, 3496.54],
+  'P7': [3096.58, 3272.41, 3447.24, 3622.07, 3797.90, 3947.68],
+  'P8': [3347.37, 3547.25, 3747.13, 3947.01, 4146.89, 4346.77],
+  'P9': [3597.16, 3847.04, 4096.92, 4346.80, 4596.68, 4796.56],
+  'P10': [3897.05, 4146.93, 4446.81, 4746.69, 5046.57, 5296.45],
+  'P11': [4096.92, 4396.80, 4696.68, 4996.56, 5346.44, 5646.32],
+  'P12': [4346.80, 4646.68, 4996.56, 5346.44, 5696.32, 6046.20],
+  'P13': [4596.68, 4946.56, 5346.44, 5746.32, 6146.20, 6496.08],
+  'P14': [4946.56, 5346.44, 5796.32, 6246.20, 6696.08, 7095.96],
+  'P15': [5346.44, 5796.32, 6296.20, 6796.08, 7295.96, 7745.84],
+  // E-groups for general administration (also in TVoD)
+  'E5': [2896.51, 3046.29, 3146.83, 3272.41, 3397.00, 3496.54],
+  'E6': [2996.04, 3146.83, 3272.41, 3422.19, 3546.77, 3671.35],
+  'E7': [3096.58, 3272.41, 3447.24, 3622.07, 3797.90, 3947.68],
+  'E8': [3347.37, 3547.25, 3747.13, 3947.01, 4146.89, 4346.77],
+  'E9a': [3447.24, 3672.17, 3897.10, 4097.03, 4296.96, 4496.89],
+  'E9b': [3597.16, 3847.04, 4096.92, 4346.80, 4596.68, 4796.56],
+  'E9c': [3697.10, 3947.01, 4196.92, 4446.83, 4696.74, 4946.65],
+  'E10': [3897.05, 4146.93, 4446.81, 4746.69, 5046.57, 5296.45],
+  'E11': [4096.92, 4396.80, 4696.68, 4996.56, 5346.44, 5646.32],
+  'E12': [4346.80, 4646.68, 4996.56, 5346.44, 5696.32, 6046.20],
+  'E13': [4596.68, 4946.56, 5346.44, 5746.32, 6146.20, 6496.08],
+  'E14': [4946.56, 5346.44, 5796.32, 6246.20, 6696.08, 7095.96],
+  'E15': [5346.44, 5796.32, 6296.20, 6796.08, 7295.96, 7745.84],
+};
+
+/**
+ * TVöD-K: TVöD (VKA) with the Besonderer Teil Krankenhäuser and the P-Tabelle for Pflege
+ */
+export const tvoedProvider: TariffProvider = {
+  id: 'tvoed',
+  label: 'TVöD-K',
+  description: 'öffentlicher Dienst, kommunale Krankenhäuser und Pflege',
+  inputPattern: /tvöd|tvoed|öffentlich|oeffentlich|kommunal/,
+  documentPattern: /TV[öo]e?D/i,
+  fullTimeHours: 38.5,
+  groupPrefix: 'P',
+  defaultGroup: 'P7',
+  tables: [
+    { validFrom: '2025-04-01', groups: TVOED_2025 },
+    // Tarifeinigung TVöD Bund/VKA 2025: +2,8 % ab 1. Mai 2026
+    { validFrom: '2026-05-01', groups: increaseTable(TVOED_2025, 2.8) },
+  ],
+  // §16 Abs. 3 TVöD (VKA), also P-Tabelle; §16 Abs. 2: prior experience up to Stufe 3
+  stufenlaufzeiten: [1, 2, 3, 4, 5],
+  maxCreditedStufe: 3,
+  // §8 Abs. 1 TVöD: Stufe 3 of the group; §7 Abs. 5: Nachtarbeit 21-6 Uhr
+  hourlyRateStufe: 3,
+  nightWorkHours: 9,
+  // §8 TVöD, §8 Abs. 5 TVöD-BT-K (Wechselschichtzulage Pflege)
+  allowances: {
+    shiftChange: { fullShift: 155, partialShift: 40 },
+    night: { percentage: 20 },
+    sunday: { percentage: 25 },
+    holiday: { percentage: 135 },
+    holidayEve: { percentage: 35 },
+  },
+  // §20 and §18 TVöD (VKA), Tarifeinigung 2025
+  specialPayments: {
+    2025: {
+      jahressonderzahlung: [
+        { maxGroup: 8, percent: 84.51 },
+        { maxGroup: 12, percent: 70.28 },
+        { maxGroup: 16, percent: 51.78 },
+      ],
+      jahressonderzahlungMonth: 11,
+      jahressonderzahlungLabel: 'Jahressonderzahlung (§20 TVöD)',
+      leistungsentgeltPercent: 2,
+      leistungsentgeltMonth: 12,
+      leistungsentgeltLabel: 'Leistungsentgelt (§18 TVöD)',
+    },
+    2026: {
+      jahressonderzahlung: [
+        { maxGroup: 8, percent: 85 },
+        { maxGroup: 12, percent: 80 },
+        { maxGroup: 16, percent: 60 },
+      ],
+      jahressonderzahlungMonth: 11,
+      jahressonderzahlungLabel: 'Jahressonderzahlung (§20 TVöD)',
+      leistungsentgeltPercent: 2,
+      leistungsentgeltMonth: 12,
+      leistungsentgeltLabel: 'Leistungsentgelt (§18 TVöD)',
+    },
+  },
+};
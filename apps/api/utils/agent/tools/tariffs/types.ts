@@ -0,0 +1,68 @@
+import type { BonusConfig } from '../../../../types/bonus-config';
+
+/**
+ * Ids of the supported tariffs, stored in the form state, tariff_tables and BonusConfig.employer.tarif
+ */
+export type TarifId = 'tvoed' | 'tv-l' | 'avr-caritas' | 'avr-dd' | 'tv-drk' | 'tvaoed-pflege';
+
+/**
+ * Group -> monthly full-time gross by Stufe ([Stufe 1, Stufe 2, ...])
+ */
+export type TableGroups = Record<string, number[]>;
+
+/**
+ * Jahressonderzahlung and Leistungsentgelt of a tariff, valid from a year on
+ */
+export interface SpecialPaymentRule {
+  /** Jahressonderzahlung in percent of the monthly Entgelt, by highest Entgeltgruppe number (P 7 and E 7 -> 7) */
+  jahressonderzahlung: Array<{ maxGroup: number; percent: number }>;
+  jahressonderzahlungMonth: number;
+  jahressonderzahlungLabel: string;
+  /** Leistungsentgelt in percent of the yearly Tabellenentgelt, if the tariff has one */
+  leistungsentgeltPercent?: number;
+  /** Month of payment, undefined = with the monthly salary */
+  leistungsentgeltMonth?: number;
+  leistungsentgeltLabel?: string;
+}
+
+/**
+ * Everything the calculation needs to know about one tariff.
+ * To support a new tariff, add a provider file next to the others and register it in index.ts.
+ */
+export interface TariffProvider {
+  id: TarifId;
+  /** Display name, e.g. "TVöD-K" */
+  label: string;
+  /** Short explanation for the user, e.g. "öffentlicher Dienst, Krankenhäuser" */
+  description: string;
+  /** Matches the user's answer to the tariff question (lower case) */
+  inputPattern: RegExp;
+  /** Matches the tariff in the heading/context of a document's Entgelttabelle */
+  documentPattern: RegExp;
+  /** Weekly hours of a full-time position, the tables refer to them */
+  fullTimeHours: number;
+  /** Prefix of bare group numbers ("7" -> "P7") */
+  groupPrefix: string;
+  /** Group used while none is collected and to estimate with if the collected one is not in the table */
+  defaultGroup: string;
+  /** Built-in table versions (sorted by validFrom), used while tariff_tables has no rows for the tariff */
+  tables: Array<{ validFrom: string; groups: TableGroups }>;
+  /** Years in Stufe 1, 2, ... before the next Stufe; the number of Stufen is one more */
+  stufenlaufzeiten: number[];
+  /**
+   * Highest Stufe reached by crediting einschlägige Berufserfahrung at hiring, its Laufzeit starts
+   * with the hiring. Equal to the number of Stufen: the experience is credited in full.
+   */
+  maxCreditedStufe: number;
+  /**
+   * Stufe whose Tabellenentgelt the Stundenentgelt of the Zeitzuschläge refers to: 3 (§8 Abs. 1 TVöD/TV-L:
+   * Stufe 3 of the group) or 'own' (the employee's Stufe). Divided by fullTimeHours × 4,348 (§24 Abs. 3 TVöD).
+   */
+  hourlyRateStufe: 3 | 'own';
+  /** Length of the Nachtarbeit window in hours (TVöD 21-6 Uhr = 9): the most night hours of a shift */
+  nightWorkHours: number;
+  /** Tariff allowances, used where the project's BonusConfig does not set its own */
+  allowances: NonNullable<BonusConfig['allowances']>;
+  /** Jahressonderzahlung/Leistungsentgelt by first year of validity, none if the tariff has no rules here */
+  specialPayments?: Record<number, SpecialPaymentRule>;
+}
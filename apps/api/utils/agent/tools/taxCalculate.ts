@@ -16,9 +16,10 @@ export function executeTaxCalculate(input: TaxCalculateInput): TaxCalculateResul
       year: input.year,
       hasChildren: input.hasChildren ?? false,
       childCount: input.childCount ?? 0,
+      childAllowanceFactor: input.childAllowanceFactor,
       churchTax: mapChurchTax(input.churchTax),
       state: input.state ?? 'west',
-      healthInsuranceAddOn: input.healthInsuranceAddOn ?? 1.6,
+      healthInsuranceAddOn: input.healthInsuranceAddOn,
       birthYear: input.birthYear,
     };
 
@@ -27,6 +28,7 @@ export function executeTaxCalculate(input: TaxCalculateInput): TaxCalculateResul
     return {
       success: true,
       netto: result.netto,
+      employmentType: result.employmentType,
       taxes: result.taxes,
       socialSecurity: result.socialSecurity,
     };
@@ -42,7 +44,7 @@ export function executeTaxCalculate(input: TaxCalculateInput): TaxCalculateResul
   }
 }
 
-function mapChurchTax(value?: string): 'none' | 'bayern' | 'baden_wuerttemberg' | 'common' {
+export function mapChurchTax(value?: string): 'none' | 'bayern' | 'baden_wuerttemberg' | 'common' {
   switch (value) {
     case 'church_tax_8':
       return 'bayern'; // 8% (Bayern, Baden-Wuerttemberg)
@@ -2,19 +2,39 @@
  * AllowanceCalculator - Calculates employer-specific allowances and bonuses
  *
  * Calculation Assumptions:
- * - 169 working hours/month (~39h/week standard for TVöD)
- * - 8 hours per shift (night, late, weekend)
+ * - Hourly rate from the tariff (§24 Abs. 3 TVöD: Tabellenentgelt / (Wochenstunden × 4,348)),
+ *   if not given: base salary / (collected weekly hours × 4,348)
+ * - Shift length as collected, otherwise the tariff's daily hours (full time / 5)
+ * - Night hours per shift: the shift length, at most the tariff's Nachtarbeit window (TVöD 21-6 Uhr = 9 h);
+ *   night shifts start before 0 Uhr, so up to 4 of them are between 0 and 4 Uhr
  * - 50% of weekend days are Sundays (simplified)
  * - Jump-ins: 70% weekday, 30% weekend (average distribution)
- * - Holiday surcharges not separately queried (TODO for future version)
+ * - Worked holidays per year as collected, otherwise estimated from the shift pattern (see estimateWorkedHolidays);
+ *   each of the Bundesland's holidays is worked equally likely, on Heiligabend/Silvester half a shift is after 14 Uhr
+ *   and paid with the tariff's own Zuschlag for these days (TVöD 35%) instead of the Feiertagszuschlag
+ * - Allowances missing in the project's BonusConfig come from the employer's tariff provider
  *
- * Tax Treatment (§3b EStG):
- * - Tax-free: Night surcharges (25%), Sunday surcharges (50%), Holiday surcharges (125%)
- * - Taxable: Shift change allowance, qualification bonuses, performance bonuses, jump-in bonuses
+ * Tax Treatment (§3b EStG, §1 SvEV, see SfnCompliance):
+ * - Tax-free: Night surcharges (25%, 40% from 0-4 Uhr), Sunday surcharges (50%), Holiday surcharges (125%,
+ *   150% on Heiligabend from 14 Uhr, the Weihnachtsfeiertage and 1. Mai), on an hourly base of at most 50 €;
+ *   contribution-free only on an hourly base of at most 25 €
+ * - Taxable: Surcharges above these limits, shift change allowance, qualification bonuses,
+ *   performance bonuses, jump-in bonuses
  */
 
 import { BonusConfig } from '../../types/bonus-config';
 import { EmployeeType, AllowancesBreakdown, OneTimeBonuses } from '../../types/form';
+import { WEEKS_PER_MONTH, getTariffProvider, type TariffProvider } from '../agent/tools/tariffs';
+import type { AllowanceSplit } from '../tax/types';
+import { estimateWorkedHolidays, getFeiertage } from './Feiertage';
+import {
+  NIGHT_CORE_HOURS,
+  SFN_TAX_FREE_RATES,
+  addSurchargeSplits,
+  getSurchargeTotal,
+  splitSurcharge,
+  type SurchargeSplit,
+} from './SfnCompliance';
 
 /**
  * Input data for shift calculations
@@ -24,22 +44,43 @@ export interface ShiftData {
   lateShifts: number;
   weekendDays: number;
   jumpInFrequency: number;
+  /** Contractual weekly hours (default: full time of the tariff) */
+  weeklyHours?: number;
+  /** Length of a shift in hours, e.g. 12 for 12-hour night shifts (default: full time / 5) */
+  shiftHours?: number;
+  /** Holidays worked per year (default: estimated from the shift pattern) */
+  holidayShifts?: number;
+  /** Bundesland, for its holiday calendar */
+  state?: string;
+  /** Calendar year of the holidays (default: current year) */
+  year?: number;
 }
 
 /**
  * Complete result from allowance calculation
  */
 export interface AllowanceResult {
+  /** Tax- and contribution-free parts of the SFN surcharges */
   taxFree: {
     night: number;
     sunday: number;
     holiday: number;
   };
+  /** Tax-free parts of the SFN surcharges subject to contributions (hourly base between 25 € and 50 €) */
+  svLiable: {
+    night: number;
+    sunday: number;
+    holiday: number;
+  };
   taxable: {
     shiftChange: number;
     qualifications: number;
     performance: number;
     jumpIn: number;
+    /** SFN surcharges above the §3b rates or the 50 € hourly base */
+    night: number;
+    sunday: number;
+    holiday: number;
   };
   oneTimeBonuses?: OneTimeBonuses;
   total: number;
@@ -49,13 +90,21 @@ export interface AllowanceResult {
 /**
  * Constants for calculation
  */
-const HOURS_PER_MONTH = 169; // ~39h/week
-const HOURS_PER_SHIFT = 8;
+const WORKDAYS_PER_WEEK = 5;
 const SUNDAY_RATIO = 0.5; // 50% of weekend days are Sundays
 const WEEKDAY_JUMP_IN_RATIO = 0.7; // 70% of jump-ins are on weekdays
+const MONTHS_PER_YEAR = 12;
+const AFTERNOON_SHIFT_SHARE = 0.5; // Share of a shift after 14 Uhr on Heiligabend/Silvester
 
 export class AllowanceCalculator {
-  constructor(private config: BonusConfig) {}
+  /** Allowances of the project, missing entries from the employer's tariff */
+  private allowances: NonNullable<BonusConfig['allowances']>;
+  private provider: TariffProvider;
+
+  constructor(private config: BonusConfig) {
+    this.provider = getTariffProvider(config.employer.tarif);
+    this.allowances = { ...this.provider.allowances, ...config.allowances };
+  }
 
   /**
    * Calculate all allowances based on shift data and qualifications
@@ -63,31 +112,38 @@ export class AllowanceCalculator {
    * @param shifts - Shift data (night shifts, late shifts, weekend days, jump-ins)
    * @param qualifications - Array of qualification keys (e.g., ['wundmanager', 'praxisanleiter'])
    * @param employeeType - 'fachkraft' or 'assistenz'
-   * @param baseSalary - Monthly base salary in Euro
+   * @param baseSalary - Monthly base salary in Euro (part-time adjusted)
+   * @param tariffHourlyRate - Stundenentgelt of the tariff position (see getTariffHourlyRate)
    * @returns Complete allowance breakdown
    */
   calculate(
     shifts: ShiftData,
     qualifications: string[],
     employeeType: EmployeeType,
-    baseSalary: number
+    baseSalary: number,
+    tariffHourlyRate?: number
   ): AllowanceResult {
-    const hourlyRate = baseSalary / HOURS_PER_MONTH;
+    const weeklyHours = shifts.weeklyHours || this.provider.fullTimeHours;
+    const hourlyRate = tariffHourlyRate ?? baseSalary / (weeklyHours * WEEKS_PER_MONTH);
+    const shiftHours = shifts.shiftHours || this.provider.fullTimeHours / WORKDAYS_PER_WEEK;
     const breakdown: string[] = [];
 
-    // 1. Tax-free SFN surcharges (§3b EStG)
-    const taxFree = {
-      night: this.calculateNightAllowance(shifts.nightShifts, hourlyRate, breakdown),
-      sunday: this.calculateSundayAllowance(shifts.weekendDays, hourlyRate, breakdown),
-      holiday: 0 // Simplified: Holidays not separately queried
-    };
+    // 1. SFN surcharges, split by the §3b EStG / SvEV limits
+    const night = this.calculateNightAllowance(shifts.nightShifts, hourlyRate, shiftHours, breakdown);
+    const sunday = this.calculateSundayAllowance(shifts.weekendDays, hourlyRate, shiftHours, breakdown);
+    const holiday = this.calculateHolidayAllowance(shifts, weeklyHours, hourlyRate, shiftHours, breakdown);
+    const taxFree = { night: night.taxFree, sunday: sunday.taxFree, holiday: holiday.taxFree };
+    const svLiable = { night: night.svLiable, sunday: sunday.svLiable, holiday: holiday.svLiable };
 
     // 2. Taxable allowances
     const taxable = {
       shiftChange: this.calculateShiftChangeAllowance(shifts, breakdown),
       qualifications: this.calculateQualificationBonus(qualifications, breakdown),
       performance: this.calculatePerformanceBonus(shifts, employeeType, breakdown),
-      jumpIn: this.calculateJumpInBonus(shifts.jumpInFrequency, breakdown)
+      jumpIn: this.calculateJumpInBonus(shifts.jumpInFrequency, breakdown),
+      night: night.taxable,
+      sunday: sunday.taxable,
+      holiday: holiday.taxable
     };
 
     // 3. One-time bonuses (shown separately, not in monthly calculation)
@@ -97,11 +153,11 @@ export class AllowanceCalculator {
 
     // Calculate total monthly allowances
     const total =
-      taxFree.night + taxFree.sunday + taxFree.holiday +
+      getSurchargeTotal(night) + getSurchargeTotal(sunday) + getSurchargeTotal(holiday) +
       taxable.shiftChange + taxable.qualifications +
       taxable.performance + taxable.jumpIn;
 
-    return { taxFree, taxable, oneTimeBonuses, total, breakdown };
+    return { taxFree, svLiable, taxable, oneTimeBonuses, total, breakdown };
   }
 
   /**
@@ -110,6 +166,7 @@ export class AllowanceCalculator {
   toFormStateBreakdown(result: AllowanceResult): AllowancesBreakdown {
     return {
       taxFree: result.taxFree,
+      svLiable: result.svLiable,
       taxable: result.taxable,
       total: result.total,
       breakdown: result.breakdown
@@ -118,25 +175,32 @@ export class AllowanceCalculator {
 
   /**
    * Calculate night work surcharge (Nachtarbeitszuschlag)
-   * Tax-free according to §3b EStG (up to 25% for hours 20:00-06:00)
+   * Tax-free according to §3b EStG (up to 25% for hours 20:00-06:00, 40% from 0:00-04:00)
+   * Only the hours in the tariff's Nachtarbeit window count (a 12-hour night shift has 9 in the TVöD)
    */
   private calculateNightAllowance(
     nightShifts: number,
     hourlyRate: number,
+    shiftHours: number,
     breakdown: string[]
-  ): number {
-    if (!nightShifts || nightShifts <= 0) return 0;
-
-    const percentage = this.config.allowances?.night?.percentage || 25;
-    const amount = nightShifts * HOURS_PER_SHIFT * hourlyRate * (percentage / 100);
-
-    if (amount > 0) {
+  ): SurchargeSplit {
+    if (!nightShifts || nightShifts <= 0) return addSurchargeSplits([]);
+
+    const percentage = this.allowances.night?.percentage || 25;
+    const nightHours = Math.min(shiftHours, this.provider.nightWorkHours);
+    const coreHours = Math.min(nightHours, NIGHT_CORE_HOURS);
+    const split = addSurchargeSplits([
+      splitSurcharge(nightShifts * coreHours, hourlyRate, percentage, SFN_TAX_FREE_RATES.nightCore),
+      splitSurcharge(nightShifts * (nightHours - coreHours), hourlyRate, percentage, SFN_TAX_FREE_RATES.night),
+    ]);
+
+    if (getSurchargeTotal(split) > 0) {
       breakdown.push(
-        `Nachtarbeitszuschlag (${nightShifts} Dienste): +${Math.round(amount)}€ (steuerfrei)`
+        `Nachtarbeitszuschlag (${nightShifts} Dienste): +${Math.round(getSurchargeTotal(split))}€ ${this.formatTreatment(split)}`
       );
     }
 
-    return amount;
+    return split;
   }
 
   /**
@@ -146,22 +210,74 @@ export class AllowanceCalculator {
   private calculateSundayAllowance(
     weekendDays: number,
     hourlyRate: number,
+    shiftHours: number,
     breakdown: string[]
-  ): number {
-    if (!weekendDays || weekendDays <= 0) return 0;
+  ): SurchargeSplit {
+    if (!weekendDays || weekendDays <= 0) return addSurchargeSplits([]);
 
-    const percentage = this.config.allowances?.sunday?.percentage || 50;
+    const percentage = this.allowances.sunday?.percentage || 50;
     // Assumption: 50% of weekend days are Sundays
     const sundayShifts = Math.floor(weekendDays * SUNDAY_RATIO);
-    const amount = sundayShifts * HOURS_PER_SHIFT * hourlyRate * (percentage / 100);
+    const split = splitSurcharge(sundayShifts * shiftHours, hourlyRate, percentage, SFN_TAX_FREE_RATES.sunday);
 
-    if (amount > 0) {
+    if (getSurchargeTotal(split) > 0) {
       breakdown.push(
-        `Sonntagszuschlag (${sundayShifts} Tage): +${Math.round(amount)}€ (steuerfrei)`
+        `Sonntagszuschlag (${sundayShifts} Tage): +${Math.round(getSurchargeTotal(split))}€ ${this.formatTreatment(split)}`
       );
     }
 
-    return amount;
+    return split;
+  }
+
+  /**
+   * Calculate holiday work surcharge (Feiertagszuschlag), monthly share of the year's holidays
+   * Tax-free according to §3b EStG up to 125% (150% on Heiligabend from 14 Uhr, 25./26.12. and 1. Mai),
+   * the tariff's surcharge above that is taxable. Heiligabend and Silvester get the tariff's holidayEve rate.
+   */
+  private calculateHolidayAllowance(
+    shifts: ShiftData,
+    weeklyHours: number,
+    hourlyRate: number,
+    shiftHours: number,
+    breakdown: string[]
+  ): SurchargeSplit {
+    const year = shifts.year || new Date().getFullYear();
+    const workedHolidays = shifts.holidayShifts ?? estimateWorkedHolidays(shifts.state, year, weeklyHours, shiftHours);
+    if (workedHolidays <= 0) return addSurchargeSplits([]);
+
+    const percentage = this.allowances.holiday?.percentage || 125;
+    const evePercentage = this.allowances.holidayEve?.percentage || 35;
+    const feiertage = getFeiertage(shifts.state, year);
+    // Every holiday is worked equally likely
+    const workedShare = Math.min(1, workedHolidays / feiertage.filter(feiertag => !feiertag.fromAfternoon).length);
+
+    const split = addSurchargeSplits(feiertage.map(feiertag => {
+      const hours = feiertag.fromAfternoon ? shiftHours * AFTERNOON_SHIFT_SHARE : shiftHours;
+      const paid = feiertag.fromAfternoon ? evePercentage : percentage;
+      return splitSurcharge(workedShare * hours / MONTHS_PER_YEAR, hourlyRate, paid, feiertag.taxFreePercentage);
+    }));
+
+    if (getSurchargeTotal(split) > 0) {
+      breakdown.push(
+        `Feiertagszuschlag (${workedHolidays} Feiertage im Jahr): +${Math.round(getSurchargeTotal(split))}€ ${this.formatTreatment(split)}`
+      );
+    }
+
+    return split;
+  }
+
+  /**
+   * Treatment of a surcharge for the breakdown: "(steuerfrei)", "(davon 120€ steuerfrei)",
+   * "(steuerfrei, davon 8€ beitragspflichtig)", "(davon 120€ steuerfrei, 8€ davon beitragspflichtig)"
+   */
+  private formatTreatment(split: SurchargeSplit): string {
+    const taxFree = Math.round(split.taxFree + split.svLiable);
+    const svLiable = Math.round(split.svLiable);
+    const parts = [split.taxable >= 0.5 ? `davon ${taxFree}€ steuerfrei` : 'steuerfrei'];
+    if (svLiable > 0) {
+      parts.push(split.taxable >= 0.5 ? `${svLiable}€ davon beitragspflichtig` : `davon ${svLiable}€ beitragspflichtig`);
+    }
+    return `(${parts.join(', ')})`;
   }
 
   /**
@@ -169,16 +285,16 @@ export class AllowanceCalculator {
    * Taxable - added to gross before tax calculation
    */
   private calculateShiftChangeAllowance(shifts: ShiftData, breakdown: string[]): number {
-    if (!this.config.allowances?.shiftChange) return 0;
+    if (!this.allowances.shiftChange) return 0;
 
     // Full shift allowance: Regular night AND late shifts
     const hasRegularShiftChange = shifts.nightShifts >= 4 && shifts.lateShifts >= 4;
 
     let amount: number;
     if (hasRegularShiftChange) {
-      amount = this.config.allowances.shiftChange.fullShift;
+      amount = this.allowances.shiftChange.fullShift;
     } else if (shifts.nightShifts >= 2) {
-      amount = this.config.allowances.shiftChange.partialShift;
+      amount = this.allowances.shiftChange.partialShift;
     } else {
       amount = 0;
     }
@@ -309,14 +425,24 @@ export class AllowanceCalculator {
       result.taxable.shiftChange +
       result.taxable.qualifications +
       result.taxable.performance +
-      result.taxable.jumpIn
+      result.taxable.jumpIn +
+      result.taxable.night +
+      result.taxable.sunday +
+      result.taxable.holiday
     );
   }
+}
 
-  /**
-   * Get total tax-free allowances (for TaxWrapper integration)
-   */
-  getTaxFreeTotal(result: AllowanceResult): number {
-    return result.taxFree.night + result.taxFree.sunday + result.taxFree.holiday;
-  }
+/**
+ * Three-way split of an AllowancesBreakdown stored in the form state (results calculated before
+ * the §3b limits have no svLiable part and no taxable surcharges)
+ */
+export function getAllowanceSplit(allowances: AllowancesBreakdown): AllowanceSplit {
+  const { taxFree, svLiable, taxable } = allowances;
+  return {
+    taxFree: taxFree.night + taxFree.sunday + taxFree.holiday,
+    svLiable: svLiable ? svLiable.night + svLiable.sunday + svLiable.holiday : 0,
+    taxable: taxable.shiftChange + taxable.qualifications + taxable.performance + taxable.jumpIn
+      + (taxable.night ?? 0) + (taxable.sunday ?? 0) + (taxable.holiday ?? 0),
+  };
 }
@@ -0,0 +1,170 @@
+/**
+ * Gesetzliche Feiertage per Bundesland and year, for the Feiertagszuschlag.
+ *
+ * Holidays only valid in some municipalities (Mariä Himmelfahrt in Bavaria, Fronleichnam in parts of
+ * Sachsen/Thüringen, Augsburger Friedensfest) are not included.
+ */
+
+/**
+ * A day with a Feiertagszuschlag
+ */
+export interface Feiertag {
+  /** ISO date */
+  date: string;
+  name: string;
+  /** Tax-free holiday rate of the day (§3b Abs. 1 Nr. 3, 4 EStG): 125 or 150 percent */
+  taxFreePercentage: 125 | 150;
+  /** Counts only from 14 Uhr (Heiligabend, Silvester), i.e. for part of a shift */
+  fromAfternoon?: boolean;
+}
+
+type RegionalHoliday = { name: string; states: string[]; since?: number } & (
+  | { month: number; day: number }
+  | { easterOffset: number }
+  | { bussUndBettag: true }
+);
+
+/**
+ * Holidays of some Bundesländer only; dates fixed or relative to Ostersonntag
+ */
+const REGIONAL_HOLIDAYS: RegionalHoliday[] = [
+  { name: 'Heilige Drei Könige', month: 1, day: 6, states: ['Baden-Württemberg', 'Bayern', 'Sachsen-Anhalt'] },
+  { name: 'Internationaler Frauentag', month: 3, day: 8, states: ['Berlin'], since: 2019 },
+  { name: 'Internationaler Frauentag', month: 3, day: 8, states: ['Mecklenburg-Vorpommern'], since: 2023 },
+  { name: 'Ostersonntag', easterOffset: 0, states: ['Brandenburg'] },
+  { name: 'Pfingstsonntag', easterOffset: 49, states: ['Brandenburg'] },
+  {
+    name: 'Fronleichnam',
+    easterOffset: 60,
+    states: ['Baden-Württemberg', 'Bayern', 'Hessen', 'Nordrhein-Westfalen', 'Rheinland-Pfalz', 'Saarland'],
+  },
+  { name: 'Mariä Himmelfahrt', month: 8, day: 15, states: ['Saarland'] },
+  { name: 'Weltkindertag', month: 9, day: 20, states: ['Thüringen'], since: 2019 },
+  {
+    name: 'Reformationstag',
+    month: 10,
+    day: 31,
+    states: [
+      'Brandenburg', 'Bremen', 'Hamburg', 'Mecklenburg-Vorpommern', 'Niedersachsen',
+      'Sachsen', 'Sachsen-Anhalt', 'Schleswig-Holstein', 'Thüringen',
+    ],
+  },
+  {
+    name: 'Allerheiligen',
+    month: 11,
+    day: 1,
+    states: ['Baden-Württemberg', 'Bayern', 'Nordrhein-Westfalen', 'Rheinland-Pfalz', 'Saarland'],
+  },
+  { name: 'Buß- und Bettag', bussUndBettag: true, states: ['Sachsen'] },
+];
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function fixedDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+/**
+ * Ostersonntag of a year (Gaußsche Osterformel, anonymous Gregorian algorithm)
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Buß- und Bettag: the Wednesday before 23 November
+ */
+function getBussUndBettag(year: number): Date {
+  const date = new Date(Date.UTC(year, 10, 22));
+  const daysBack = (date.getUTCDay() - 3 + 7) % 7;
+  return addDays(date, -daysBack);
+}
+
+/**
+ * Normalize a Bundesland as collected in job_details.state for comparison ("thueringen" -> "thüringen")
+ */
+function normalizeBundesland(bundesland: string): string {
+  return bundesland.trim().toLowerCase().replace(/ue/g, 'ü');
+}
+
+/**
+ * Days with a Feiertagszuschlag in a Bundesland and year, sorted by date: the gesetzliche Feiertage
+ * plus Heiligabend and Silvester from 14 Uhr. Without a (known) Bundesland only the nationwide ones.
+ *
+ * 150 percent are tax-free on Heiligabend from 14 Uhr, the Weihnachtsfeiertage and 1. Mai,
+ * 125 percent on Silvester from 14 Uhr and all other holidays (§3b Abs. 1 EStG).
+ */
+export function getFeiertage(bundesland: string | undefined, year: number): Feiertag[] {
+  const easter = getEasterSunday(year);
+  const state = bundesland ? normalizeBundesland(bundesland) : undefined;
+
+  const holidays: Feiertag[] = [
+    { date: fixedDate(year, 1, 1), name: 'Neujahr', taxFreePercentage: 125 },
+    { date: toIsoDate(addDays(easter, -2)), name: 'Karfreitag', taxFreePercentage: 125 },
+    { date: toIsoDate(addDays(easter, 1)), name: 'Ostermontag', taxFreePercentage: 125 },
+    { date: fixedDate(year, 5, 1), name: 'Tag der Arbeit', taxFreePercentage: 150 },
+    { date: toIsoDate(addDays(easter, 39)), name: 'Christi Himmelfahrt', taxFreePercentage: 125 },
+    { date: toIsoDate(addDays(easter, 50)), name: 'Pfingstmontag', taxFreePercentage: 125 },
+    { date: fixedDate(year, 10, 3), name: 'Tag der Deutschen Einheit', taxFreePercentage: 125 },
+    { date: fixedDate(year, 12, 24), name: 'Heiligabend', taxFreePercentage: 150, fromAfternoon: true },
+    { date: fixedDate(year, 12, 25), name: '1. Weihnachtsfeiertag', taxFreePercentage: 150 },
+    { date: fixedDate(year, 12, 26), name: '2. Weihnachtsfeiertag', taxFreePercentage: 150 },
+    { date: fixedDate(year, 12, 31), name: 'Silvester', taxFreePercentage: 125, fromAfternoon: true },
+  ];
+
+  if (state) {
+    for (const holiday of REGIONAL_HOLIDAYS) {
+      if (!holiday.states.some(name => normalizeBundesland(name) === state) || (holiday.since && year < holiday.since)) continue;
+      const date = 'easterOffset' in holiday
+        ? toIsoDate(addDays(easter, holiday.easterOffset))
+        : 'bussUndBettag' in holiday
+          ? toIsoDate(getBussUndBettag(year))
+          : fixedDate(year, holiday.month, holiday.day);
+      holidays.push({ date, name: holiday.name, taxFreePercentage: 125 });
+    }
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Estimate how many of the year's holidays someone works from the shift pattern: shift workers
+ * work holidays like any other day, i.e. on (shifts per week / 7) of them.
+ *
+ * @param bundesland - Bundesland as collected in job_details.state
+ * @param year - Calendar year
+ * @param weeklyHours - Contractual weekly hours
+ * @param shiftHours - Length of a shift in hours
+ */
+export function estimateWorkedHolidays(
+  bundesland: string | undefined,
+  year: number,
+  weeklyHours: number,
+  shiftHours: number
+): number {
+  const shiftsPerWeek = Math.min(7, weeklyHours / shiftHours);
+  const holidays = getFeiertage(bundesland, year).filter(holiday => !holiday.fromAfternoon);
+  return Math.round(holidays.length * shiftsPerWeek / 7);
+}
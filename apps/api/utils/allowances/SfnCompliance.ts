@@ -0,0 +1,76 @@
+/**
+ * §3b EStG / §1 SvEV limits for Sonntags-, Feiertags- and Nachtzuschläge (SFN).
+ *
+ * A surcharge is tax-free up to the §3b rate of its hours on a Grundlohn of at most 50 € per hour,
+ * free of contributions only on a Grundlohn of at most 25 € per hour. Everything above is taxable.
+ */
+
+import type { AllowanceSplit } from '../tax/types';
+
+/** Highest hourly Grundlohn for tax-free surcharges (§3b Abs. 2 Satz 1 EStG) */
+export const TAX_FREE_HOURLY_BASE_LIMIT = 50;
+
+/** Highest hourly Grundlohn for contribution-free surcharges (§1 Abs. 1 Satz 1 Nr. 1 SvEV) */
+export const SV_FREE_HOURLY_BASE_LIMIT = 25;
+
+/**
+ * Tax-free rates in percent of the Grundlohn (§3b Abs. 1, 3 EStG), holidays see Feiertag.taxFreePercentage
+ */
+export const SFN_TAX_FREE_RATES = {
+  /** Nachtarbeit 20-6 Uhr */
+  night: 25,
+  /** Nachtarbeit 0-4 Uhr if the work started before 0 Uhr */
+  nightCore: 40,
+  sunday: 50,
+} as const;
+
+/** Hours from 0 to 4 Uhr: the most night hours of a shift at the nightCore rate */
+export const NIGHT_CORE_HOURS = 4;
+
+/**
+ * One surcharge split by its treatment, monthly amounts in Euro
+ */
+export type SurchargeSplit = Required<AllowanceSplit>;
+
+/**
+ * Split a surcharge paid for some hours at a percentage of the hourly rate
+ *
+ * @param hours - Hours the surcharge is paid for
+ * @param hourlyRate - Grundlohn per hour the surcharge refers to
+ * @param paidPercentage - Surcharge rate of the employer, e.g. 135 for the TVöD Feiertagszuschlag
+ * @param taxFreePercentage - §3b rate of these hours, e.g. 125 on a holiday
+ */
+export function splitSurcharge(
+  hours: number,
+  hourlyRate: number,
+  paidPercentage: number,
+  taxFreePercentage: number
+): SurchargeSplit {
+  const amount = hours * hourlyRate * paidPercentage / 100;
+  const rate = Math.min(paidPercentage, taxFreePercentage) / 100;
+  const taxFree = hours * Math.min(hourlyRate, TAX_FREE_HOURLY_BASE_LIMIT) * rate;
+  const svFree = hours * Math.min(hourlyRate, SV_FREE_HOURLY_BASE_LIMIT) * rate;
+
+  return { taxFree: svFree, svLiable: taxFree - svFree, taxable: amount - taxFree };
+}
+
+/**
+ * Sum of several splits, e.g. of the holidays of a year
+ */
+export function addSurchargeSplits(splits: SurchargeSplit[]): SurchargeSplit {
+  return splits.reduce(
+    (sum, split) => ({
+      taxFree: sum.taxFree + split.taxFree,
+      svLiable: sum.svLiable + split.svLiable,
+      taxable: sum.taxable + split.taxable,
+    }),
+    { taxFree: 0, svLiable: 0, taxable: 0 }
+  );
+}
+
+/**
+ * Total paid amount of a split
+ */
+export function getSurchargeTotal(split: SurchargeSplit): number {
+  return split.taxFree + split.svLiable + split.taxable;
+}
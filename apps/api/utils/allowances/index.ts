@@ -1,2 +1,2 @@
-export { AllowanceCalculator } from './AllowanceCalculator';
+export { AllowanceCalculator, getAllowanceSplit } from './AllowanceCalculator';
 export type { ShiftData, AllowanceResult } from './AllowanceCalculator';
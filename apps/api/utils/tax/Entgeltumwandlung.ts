@@ -0,0 +1,50 @@
+/**
+ * Contributions to a Direktversicherung, Pensionskasse or Pensionsfonds that are tax-free
+ * (§3 Nr. 63 EStG), in percent of the yearly BBG RV
+ */
+export const BAV_TAX_FREE_RATE = 8;
+
+/**
+ * Contributions that are free of social contributions (§1 Abs. 1 Nr. 9 SvEV),
+ * in percent of the yearly BBG RV
+ */
+export const BAV_SV_FREE_RATE = 4;
+
+/**
+ * Mandatory employer subsidy (§1a Abs. 1a BetrAVG) in percent of the converted amount,
+ * owed as far as the employer saves social contributions
+ */
+export const BAV_EMPLOYER_SUBSIDY_RATE = 15;
+
+/**
+ * Monthly Entgeltumwandlung split by what the limits allow (Euro)
+ */
+export interface EntgeltumwandlungSplit {
+  /** Converted by the employee */
+  amount: number;
+  /** Paid by the employer on top, into the contract */
+  employerSubsidy: number;
+  /** Part of the amount that reduces the taxable gross */
+  taxFree: number;
+  /** Part of the amount that reduces the SV-relevant gross */
+  svFree: number;
+}
+
+/**
+ * Split a monthly Entgeltumwandlung by the §3 Nr. 63 EStG and SvEV limits.
+ * The employer subsidy shares both limits with the converted amount and uses them first.
+ *
+ * @param amount - Monthly amount converted by the employee in Euro
+ * @param bbgRv - Yearly Beitragsbemessungsgrenze RV
+ */
+export function splitEntgeltumwandlung(amount: number, bbgRv: number): EntgeltumwandlungSplit {
+  const svLimit = bbgRv * BAV_SV_FREE_RATE / 100 / 12;
+  const taxLimit = bbgRv * BAV_TAX_FREE_RATE / 100 / 12;
+
+  // svFree + subsidy (15% of svFree) must stay within the SV-free limit
+  const svFree = Math.min(amount, svLimit / (1 + BAV_EMPLOYER_SUBSIDY_RATE / 100));
+  const employerSubsidy = svFree * BAV_EMPLOYER_SUBSIDY_RATE / 100;
+  const taxFree = Math.min(amount, Math.max(0, taxLimit - employerSubsidy));
+
+  return { amount, employerSubsidy, taxFree, svFree };
+}
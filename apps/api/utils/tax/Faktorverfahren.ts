@@ -0,0 +1,113 @@
+/**
+ * Einkommensteuertarif (§32a EStG) by year, same constants as UPTAB25/UPTAB26 in the PAP classes.
+ */
+const EST_TARIF_BY_YEAR: Record<number, {
+  grundfreibetrag: number;
+  zone2Limit: number;
+  zone2Factor: number;
+  zone3Limit: number;
+  zone3Factor: number;
+  zone3Constant: number;
+  zone4Limit: number;
+  zone4Constant: number;
+  zone5Constant: number;
+}> = {
+  2025: {
+    grundfreibetrag: 12096,
+    zone2Limit: 17443,
+    zone2Factor: 932.3,
+    zone3Limit: 68480,
+    zone3Factor: 176.64,
+    zone3Constant: 1015.13,
+    zone4Limit: 277825,
+    zone4Constant: 10911.92,
+    zone5Constant: 19246.67,
+  },
+  2026: {
+    grundfreibetrag: 12348,
+    zone2Limit: 17799,
+    zone2Factor: 914.51,
+    zone3Limit: 69878,
+    zone3Factor: 173.1,
+    zone3Constant: 1034.87,
+    zone4Limit: 277825,
+    zone4Constant: 11135.63,
+    zone5Constant: 19470.38,
+  },
+};
+
+function getTarif(year: number) {
+  const years = Object.keys(EST_TARIF_BY_YEAR).map(Number).sort((a, b) => a - b);
+  const match = [...years].reverse().find(y => y <= year) ?? years[0];
+  return EST_TARIF_BY_YEAR[match];
+}
+
+/**
+ * Einkommensteuer (Grundtarif) for a zu versteuerndes Einkommen in Euro
+ */
+function grundtarif(zve: number, year: number): number {
+  const t = getTarif(year);
+  const x = Math.floor(zve);
+
+  if (x <= t.grundfreibetrag) return 0;
+  if (x <= t.zone2Limit) {
+    const y = Math.floor((x - t.grundfreibetrag) / 10000 * 1e6) / 1e6;
+    return Math.floor((t.zone2Factor * y + 1400) * y);
+  }
+  if (x <= t.zone3Limit) {
+    const z = Math.floor((x - t.zone2Limit) / 10000 * 1e6) / 1e6;
+    return Math.floor((t.zone3Factor * z + 2397) * z + t.zone3Constant);
+  }
+  if (x <= t.zone4Limit) {
+    return Math.floor(0.42 * x - t.zone4Constant);
+  }
+  return Math.floor(0.45 * x - t.zone5Constant);
+}
+
+/**
+ * Yearly Einkommensteuer in Euro, optionally with Splittingverfahren (married couples)
+ */
+export function calculateEinkommensteuer(zve: number, year: number, splitting = false): number {
+  if (splitting) {
+    return 2 * grundtarif(Math.floor(zve / 2), year);
+  }
+  return grundtarif(zve, year);
+}
+
+/**
+ * Recover the zu versteuerndes Einkommen behind a yearly Lohnsteuer of Steuerklasse IV
+ * (Grundtarif, no child allowances in the Lohnsteuer). Only meaningful for lohnsteuer > 0.
+ */
+export function estimateZveFromLohnsteuer(lohnsteuer: number, year: number): number {
+  let low = getTarif(year).grundfreibetrag;
+  let high = 10_000_000;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (grundtarif(mid, year) >= lohnsteuer) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Faktor for Steuerklasse IV mit Faktor (§39f EStG): f = Y / X, rounded down to 3 decimals.
+ * Y is the Einkommensteuer of both spouses by Splittingverfahren,
+ * X the sum of both Lohnsteuer amounts in Steuerklasse IV.
+ * Returns undefined if the Faktor would not be below 1 (then IV/IV applies unchanged).
+ *
+ * @param lohnsteuerIV - Yearly Lohnsteuer (Euro) of both spouses in Steuerklasse IV
+ * @param zve - Zu versteuerndes Einkommen (Euro) of both spouses
+ * @param year - Tax year
+ */
+export function calculateFaktor(lohnsteuerIV: [number, number], zve: [number, number], year: number): number | undefined {
+  const x = lohnsteuerIV[0] + lohnsteuerIV[1];
+  if (x <= 0) return undefined;
+
+  const y = calculateEinkommensteuer(zve[0] + zve[1], year, true);
+  const factor = Math.floor(y / x * 1000) / 1000;
+
+  return factor < 1 ? factor : undefined;
+}
@@ -0,0 +1,112 @@
+import { SalaryInput } from './types';
+
+export type ChurchTaxRegion = Exclude<SalaryInput['churchTax'], 'none'>;
+
+/**
+ * Church tax rules per Bundesland (Kirchensteuergesetze der Länder)
+ * - rate: percentage of the church tax base (Lohnsteuer after child allowances, PAP output BK)
+ * - kappung: cap as percentage of the zu versteuerndes Einkommen, if the state has one
+ * - kappungOnApplication: cap is only granted by the church on request (Antrag),
+ *   so it is not applied to the monthly net
+ *
+ * Where the cap differs between denominations (Baden-Württemberg: ev. 2.75%, kath. 3.5%)
+ * the higher one is used, as we don't ask for the denomination.
+ */
+export const KIRCHENSTEUER_BY_BUNDESLAND: Record<string, { rate: number; kappung?: number; kappungOnApplication?: boolean }> = {
+  'Baden-Württemberg': { rate: 0.08, kappung: 0.035, kappungOnApplication: true },
+  'Bayern': { rate: 0.08 },
+  'Berlin': { rate: 0.09, kappung: 0.03 },
+  'Brandenburg': { rate: 0.09, kappung: 0.03 },
+  'Bremen': { rate: 0.09, kappung: 0.035 },
+  'Hamburg': { rate: 0.09, kappung: 0.03 },
+  'Hessen': { rate: 0.09, kappung: 0.035, kappungOnApplication: true },
+  'Mecklenburg-Vorpommern': { rate: 0.09, kappung: 0.03 },
+  'Niedersachsen': { rate: 0.09, kappung: 0.035 },
+  'Nordrhein-Westfalen': { rate: 0.09, kappung: 0.035, kappungOnApplication: true },
+  'Rheinland-Pfalz': { rate: 0.09, kappung: 0.035, kappungOnApplication: true },
+  'Saarland': { rate: 0.09, kappung: 0.035, kappungOnApplication: true },
+  'Sachsen': { rate: 0.09, kappung: 0.035 },
+  'Sachsen-Anhalt': { rate: 0.09, kappung: 0.035 },
+  'Schleswig-Holstein': { rate: 0.09, kappung: 0.03 },
+  'Thüringen': { rate: 0.09, kappung: 0.035 },
+};
+
+/**
+ * Kinderfreibetrag + Freibetrag für Betreuung/Erziehung/Ausbildung per full ZKF (§32 Abs. 6 EStG).
+ * §51a EStG deducts them from the zvE before the Kappung is applied.
+ */
+const KINDERFREIBETRAEGE_BY_YEAR: Record<number, number> = {
+  2025: 9600,
+  2026: 9756,
+};
+
+const ARBEITNEHMER_PAUSCHBETRAG = 1230;
+const SONDERAUSGABEN_PAUSCHBETRAG = 36;
+
+/**
+ * Look up a Bundesland by its display name (case-insensitive), as collected in job_details.state
+ */
+function findBundesland(bundesland?: string) {
+  if (!bundesland) return undefined;
+  const key = Object.keys(KIRCHENSTEUER_BY_BUNDESLAND)
+    .find(name => name.toLowerCase() === bundesland.trim().toLowerCase());
+  return key ? KIRCHENSTEUER_BY_BUNDESLAND[key] : undefined;
+}
+
+/**
+ * Map a Bundesland to the church tax region used in SalaryInput.churchTax
+ */
+export function getChurchTaxRegion(bundesland?: string): ChurchTaxRegion {
+  const normalized = (bundesland || '').trim().toLowerCase();
+  if (normalized === 'bayern') return 'bayern';
+  if (normalized === 'baden-württemberg' || normalized === 'baden-wuerttemberg') return 'baden_wuerttemberg';
+  return 'common';
+}
+
+/**
+ * Church tax rate for a region: 8% in Bayern and Baden-Württemberg, 9% elsewhere
+ */
+export function getChurchTaxRate(region: ChurchTaxRegion): number {
+  return region === 'common' ? 0.09 : 0.08;
+}
+
+/**
+ * Calculate the yearly church tax in Euro.
+ *
+ * @param bemessungsgrundlage - Yearly church tax base in Euro (PAP output BK / 100)
+ * @param region - Church tax region (determines 8% or 9%)
+ * @param bundesland - Bundesland name, used for the Kappung (optional)
+ * @param taxableIncome - Yearly zu versteuerndes Einkommen in Euro, before child allowances
+ * @param zkf - Zahl der Kinderfreibeträge
+ * @param year - Tax year (for the child allowance amount)
+ */
+export function calculateChurchTax(
+  bemessungsgrundlage: number,
+  region: ChurchTaxRegion,
+  bundesland: string | undefined,
+  taxableIncome: number,
+  zkf: number,
+  year: number
+): number {
+  const churchTax = bemessungsgrundlage * getChurchTaxRate(region);
+
+  const rules = findBundesland(bundesland);
+  if (!rules?.kappung || rules.kappungOnApplication) {
+    return churchTax;
+  }
+
+  const years = Object.keys(KINDERFREIBETRAEGE_BY_YEAR).map(Number).sort((a, b) => a - b);
+  const freibetragYear = [...years].reverse().find(y => y <= year) ?? years[0];
+  const zve = Math.max(0, taxableIncome - zkf * KINDERFREIBETRAEGE_BY_YEAR[freibetragYear]);
+
+  return Math.min(churchTax, zve * rules.kappung);
+}
+
+/**
+ * Approximate the zu versteuerndes Einkommen of an employee from gross salary and
+ * employee social contributions (as Vorsorgeaufwendungen), using the Pauschbeträge.
+ * Good enough for the Kappung, which only kicks in at high incomes.
+ */
+export function approximateTaxableIncome(yearlyGross: number, yearlySocialContributions: number): number {
+  return Math.max(0, yearlyGross - ARBEITNEHMER_PAUSCHBETRAG - SONDERAUSGABEN_PAUSCHBETRAG - yearlySocialContributions);
+}
@@ -0,0 +1,129 @@
+/**
+ * Statutory health insurer (gesetzliche Krankenkasse)
+ */
+export interface Krankenkasse {
+  /** Display name, also the normalized value stored in tax_details.healthInsurer */
+  name: string;
+  /** Lower-case spellings users type (abbreviations, old names) */
+  aliases: string[];
+  /** Zusatzbeitrag in percent by year (like BMF input KVZ) */
+  zusatzbeitrag: Record<number, number>;
+  /** Regional AOKs: Bundesländer they cover */
+  bundeslaender?: string[];
+}
+
+/**
+ * Catalog of the larger statutory insurers with their Zusatzbeitrag as published
+ * at the start of each year (GKV-Spitzenverband Beitragssatzliste).
+ * When a Kasse changes its rate, update the entry; for a new year add the new rates.
+ * Kassen not listed fall back to the average Zusatzbeitrag (SozialversicherungRegistry).
+ */
+export const KRANKENKASSEN: Krankenkasse[] = [
+  { name: 'Techniker Krankenkasse', aliases: ['tk', 'techniker'], zusatzbeitrag: { 2025: 2.45, 2026: 2.69 } },
+  { name: 'Barmer', aliases: ['barmer', 'barmer gek'], zusatzbeitrag: { 2025: 3.29, 2026: 3.29 } },
+  { name: 'DAK-Gesundheit', aliases: ['dak', 'dak gesundheit'], zusatzbeitrag: { 2025: 2.8, 2026: 3.2 } },
+  { name: 'KKH', aliases: ['kkh', 'kaufmännische krankenkasse', 'kaufmaennische krankenkasse'], zusatzbeitrag: { 2025: 3.78, 2026: 3.78 } },
+  { name: 'hkk', aliases: ['hkk', 'handelskrankenkasse'], zusatzbeitrag: { 2025: 2.19, 2026: 2.59 } },
+  { name: 'HEK', aliases: ['hek', 'hanseatische krankenkasse'], zusatzbeitrag: { 2025: 2.49, 2026: 2.89 } },
+  { name: 'IKK classic', aliases: ['ikk', 'ikk classic'], zusatzbeitrag: { 2025: 3.4, 2026: 3.4 } },
+  { name: 'Knappschaft', aliases: ['knappschaft', 'minijob-zentrale'], zusatzbeitrag: { 2025: 2.7, 2026: 3.5 } },
+  {
+    name: 'AOK Baden-Württemberg',
+    aliases: ['aok bw', 'aok baden-württemberg', 'aok baden-wuerttemberg'],
+    zusatzbeitrag: { 2025: 2.6, 2026: 2.99 },
+    bundeslaender: ['Baden-Württemberg'],
+  },
+  {
+    name: 'AOK Bayern',
+    aliases: ['aok bayern'],
+    zusatzbeitrag: { 2025: 2.69, 2026: 2.69 },
+    bundeslaender: ['Bayern'],
+  },
+  {
+    name: 'AOK Bremen/Bremerhaven',
+    aliases: ['aok bremen', 'aok bremerhaven'],
+    zusatzbeitrag: { 2025: 2.79, 2026: 2.99 },
+    bundeslaender: ['Bremen'],
+  },
+  {
+    name: 'AOK Hessen',
+    aliases: ['aok hessen'],
+    zusatzbeitrag: { 2025: 2.49, 2026: 2.69 },
+    bundeslaender: ['Hessen'],
+  },
+  {
+    name: 'AOK Niedersachsen',
+    aliases: ['aok niedersachsen'],
+    zusatzbeitrag: { 2025: 2.7, 2026: 2.98 },
+    bundeslaender: ['Niedersachsen'],
+  },
+  {
+    name: 'AOK Nordost',
+    aliases: ['aok nordost', 'aok berlin', 'aok brandenburg', 'aok mecklenburg-vorpommern'],
+    zusatzbeitrag: { 2025: 3.5, 2026: 3.5 },
+    bundeslaender: ['Berlin', 'Brandenburg', 'Mecklenburg-Vorpommern'],
+  },
+  {
+    name: 'AOK Nordwest',
+    aliases: ['aok nordwest', 'aok westfalen-lippe', 'aok schleswig-holstein'],
+    zusatzbeitrag: { 2025: 2.79, 2026: 2.99 },
+    bundeslaender: ['Nordrhein-Westfalen', 'Schleswig-Holstein'],
+  },
+  {
+    name: 'AOK PLUS',
+    aliases: ['aok plus', 'aok sachsen', 'aok thüringen', 'aok thueringen'],
+    zusatzbeitrag: { 2025: 3.1, 2026: 3.1 },
+    bundeslaender: ['Sachsen', 'Thüringen'],
+  },
+  {
+    name: 'AOK Rheinland-Pfalz/Saarland',
+    aliases: ['aok rheinland-pfalz', 'aok saarland', 'aok rps'],
+    zusatzbeitrag: { 2025: 2.47, 2026: 2.97 },
+    bundeslaender: ['Rheinland-Pfalz', 'Saarland'],
+  },
+  {
+    name: 'AOK Rheinland/Hamburg',
+    aliases: ['aok rheinland', 'aok hamburg', 'aok rheinland/hamburg'],
+    zusatzbeitrag: { 2025: 3.29, 2026: 3.29 },
+    bundeslaender: ['Nordrhein-Westfalen', 'Hamburg'],
+  },
+  {
+    name: 'AOK Sachsen-Anhalt',
+    aliases: ['aok sachsen-anhalt'],
+    zusatzbeitrag: { 2025: 2.5, 2026: 2.9 },
+    bundeslaender: ['Sachsen-Anhalt'],
+  },
+];
+
+/**
+ * Find a Krankenkasse by its name or one of its aliases (case-insensitive, exact)
+ */
+export function findKrankenkasse(name?: string): Krankenkasse | undefined {
+  if (!name) return undefined;
+  const normalized = name.trim().toLowerCase();
+  return KRANKENKASSEN.find(
+    kasse => kasse.name.toLowerCase() === normalized || kasse.aliases.includes(normalized)
+  );
+}
+
+/**
+ * Regional AOKs covering a Bundesland (NRW has two)
+ */
+export function findRegionalAoks(bundesland?: string): Krankenkasse[] {
+  if (!bundesland) return [];
+  return KRANKENKASSEN.filter(kasse => kasse.bundeslaender?.includes(bundesland));
+}
+
+/**
+ * Zusatzbeitrag of a Krankenkasse for a year, falling back to the latest
+ * known year before it. Returns undefined for unknown Kassen, so callers
+ * fall back to the average Zusatzbeitrag.
+ */
+export function getKrankenkasseZusatzbeitrag(name: string | undefined, year: number): number | undefined {
+  const kasse = findKrankenkasse(name);
+  if (!kasse) return undefined;
+
+  const years = Object.keys(kasse.zusatzbeitrag).map(Number).sort((a, b) => a - b);
+  const match = [...years].reverse().find(y => y <= year) ?? years[0];
+  return kasse.zusatzbeitrag[match];
+}
@@ -536,6 +536,9 @@ export class Lohnsteuer2026 {
     }
 
     this.MVSPKVPV();
+    
+    // VSP must be set before MVSPHB, which raises it to VSPN (VSPR + capped AV/KV/PV share) if higher.
+    this.VSP = this.VSPKVPV.add(this.VSPR).setScale(0, 'ROUND_UP');
 
     if (this.ALV === 1) {
        // NOP
@@ -546,14 +549,6 @@ export class Lohnsteuer2026 {
          this.MVSPHB();
        }
     }
-    
-    this.VSP = this.VSPKVPV.add(this.VSPR).setScale(0, 'ROUND_UP');
-    
-    // Note: schema shows VSPALV added if applicable?
-    // In MVSPHB: VSPN = VSPR + VSPHB.
-    // If VSPN > VSP then VSP = VSPN.
-    // But VSP initially is VSPKVPV + VSPR.
-    // This logic is inside MVSPHB call check.
   }
   
   private MVSPKVPV(): void {
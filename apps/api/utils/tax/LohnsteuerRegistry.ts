@@ -0,0 +1,31 @@
+import { Lohnsteuer2025 } from './Lohnsteuer2025';
+import { Lohnsteuer2026 } from './Lohnsteuer2026';
+import { TaxInput, TaxOutput } from './types';
+
+/**
+ * Contract shared by the BMF PAP classes
+ */
+export interface LohnsteuerCalculator {
+  calculate(input: TaxInput): TaxOutput;
+}
+
+/**
+ * Lohnsteuer classes by tax year, all hand-ported from the BMF PAP.
+ * scripts/generate-lohnsteuer.ts is not verified against a published BMF XML yet;
+ * see its header for what has to pass before a generated class may be added here.
+ */
+export const LOHNSTEUER_BY_YEAR: Record<number, new () => LohnsteuerCalculator> = {
+  2025: Lohnsteuer2025,
+  2026: Lohnsteuer2026,
+};
+
+/**
+ * Resolve the PAP class for a year.
+ * Falls back to the latest known year before it (or the earliest year we have),
+ * so calculations keep working until the next year's PAP is added.
+ */
+export function getLohnsteuerCalculator(year: number): LohnsteuerCalculator {
+  const years = Object.keys(LOHNSTEUER_BY_YEAR).map(Number).sort((a, b) => a - b);
+  const match = [...years].reverse().find(y => y <= year) ?? years[0];
+  return new LOHNSTEUER_BY_YEAR[match]();
+}
@@ -0,0 +1,109 @@
+/**
+ * Social insurance parameters of one year.
+ * Rates are total rates (employee + employer) as fractions, BBGs are yearly amounts in Euro.
+ */
+export interface SocialInsuranceParameters {
+  /** Beitragsbemessungsgrenze RV/AV (uniform for West and East since 2025) */
+  bbgRv: number;
+  /** Beitragsbemessungsgrenze KV/PV */
+  bbgKvPv: number;
+  /** Rentenversicherung */
+  rvRate: number;
+  /** Arbeitslosenversicherung */
+  avRate: number;
+  /** Allgemeiner Beitragssatz Krankenversicherung */
+  kvRate: number;
+  /** Durchschnittlicher Zusatzbeitrag in percent (like BMF input KVZ, e.g. 2.9) */
+  averageZusatzbeitrag: number;
+  /** Pflegeversicherung */
+  pvRate: number;
+  /** In Sachsen the employee pays this much more of the PV rate (and the employer less) */
+  pvSachsenEmployeeExtra: number;
+  /** Beitragszuschlag für Kinderlose, paid by the employee alone */
+  pvChildlessSurcharge: number;
+  /** Age from which the childless surcharge applies */
+  pvChildlessMinAge: number;
+  /** Beitragsabschlag per child from the 2nd child on (employee share) */
+  pvChildDiscount: number;
+  /** Maximum number of discounted children (2nd to 5th child) */
+  pvMaxDiscountedChildren: number;
+  /** Geringfügigkeitsgrenze (monthly): up to this gross the job is a Minijob */
+  minijobLimit: number;
+  /** Pauschalbeitrag RV the employer pays for a Minijob (the employee pays the rest of rvRate) */
+  minijobEmployerRvRate: number;
+  /** Upper limit (monthly) of the Übergangsbereich (Midijob) */
+  midijobUpperLimit: number;
+  /** Faktor F for the Übergangsbereich (§20 Abs. 2a SGB IV), published yearly */
+  midijobFactor: number;
+  /** Pauschalbeitrag KV the employer pays for a Minijob (only if the employee is statutory insured) */
+  minijobEmployerKvRate: number;
+  /** Pauschsteuer the employer pays for a Minijob (§40a Abs. 2 EStG) */
+  minijobFlatTaxRate: number;
+  /** Insolvenzgeldumlage, paid by the employer alone */
+  insolvencyLevyRate: number;
+  /** Typical Umlage U2 (Mutterschaft), used if the project does not configure its Kasse's rate */
+  averageU2Rate: number;
+}
+
+/**
+ * Social insurance parameters by year.
+ * To support a new year, add one entry here; TaxWrapper uses it both for the net
+ * deductions and for the Vorsorgepauschale inputs of the BMF PAP (KVZ, PVZ, PVA).
+ */
+export const SOCIAL_INSURANCE_BY_YEAR: Record<number, SocialInsuranceParameters> = {
+  2025: {
+    bbgRv: 96600,
+    bbgKvPv: 66150,
+    rvRate: 0.186,
+    avRate: 0.026,
+    kvRate: 0.146,
+    averageZusatzbeitrag: 2.5,
+    pvRate: 0.036,
+    pvSachsenEmployeeExtra: 0.005,
+    pvChildlessSurcharge: 0.006,
+    pvChildlessMinAge: 23,
+    pvChildDiscount: 0.0025,
+    pvMaxDiscountedChildren: 4,
+    minijobLimit: 556,
+    minijobEmployerRvRate: 0.15,
+    midijobUpperLimit: 2000,
+    midijobFactor: 0.6683,
+    minijobEmployerKvRate: 0.13,
+    minijobFlatTaxRate: 0.02,
+    insolvencyLevyRate: 0.0015,
+    averageU2Rate: 0.0044,
+  },
+  2026: {
+    bbgRv: 101400,
+    bbgKvPv: 69750,
+    rvRate: 0.186,
+    avRate: 0.026,
+    kvRate: 0.146,
+    averageZusatzbeitrag: 2.9,
+    pvRate: 0.036,
+    pvSachsenEmployeeExtra: 0.005,
+    pvChildlessSurcharge: 0.006,
+    pvChildlessMinAge: 23,
+    pvChildDiscount: 0.0025,
+    pvMaxDiscountedChildren: 4,
+    minijobLimit: 603,
+    minijobEmployerRvRate: 0.15,
+    midijobUpperLimit: 2000,
+    midijobFactor: 0.6619,
+    minijobEmployerKvRate: 0.13,
+    minijobFlatTaxRate: 0.02,
+    insolvencyLevyRate: 0.0015,
+    averageU2Rate: 0.0044,
+  },
+};
+
+/**
+ * Resolve the social insurance parameters for a year.
+ * Falls back to the latest known year before it (or the earliest year we have),
+ * like getLohnsteuerCalculator.
+ */
+export function getSocialInsuranceParameters(year: number): SocialInsuranceParameters {
+  const years = Object.keys(SOCIAL_INSURANCE_BY_YEAR).map(Number).sort((a, b) => a - b);
+  const match = [...years].reverse().find(y => y <= year) ?? years[0];
+  return SOCIAL_INSURANCE_BY_YEAR[match];
+}
@@ -1,19 +1,88 @@
 /**
- * Lightweight helper to mimic Java BigDecimal behavior required by BMF XML logic.
- * This simplifies porting the XML pseudo-code directly to TypeScript.
+ * Rounding modes used by the BMF PAP pseudo-code (java.math.BigDecimal semantics).
+ * - ROUND_DOWN: towards zero
+ * - ROUND_UP: away from zero
+ * - ROUND_HALF_UP: to nearest, ties away from zero
+ */
+export type RoundingMode = 'ROUND_DOWN' | 'ROUND_UP' | 'ROUND_HALF_UP';
+
+const BIG_ZERO = BigInt(0);
+const BIG_ONE = BigInt(1);
+const BIG_TWO = BigInt(2);
+const BIG_FIVE = BigInt(5);
+const BIG_TEN = BigInt(10);
+
+/**
+ * Fractional digits used when a division without explicit scale does not
+ * terminate. Java would throw here; the PAP never relies on that case.
+ */
+const NON_TERMINATING_SCALE = 34;
+
+function pow10(exponent: number): bigint {
+  return BIG_TEN ** BigInt(exponent);
+}
+
+function abs(value: bigint): bigint {
+  return value < BIG_ZERO ? -value : value;
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+  let x = abs(a);
+  let y = abs(b);
+  while (y !== BIG_ZERO) {
+    [x, y] = [y, x % y];
+  }
+  return x;
+}
+
+/**
+ * Integer division of numerator / denominator with the given rounding mode.
+ */
+function divideRounded(numerator: bigint, denominator: bigint, roundingMode: RoundingMode): bigint {
+  const quotient = numerator / denominator; // BigInt division truncates towards zero
+  const remainder = numerator % denominator;
+  if (remainder === BIG_ZERO) return quotient;
+
+  const sign = (numerator < BIG_ZERO) !== (denominator < BIG_ZERO) ? -BIG_ONE : BIG_ONE;
+
+  switch (roundingMode) {
+    case 'ROUND_DOWN':
+      return quotient;
+    case 'ROUND_UP':
+      return quotient + sign;
+    case 'ROUND_HALF_UP':
+      return abs(remainder) * BIG_TWO >= abs(denominator) ? quotient + sign : quotient;
+  }
+}
+
+/**
+ * Arbitrary-precision decimal mimicking Java BigDecimal as required by BMF XML logic.
+ * A value is stored as an unscaled integer plus a scale (value = unscaled / 10^scale),
+ * so add/subtract/multiply are exact and rounding only happens where the PAP says so
+ * (divide with scale, setScale). This keeps results identical to the official BMF
+ * calculator down to the cent.
  */
 export class Big {
-  private value: number;
+  private unscaled: bigint;
+  private scale: number;
 
-  constructor(value: number | Big) {
+  constructor(value: number | string | Big) {
     if (value instanceof Big) {
-      this.value = value.value;
-    } else {
-      this.value = value;
+      this.unscaled = value.unscaled;
+      this.scale = value.scale;
+      return;
     }
+
+    const parsed = Big.parse(value);
+    this.unscaled = parsed.unscaled;
+    this.scale = parsed.scale;
   }
 
-  static of(value: number): Big {
+  /**
+   * Numbers are converted via their shortest decimal representation
+   * (like BigDecimal.valueOf(double)), so Big.of(0.0025) is exactly 0.0025.
+   */
+  static of(value: number | string): Big {
     return new Big(value);
   }
 
@@ -25,60 +94,136 @@ export class Big {
     return new Big(1);
   }
 
+  private static fromUnscaled(unscaled: bigint, scale: number): Big {
+    if (scale < 0) {
+      return Big.fromUnscaled(unscaled * pow10(-scale), 0);
+    }
+    const result = new Big(0);
+    result.unscaled = unscaled;
+    result.scale = scale;
+    return result;
+  }
+
+  private static parse(value: number | string): { unscaled: bigint; scale: number } {
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error(`Big: cannot represent ${value}`);
+    }
+
+    const text = String(value).trim();
+    const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(text);
+    if (!match || (match[2] === '' && (match[3] ?? '') === '')) {
+      throw new Error(`Big: invalid decimal "${text}"`);
+    }
+
+    const [, sign, intPart, fracPart = '', exponentPart] = match;
+    const exponent = exponentPart ? parseInt(exponentPart, 10) : 0;
+    let unscaled = BigInt(`${intPart || '0'}${fracPart}`);
+    let scale = fracPart.length - exponent;
+
+    if (scale < 0) {
+      unscaled *= pow10(-scale);
+      scale = 0;
+    }
+
+    return { unscaled: sign === '-' ? -unscaled : unscaled, scale };
+  }
+
+  private static toBig(value: Big | number): Big {
+    return value instanceof Big ? value : new Big(value);
+  }
+
+  /** Returns the unscaled value of this number rescaled (exactly) to the given scale */
+  private unscaledAt(scale: number): bigint {
+    return this.unscaled * pow10(scale - this.scale);
+  }
+
   add(other: Big | number): Big {
-    const val = other instanceof Big ? other.value : other;
-    return new Big(this.value + val);
+    const val = Big.toBig(other);
+    const scale = Math.max(this.scale, val.scale);
+    return Big.fromUnscaled(this.unscaledAt(scale) + val.unscaledAt(scale), scale);
   }
 
   subtract(other: Big | number): Big {
-    const val = other instanceof Big ? other.value : other;
-    return new Big(this.value - val);
+    const val = Big.toBig(other);
+    const scale = Math.max(this.scale, val.scale);
+    return Big.fromUnscaled(this.unscaledAt(scale) - val.unscaledAt(scale), scale);
   }
 
   multiply(other: Big | number): Big {
-    const val = other instanceof Big ? other.value : other;
-    return new Big(this.value * val);
+    const val = Big.toBig(other);
+    return Big.fromUnscaled(this.unscaled * val.unscaled, this.scale + val.scale);
   }
 
-  divide(other: Big | number, scale?: number, roundingMode?: 'ROUND_DOWN' | 'ROUND_UP'): Big {
-    const val = other instanceof Big ? other.value : other;
-    if (val === 0) return new Big(0); // Safety check, though generally shouldn't happen in tax logic logic usually checks before
-    let result = this.value / val;
-    
+  /**
+   * Without scale the quotient is exact (scale grows as needed, like BigDecimal.divide(BigDecimal)).
+   * With scale the quotient is rounded to that many fractional digits (default ROUND_HALF_UP).
+   */
+  divide(other: Big | number, scale?: number, roundingMode?: RoundingMode): Big {
+    const val = Big.toBig(other);
+    if (val.unscaled === BIG_ZERO) return Big.ZERO; // Safety check, though generally shouldn't happen in tax logic logic usually checks before
+
     if (scale !== undefined) {
-      return new Big(this.round(result, scale, roundingMode));
+      return this.divideToScale(val, scale, roundingMode ?? 'ROUND_HALF_UP');
+    }
+
+    // Exact quotient: reduce the fraction and check the denominator only has factors 2 and 5
+    const divisor = gcd(this.unscaled, val.unscaled) || BIG_ONE;
+    let denominator = abs(val.unscaled / divisor);
+    let twos = 0;
+    let fives = 0;
+    while (denominator % BIG_TWO === BIG_ZERO) {
+      denominator /= BIG_TWO;
+      twos++;
+    }
+    while (denominator % BIG_FIVE === BIG_ZERO) {
+      denominator /= BIG_FIVE;
+      fives++;
+    }
+
+    const preferredScale = this.scale - val.scale;
+    if (denominator !== BIG_ONE) {
+      return this.divideToScale(val, Math.max(preferredScale, 0) + NON_TERMINATING_SCALE, 'ROUND_HALF_UP');
     }
-    return new Big(result);
+    return this.divideToScale(val, Math.max(preferredScale + Math.max(twos, fives), 0), 'ROUND_DOWN');
   }
 
-  setScale(scale: number, roundingMode: 'ROUND_DOWN' | 'ROUND_UP'): Big {
-    return new Big(this.round(this.value, scale, roundingMode));
+  setScale(scale: number, roundingMode: RoundingMode): Big {
+    if (scale >= this.scale) {
+      return Big.fromUnscaled(this.unscaledAt(scale), scale);
+    }
+    return Big.fromUnscaled(divideRounded(this.unscaled, pow10(this.scale - scale), roundingMode), scale);
   }
 
   compareTo(other: Big | number): number {
-    const val = other instanceof Big ? other.value : other;
-    if (this.value < val) return -1;
-    if (this.value > val) return 1;
+    const val = Big.toBig(other);
+    const scale = Math.max(this.scale, val.scale);
+    const left = this.unscaledAt(scale);
+    const right = val.unscaledAt(scale);
+    if (left < right) return -1;
+    if (left > right) return 1;
     return 0;
   }
 
   toNumber(): number {
-    return this.value;
+    return Number(this.toString());
   }
 
   longValue(): number {
-    return Math.trunc(this.value);
-  }
-
-  private round(value: number, scale: number, roundingMode?: 'ROUND_DOWN' | 'ROUND_UP'): number {
-    const factor = Math.pow(10, scale);
-    if (roundingMode === 'ROUND_DOWN') {
-      return Math.floor(value * factor) / factor;
-    } else if (roundingMode === 'ROUND_UP') {
-      return Math.ceil(value * factor) / factor;
-    } else {
-      // Default standard round if not specified (though BMF usually specifies)
-      return Math.round(value * factor) / factor;
-    }
+    return Number(this.unscaled / pow10(this.scale));
+  }
+
+  toString(): string {
+    const digits = abs(this.unscaled).toString().padStart(this.scale + 1, '0');
+    const sign = this.unscaled < BIG_ZERO ? '-' : '';
+    if (this.scale === 0) return `${sign}${digits}`;
+    return `${sign}${digits.slice(0, -this.scale)}.${digits.slice(-this.scale)}`;
+  }
+
+  private divideToScale(other: Big, scale: number, roundingMode: RoundingMode): Big {
+    // (a / 10^sa) / (b / 10^sb) at scale s  =>  a * 10^(s + sb - sa) / b
+    const shift = scale + other.scale - this.scale;
+    const numerator = shift >= 0 ? this.unscaled * pow10(shift) : this.unscaled;
+    const denominator = shift >= 0 ? other.unscaled : other.unscaled * pow10(-shift);
+    return Big.fromUnscaled(divideRounded(numerator, denominator, roundingMode), scale);
   }
 }
@@ -1,47 +1,98 @@
-import { Lohnsteuer2025 } from './Lohnsteuer2025';
-import { Lohnsteuer2026 } from './Lohnsteuer2026';
-import { SalaryInput, TaxInput, TaxResult, TaxOutput, TaxResultWithAllowances } from './types';
+import { approximateTaxableIncome, calculateChurchTax, getChurchTaxRate } from './Kirchensteuer';
+import { getLohnsteuerCalculator } from './LohnsteuerRegistry';
+import { getSocialInsuranceParameters, SocialInsuranceParameters } from './SozialversicherungRegistry';
+import { calculateFaktor, estimateZveFromLohnsteuer } from './Faktorverfahren';
+import { getTaxableEmployerUmlage } from './Zusatzversorgung';
+import { EntgeltumwandlungSplit, splitEntgeltumwandlung } from './Entgeltumwandlung';
+import { AllowanceSplit, EmployerCost, EmployerCostOptions, EmploymentType, GrossForNettoResult, MonthlyPayslip, MonthlyProjectionOptions, SalaryInput, SonstigerBezug, TaxClassComparison, TaxClassOption, TaxInput, TaxOutput, TaxResult, TaxResultWithAllowances } from './types';
 import { Big } from './TaxUtils';
 
 export class TaxWrapper {
   public calculate(input: SalaryInput): TaxResult {
     const year = input.year;
+
+    // Payments spread across the year are laufender Arbeitslohn, only one-off payments are sonstige Bezüge
+    const instalments = (input.sonstigeBezuege ?? []).filter(payment => payment.month === undefined);
+    if (instalments.length > 0) {
+      return this.calculate({
+        ...input,
+        yearlySalary: input.yearlySalary + instalments.reduce((sum, payment) => sum + payment.amount, 0),
+        sonstigeBezuege: input.sonstigeBezuege!.filter(payment => payment.month !== undefined),
+      });
+    }
     
     // 1. Map User Input to BMF Input
     const taxInput = this.mapInput(input);
-    
-    // 2. Calculate Tax
-    let taxOutput: TaxOutput;
-    
-    if (year >= 2026) {
-      const calculator = new Lohnsteuer2026();
-      taxOutput = calculator.calculate(taxInput);
-    } else {
-      // Default to 2025 for now (or fallback)
-      const calculator = new Lohnsteuer2025();
-      taxOutput = calculator.calculate(taxInput);
+
+    // Sonstige Bezüge: JRE4 is the Jahresarbeitslohn without them (LZZ=1, so RE4)
+    const oneOffPayments = input.sonstigeBezuege ?? [];
+    const oneOffTotal = oneOffPayments.reduce((sum, payment) => sum + payment.amount, 0);
+    if (oneOffTotal > 0) {
+      taxInput.JRE4 = taxInput.RE4;
+      taxInput.SONSTB = Math.round(oneOffTotal * 100);
     }
     
+    // 2. Calculate Tax (PAP class for the year, see LohnsteuerRegistry)
+    const taxOutput = getLohnsteuerCalculator(year).calculate(taxInput);
+    
     // 3. Calculate Social Security (independent of Tax logic, but standard rates)
     // Note: BMF calculates deductible parts (Vorsorgepauschale), but for Netto we need actual deductions.
-    const socialSecurity = this.calculateSocialSecurity(input);
+    const params = getSocialInsuranceParameters(year);
+    const gross = input.yearlySalary / 12; // Monthly gross for result
+    const employmentType = this.getEmploymentType(gross, params);
+    const socialSecurity = this.calculateSocialSecurity(input, params, employmentType);
+    // Employee share of the Zusatzversorgung is paid from the taxed pay
+    const zusatzversorgung = this.getEmployeeZusatzversorgung(input, gross, employmentType);
     
     // 4. Calculate Netto
     // Netto = Gross - Taxes - SocialSecurity
-    const gross = input.yearlySalary / 12; // Monthly gross for result
-    const taxes = {
-      lohnsteuer: taxOutput.LSTLZZ / 100 / 12, // cents to Euro, yearly to monthly
-      soli: taxOutput.SOLZLZZ / 100 / 12,
-      kirchensteuer: taxOutput.BK / 100 / 12,
-    };
+    const totalSocial = socialSecurity.kv + socialSecurity.rv + socialSecurity.av + socialSecurity.pv;
+
+    // BK is the church tax base (Bemessungsgrundlage), not the church tax itself
+    const kirchensteuer = input.churchTax === 'none'
+      ? 0
+      : calculateChurchTax(
+          taxOutput.BK / 100,
+          input.churchTax,
+          input.bundesland,
+          approximateTaxableIncome(input.yearlySalary, totalSocial * 12),
+          taxInput.ZKF ?? 0,
+          year
+        );
+
+    // Minijobs are taxed with the flat 2% Pauschsteuer, which the employer pays
+    const taxes = employmentType === 'minijob'
+      ? { lohnsteuer: 0, soli: 0, kirchensteuer: 0 }
+      : {
+          lohnsteuer: taxOutput.LSTLZZ / 100 / 12, // cents to Euro, yearly to monthly
+          soli: taxOutput.SOLZLZZ / 100 / 12,
+          kirchensteuer: kirchensteuer / 12,
+        };
     
     const totalTax = taxes.lohnsteuer + taxes.soli + taxes.kirchensteuer;
-    const totalSocial = socialSecurity.kv + socialSecurity.rv + socialSecurity.av + socialSecurity.pv;
     
-    const netto = gross - totalTax - totalSocial;
+    // PKV: the employee pays the premium, the employer subsidy is paid out tax-free (§3 Nr. 62 EStG)
+    const privateHealthInsurance = input.isPrivateHealthInsurance
+      ? {
+          premium: input.privateHealthInsurancePremium ?? 0,
+          employerSubsidy: this.calculatePkvEmployerSubsidy(input, params),
+        }
+      : undefined;
+    
+    // Entgeltumwandlung: the whole converted amount goes into the contract, the limits only
+    // decide how much of it reduces taxes and contributions (see mapInput, calculateSocialSecurity)
+    const entgeltumwandlung = this.getEntgeltumwandlung(input, params);
+
+    const netto = gross - totalTax - totalSocial - zusatzversorgung - (entgeltumwandlung?.amount ?? 0)
+      - (privateHealthInsurance?.premium ?? 0) + (privateHealthInsurance?.employerSubsidy ?? 0);
+
+    const sonstigeBezuege = oneOffTotal > 0
+      ? this.calculateSonstigeBezuege(input, oneOffPayments, taxOutput, params, employmentType, totalSocial)
+      : undefined;
     
     return {
       netto: this.round(netto),
+      employmentType,
       taxes: {
         lohnsteuer: this.round(taxes.lohnsteuer),
         soli: this.round(taxes.soli),
@@ -52,11 +103,68 @@ export class TaxWrapper {
         rv: this.round(socialSecurity.rv),
         av: this.round(socialSecurity.av),
         pv: this.round(socialSecurity.pv),
+        ...(zusatzversorgung > 0 && { zusatzversorgung: this.round(zusatzversorgung) }),
       },
+      ...(privateHealthInsurance && {
+        privateHealthInsurance: {
+          premium: this.round(privateHealthInsurance.premium),
+          employerSubsidy: this.round(privateHealthInsurance.employerSubsidy),
+        },
+      }),
+      ...(entgeltumwandlung && {
+        entgeltumwandlung: {
+          amount: this.round(entgeltumwandlung.amount),
+          employerSubsidy: this.round(entgeltumwandlung.employerSubsidy),
+          contribution: this.round(entgeltumwandlung.amount + entgeltumwandlung.employerSubsidy),
+          taxFree: this.round(entgeltumwandlung.taxFree),
+          svFree: this.round(entgeltumwandlung.svFree),
+        },
+      }),
+      ...(sonstigeBezuege && { sonstigeBezuege }),
+    };
+  }
+
+  /**
+   * Deductions on one-off payments (yearly amounts): taxes from the PAP's sonstige-Bezüge
+   * path (STS, SOLZS, BKS), social contributions as the extra the payment causes within the Jahres-BBG.
+   */
+  private calculateSonstigeBezuege(
+    input: SalaryInput,
+    payments: SonstigerBezug[],
+    taxOutput: TaxOutput,
+    params: SocialInsuranceParameters,
+    employmentType: EmploymentType,
+    monthlySocial: number
+  ): NonNullable<TaxResult['sonstigeBezuege']> {
+    const gross = payments.reduce((sum, payment) => sum + payment.amount, 0);
+
+    const withPayments = this.calculateSocialSecurity({ ...input, yearlySalary: input.yearlySalary + gross }, params, employmentType);
+    const socialSecurity = (withPayments.kv + withPayments.rv + withPayments.av + withPayments.pv - monthlySocial) * 12
+      + this.getEmployeeZusatzversorgung(input, gross, employmentType);
+
+    // Minijobs: the employer's Pauschsteuer covers the whole pay
+    const taxes = employmentType === 'minijob'
+      ? { lohnsteuer: 0, soli: 0, kirchensteuer: 0 }
+      : {
+          lohnsteuer: taxOutput.STS / 100,
+          soli: taxOutput.SOLZS / 100,
+          kirchensteuer: input.churchTax === 'none' ? 0 : taxOutput.BKS / 100 * getChurchTaxRate(input.churchTax),
+        };
+
+    return {
+      payments,
+      gross: this.round(gross),
+      lohnsteuer: this.round(taxes.lohnsteuer),
+      soli: this.round(taxes.soli),
+      kirchensteuer: this.round(taxes.kirchensteuer),
+      socialSecurity: this.round(socialSecurity),
+      netto: this.round(gross - taxes.lohnsteuer - taxes.soli - taxes.kirchensteuer - socialSecurity),
     };
   }
   
   private mapInput(input: SalaryInput): TaxInput {
+    const params = getSocialInsuranceParameters(input.year);
+
     // Basic mapping
     const bmfInput: TaxInput = {};
     
@@ -64,50 +172,35 @@ export class TaxWrapper {
     // Wait, BMF logic `MRE4JL` handles LZZ (1=Year, 2=Month).
     // If input.yearlySalary is given, we can set LZZ=1 and RE4=yearlySalary * 100.
     bmfInput.LZZ = 1;
-    bmfInput.RE4 = input.yearlySalary * 100; // Cents
+    bmfInput.RE4 = (input.yearlySalary
+      + this.getTaxableEmployerUmlage(input, input.yearlySalary / 12, params) * 12
+      - (this.getEntgeltumwandlung(input, params)?.taxFree ?? 0) * 12) * 100; // Cents
     
     bmfInput.STKL = input.taxClass;
     
-    // Children
-    if (input.hasChildren && input.childCount > 0) {
-      bmfInput.ZKF = input.childCount; // simplified, usually 0.5 or 1.0 but input says childCount
-      // Note: ZKF in BMF is "Zahl der Kinderfreibeträge" (e.g. 0.5, 1.0).
-      // If user enters "1 child", typically it's 1.0 for StKl 3/4? or 0.5 for separate?
-      // Assuming straightforward mapping for now: 1 child = 1.0
-      // Actually standard is 1.0 per child for married jointly, 0.5 for single?
-      // Let's use direct mapping for now, refine if needed.
-    } else {
-      bmfInput.ZKF = 0;
-    }
+    // Children: ZKF is the "Zahl der Kinderfreibeträge" (only affects Soli and church tax).
+    // PVZ/PVA below depend on the number of children, not on ZKF.
+    bmfInput.ZKF = this.getKinderfreibetragCount(input);
     
     // Church Tax
+    // R=1 makes the PAP return the church tax base (BK); the rate (8%/9%) and
+    // the Kappung are applied in calculate(), see Kirchensteuer.ts
     if (input.churchTax !== 'none') {
-      bmfInput.R = 1; // 1 = Church Tax applicable
-      // Note: The specific rate (8% or 9%) is often logic internal or via tables,
-      // but BMF inputs just R=1/0 usually.
-      // Wait, BMF doesn't calculate KiSt amount fully? 
-      // It calculates `BK` (Kirchensteuer Lohnsteuer).
-      // Rate is usually fixed in logic or defaults?
-      // In Lohnsteuer2025/26: `MSOLZ` checks `R > 0`.
-      // `BK = ANTEIL1`. `JW` is `JBMG * 100`? No.
-      // `JW = JBMG * ?`. Wait.
-      // In MSOLZ: `If R > 0`. `JW = JBMG * ZAHL100`. No.
-      // Actually KiSt is usually 9% of Lohnsteuer.
-      // BMF calculator logic usually assumes standard (9%?).
-      // If Bayern/BW (8%), parameter might differ?
-      // XML 2025: `MSOLZ` -> `BK = ANTEIL1`.
+      bmfInput.R = 1;
     } else {
       bmfInput.R = 0;
     }
     
     // Health Insurance Add-on (KVZ)
-    bmfInput.KVZ = input.healthInsuranceAddOn;
+    bmfInput.KVZ = this.getZusatzbeitrag(input, params);
     
     // Private Insurance
     if (input.isPrivateHealthInsurance) {
-        bmfInput.PKV = 1; // Or 2 with Zuschuss?
-        // Basic private
-        bmfInput.STKL = input.taxClass; // Keep StKl
+        // PKV=2: with employer subsidy (PAP 2025 derives it itself, PAP 2026 takes PKPVAGZ)
+        const subsidy = this.calculatePkvEmployerSubsidy(input, params);
+        bmfInput.PKV = subsidy > 0 ? 2 : 1;
+        bmfInput.PKPV = Math.round((input.privateHealthInsurancePremium ?? 0) * 100); // Monthly amount in cents
+        bmfInput.PKPVAGZ = Math.round(subsidy * 100);
     } else {
         bmfInput.KRV = 0; // Gesetzlich
         bmfInput.PKV = 0;
@@ -125,36 +218,18 @@ export class TaxWrapper {
         bmfInput.PVS = 1;
     }
     
-    // PVZ (Childless supplement)
-    // 2025/2026: If > 23 years old and no children?
-    // Checks birthYear.
-    if (!input.hasChildren) {
-       // Check age if birthYear provided.
-       // Default strict: If no children, assume liable for surcharge if age appropriate?
-       // Simplification: Set PVZ=1 if no children.
-       bmfInput.PVZ = 1;
+    // PVZ (Childless supplement) / PVA (discount for children 2-5)
+    bmfInput.PVZ = this.hasChildlessSurcharge(input, params) ? 1 : 0;
+    bmfInput.PVA = this.getDiscountedChildren(input, params);
+    
+    // Faktorverfahren (§39f EStG), only in Steuerklasse IV
+    if (input.taxClass === 4 && input.taxFactor !== undefined) {
+        bmfInput.af = 1;
+        bmfInput.f = input.taxFactor;
     } else {
-       bmfInput.PVZ = 0;
-       // PVA for multiple children (2025/26 logic)
-       if (input.childCount > 1) {
-          // PVA logic... deduction for children 2-5
-          // 2025/26 support this?
-          // XML 2026: PVA inputs logic.
-          // Simplification: Map PVA = childCount.
-          // Wait, PVA is "Anzahl Beitragsabschläge" (0, 1, 2, ...).
-          // Max 4?
-          // For childCount=2 -> PVA=1?
-          // For childCount=3 -> PVA=2?
-          // Logic: Max(0, Min(4, childCount - 1))?
-          // Verify with BMF logic or assume 0 for MVP.
-          const discountableChildren = Math.max(0, Math.min(4, input.childCount - 1));
-          bmfInput.PVA = discountableChildren;
-       }
+        bmfInput.af = 0;
     }
     
-    // Additional Factors
-    bmfInput.af = 1; // Factor method
-    
     // Alter?
     if (input.birthYear) {
         const age = input.year - input.birthYear;
@@ -169,111 +244,429 @@ export class TaxWrapper {
     return bmfInput;
   }
   
-  private calculateSocialSecurity(input: SalaryInput) {
-    // Monthly Calculation
-    const gross = input.yearlySalary / 12;
-    
-    // Rates 2025 (Approx / Standard)
-    // RV: 18.6% (9.3% AN)
-    // AV: 2.6% (1.3% AN)
-    // KV: 14.6% + AddOn (7.3% + AddOn/2 AN)
-    // PV: 3.4% (1.7% AN) + Childless 0.6%? + Sachsen?
-    
-    // BBG 2025
-    // RV/AV West: 7550, East: 7450 (Monthly) -> 2024 values? 2025 likely higher (96600/yr -> 8050/mo West?)
-    // Using BMF Constants as reference:
-    // 2025 BBGRV = 96600 (West) => 8050/mo.
-    // 2026 BBGRV = 101400 (West) => 8450/mo.
-    // KV/PV BBG 2025 = 62100 => 5175/mo (Wait, BMF 2025: BBGKVPV=66150 => 5512.50)
-    
-    const year = input.year;
-    let BBG_RV = 0;
-    let BBG_KV = 0;
-    
-    if (year === 2026) {
-        BBG_RV = 101400 / 12;
-        BBG_KV = 69750 / 12;
-    } else {
-        BBG_RV = 96600 / 12;
-        BBG_KV = 66150 / 12;
+  /**
+   * Month-by-month projection of a year, like the payslips: runs the PAP per month (LZZ=2)
+   * with that month's regular gross. Sonstige Bezüge are taxed against the cumulative
+   * Jahresarbeitslohn (JRE4 = regular pay of the year plus earlier sonstige Bezüge),
+   * social contributions are capped by the cumulative (anteilige) Jahres-BBG.
+   *
+   * @param input - Salary input; yearlySalary / 12 is the regular gross of January
+   * @param options - Mid-year salary changes, special payments and tax-free amounts
+   * @returns Twelve payslips, January to December
+   */
+  public calculateMonthlyProjection(input: SalaryInput, options: MonthlyProjectionOptions = {}): MonthlyPayslip[] {
+    const params = getSocialInsuranceParameters(input.year);
+    const calculator = getLohnsteuerCalculator(input.year);
+    const months = Array.from({ length: 12 }, (_, i) => i + 1);
+    const changes = [...(options.salaryChanges ?? [])].sort((a, b) => a.fromMonth - b.fromMonth);
+
+    // Sonstige Bezüge of the input: one-off payments in their month, instalments on every month
+    const specialPayments = [
+      ...(options.specialPayments ?? []),
+      ...(input.sonstigeBezuege ?? [])
+        .filter(payment => payment.month !== undefined)
+        .map(payment => ({ month: payment.month!, amount: payment.amount, label: payment.label })),
+    ];
+    const instalments = (input.sonstigeBezuege ?? [])
+      .filter(payment => payment.month === undefined)
+      .reduce((sum, payment) => sum + payment.amount / 12, 0);
+
+    const regularGross = months.map(month =>
+      changes.filter(change => change.fromMonth <= month)
+        .reduce((gross, change) => change.monthlyGross, input.yearlySalary / 12) + instalments
+    );
+
+    // Laufender Arbeitslohn for the PAP (RE4) per month; the Jahresarbeitslohn JRE4 of a special payment is built from it
+    const entgeltumwandlung = this.getEntgeltumwandlung(input, params);
+    const regularRe4 = regularGross.map(gross =>
+      gross + this.getTaxableEmployerUmlage(input, gross, params) - (entgeltumwandlung?.taxFree ?? 0)
+    );
+    const yearlyRegularRe4 = regularRe4.reduce((sum, re4) => sum + re4, 0);
+
+    let earlierSpecialPayments = 0;
+    let usedBbgRv = 0;
+    let usedBbgKv = 0;
+
+    return months.map((month, i) => {
+      const gross = regularGross[i];
+      const payments = specialPayments.filter(payment => payment.month === month);
+      const special = payments.reduce((sum, payment) => sum + payment.amount, 0);
+
+      const monthInput = { ...input, yearlySalary: gross * 12, sonstigeBezuege: undefined };
+      const employmentType = this.getEmploymentType(gross, params);
+
+      // Tax: monthly LZZ, sonstige Bezüge with the cumulative Jahresarbeitslohn
+      const taxInput: TaxInput = {
+        ...this.mapInput(monthInput),
+        LZZ: 2,
+        RE4: Math.round(regularRe4[i] * 100),
+      };
+      if (special > 0) {
+        taxInput.JRE4 = Math.round((yearlyRegularRe4 + earlierSpecialPayments) * 100);
+        taxInput.SONSTB = Math.round(special * 100);
+      }
+      const taxOutput = calculator.calculate(taxInput);
+
+      // Social security: the cumulative BBG lets a special payment use up what regular months left over
+      const regularSocial = this.calculateSocialSecurity(monthInput, params, employmentType);
+      let social: number;
+      if (employmentType === 'regular') {
+        const rates = this.getEmployeeRates(monthInput, params);
+        const svGross = gross + special - (entgeltumwandlung?.svFree ?? 0) + (input.svLiableAllowances ?? 0);
+        const baseRv = Math.max(0, Math.min(svGross, params.bbgRv * month / 12 - usedBbgRv));
+        const baseKv = Math.max(0, Math.min(svGross, params.bbgKvPv * month / 12 - usedBbgKv));
+        usedBbgRv += baseRv;
+        usedBbgKv += baseKv;
+        social = baseRv * (rates.rv + rates.av) + baseKv * (rates.kv + rates.pv);
+      } else {
+        const withSpecial = { ...monthInput, yearlySalary: (gross + special) * 12 };
+        const contributions = this.calculateSocialSecurity(withSpecial, params, this.getEmploymentType(gross + special, params));
+        social = contributions.kv + contributions.rv + contributions.av + contributions.pv;
+      }
+
+      const taxes = { lohnsteuer: 0, soli: 0, kirchensteuer: 0 };
+      if (employmentType !== 'minijob') {
+        taxes.lohnsteuer = (taxOutput.LSTLZZ + taxOutput.STS) / 100;
+        taxes.soli = (taxOutput.SOLZLZZ + taxOutput.SOLZS) / 100;
+        if (input.churchTax !== 'none') {
+          const regularSocialTotal = regularSocial.kv + regularSocial.rv + regularSocial.av + regularSocial.pv;
+          taxes.kirchensteuer = calculateChurchTax(
+            taxOutput.BK / 100 * 12,
+            input.churchTax,
+            input.bundesland,
+            approximateTaxableIncome(gross * 12, regularSocialTotal * 12),
+            taxInput.ZKF ?? 0,
+            input.year
+          ) / 12 + taxOutput.BKS / 100 * getChurchTaxRate(input.churchTax);
+        }
+      }
+
+      const pkvBalance = input.isPrivateHealthInsurance
+        ? (input.privateHealthInsurancePremium ?? 0) - this.calculatePkvEmployerSubsidy(monthInput, params)
+        : 0;
+
+      social += this.getEmployeeZusatzversorgung(input, gross + special, employmentType);
+
+      const netto = gross + special - taxes.lohnsteuer - taxes.soli - taxes.kirchensteuer - social
+        - (entgeltumwandlung?.amount ?? 0) - pkvBalance + (options.taxFreeMonthly ?? 0);
+
+      const notes = [
+        ...(i > 0 && gross !== regularGross[i - 1]
+          ? changes.filter(change => change.fromMonth === month).map(change => change.reason)
+          : []),
+        ...payments.map(payment => payment.label),
+      ];
+
+      earlierSpecialPayments += special;
+
+      return {
+        month,
+        regularGross: this.round(gross),
+        specialPayment: this.round(special),
+        lohnsteuer: this.round(taxes.lohnsteuer),
+        soli: this.round(taxes.soli),
+        kirchensteuer: this.round(taxes.kirchensteuer),
+        socialSecurity: this.round(social),
+        netto: this.round(netto),
+        notes,
+      };
+    });
+  }
+
+  /**
+   * Reverse calculation: the monthly gross needed for a target monthly net.
+   * Bisects the gross with calculate()/calculateWithAllowances() until the net is reached to the cent;
+   * allowances stay fixed (they depend on shifts, not on the base salary).
+   *
+   * @param baseSalaryInput - Tax settings of the user (yearlySalary is ignored)
+   * @param targetNetto - Monthly net in Euro (incl. tax-free allowances, if given)
+   * @param allowances - Optional monthly allowances, as in calculateWithAllowances()
+   * @returns Lowest monthly gross (to the cent) with a net of at least targetNetto
+   */
+  public calculateGrossForNetto(
+    baseSalaryInput: SalaryInput,
+    targetNetto: number,
+    allowances?: AllowanceSplit
+  ): GrossForNettoResult {
+    const calculateAt = (monthlyGross: number) => {
+      const input = { ...baseSalaryInput, yearlySalary: monthlyGross * 12 };
+      if (allowances) {
+        const result = this.calculateWithAllowances(input, allowances);
+        return { result, netto: result.nettoWithAllowances };
+      }
+      const result = this.calculate(input);
+      return { result, netto: result.netto };
+    };
+
+    // Net is never more than the gross (plus tax-free allowances), so the target is a lower bound
+    const MAX_MONTHLY_GROSS = 50000;
+    let high = Math.max(targetNetto, 1);
+    while (calculateAt(high).netto < targetNetto && high < MAX_MONTHLY_GROSS) {
+      high = Math.min(high * 2, MAX_MONTHLY_GROSS);
     }
-    
-    // Adjust for East if needed (West assumed default in BMF constants usually, but wrapper has 'state')
-    if (input.state === 'east' || input.state === 'sachsen') {
-        // BBG RV usually lower in East.
-        // BMF XML doesn't explicitly switch BBG based on state input alone, usually different XML or params?
-        // Note: KRV parameter in XML handles BBG logic?
-        // Simplification: Use West values or slight adjustment if needed.
+
+    const reachable = calculateAt(high).netto >= targetNetto;
+
+    // Bisect in cents
+    let lowCents = 0;
+    let highCents = Math.round(high * 100);
+    while (reachable && highCents - lowCents > 1) {
+      const mid = Math.floor((lowCents + highCents) / 2);
+      if (calculateAt(mid / 100).netto >= targetNetto) {
+        highCents = mid;
+      } else {
+        lowCents = mid;
+      }
     }
-    
-    const relevantGrossRV = Math.min(gross, BBG_RV);
-    const relevantGrossKV = Math.min(gross, BBG_KV);
-    
-    // Rates
-    const rvRate = 0.093; // 9.3%
-    const avRate = 0.013; // 1.3%
-    
-    let kvRate = 0.073; // 7.3%
-    if (input.healthInsuranceAddOn) {
-        kvRate += (input.healthInsuranceAddOn / 100) / 2;
+
+    const monthlyGross = highCents / 100;
+    const { result, netto } = calculateAt(monthlyGross);
+
+    return { monthlyGross, netto, reachable, result };
+  }
+
+  /**
+   * Compare the Steuerklassen combinations of a married couple (III/V, V/III, IV/IV, IV/IV mit Faktor).
+   * The spouse is calculated with the user's other settings (church tax, children, state),
+   * but without the user's insurance, employer and pay details (PKV, Zusatzversorgung, Entgeltumwandlung, ...).
+   *
+   * @param input - The user's salary input
+   * @param partnerYearlySalary - Yearly gross of the spouse in Euro
+   * @returns Monthly nets per combination and the one with the highest combined net
+   */
+  public compareTaxClasses(input: SalaryInput, partnerYearlySalary: number): TaxClassComparison {
+    const partnerInput: SalaryInput = {
+      ...input,
+      yearlySalary: partnerYearlySalary,
+      // The user's premium and Kasse say nothing about the spouse's insurance
+      isPrivateHealthInsurance: false,
+      privateHealthInsurancePremium: undefined,
+      healthInsuranceAddOn: undefined,
+      sonstigeBezuege: undefined,
+      svLiableAllowances: undefined,
+      // Nor do the user's employer and bAV contract
+      zusatzversorgung: undefined,
+      entgeltumwandlung: undefined,
+    };
+
+    const option = (
+      label: TaxClassOption['label'],
+      taxClass: number,
+      partnerTaxClass: number,
+      factor?: number
+    ): TaxClassOption => {
+      const netto = this.calculate({ ...input, taxClass, taxFactor: factor }).netto;
+      const partnerNetto = this.calculate({ ...partnerInput, taxClass: partnerTaxClass, taxFactor: factor }).netto;
+      return {
+        label,
+        taxClass,
+        partnerTaxClass,
+        ...(factor !== undefined && { factor }),
+        netto,
+        partnerNetto,
+        combinedNetto: this.round(netto + partnerNetto),
+      };
+    };
+
+    const options = [
+      option('III/V', 3, 5),
+      option('V/III', 5, 3),
+      option('IV/IV', 4, 4),
+    ];
+
+    const factor = this.calculateTaxFactor(input, partnerInput);
+    if (factor !== undefined) {
+      options.push(option('IV/IV mit Faktor', 4, 4, factor));
+    }
+
+    const recommended = options.reduce((best, o) => (o.combinedNetto > best.combinedNetto ? o : best));
+
+    return { options, recommended: recommended.label };
+  }
+
+  /**
+   * Faktor for IV/IV mit Faktor: Einkommensteuer by Splittingverfahren divided by
+   * the sum of both Lohnsteuer amounts in Steuerklasse IV (see Faktorverfahren.ts)
+   */
+  private calculateTaxFactor(input: SalaryInput, partnerInput: SalaryInput): number | undefined {
+    const spouses = [input, partnerInput].map(spouse => {
+      const ivInput = { ...spouse, taxClass: 4, taxFactor: undefined };
+      const lohnsteuer = getLohnsteuerCalculator(spouse.year).calculate(this.mapInput(ivInput)).LSTLZZ / 100;
+
+      // Without Lohnsteuer the zvE is below the Grundfreibetrag; approximate it from the gross
+      const params = getSocialInsuranceParameters(spouse.year);
+      const social = this.calculateSocialSecurity(ivInput, params, this.getEmploymentType(spouse.yearlySalary / 12, params));
+      const zve = lohnsteuer > 0
+        ? estimateZveFromLohnsteuer(lohnsteuer, spouse.year)
+        : approximateTaxableIncome(spouse.yearlySalary, (social.kv + social.rv + social.av + social.pv) * 12);
+
+      return { lohnsteuer, zve };
+    });
+
+    return calculateFaktor(
+      [spouses[0].lohnsteuer, spouses[1].lohnsteuer],
+      [spouses[0].zve, spouses[1].zve],
+      input.year
+    );
+  }
+
+  /**
+   * Minijob up to the Geringfügigkeitsgrenze, Midijob in the Übergangsbereich above it
+   */
+  private getEmploymentType(monthlyGross: number, params: SocialInsuranceParameters): EmploymentType {
+    if (monthlyGross <= params.minijobLimit) return 'minijob';
+    if (monthlyGross <= params.midijobUpperLimit) return 'midijob';
+    return 'regular';
+  }
+
+  private calculateSocialSecurity(input: SalaryInput, params: SocialInsuranceParameters, employmentType: EmploymentType) {
+    // Monthly Calculation (Entgeltumwandlung within the SV-free limit is not SV-relevant,
+    // tax-free surcharges above the SV limit are)
+    const gross = input.yearlySalary / 12 - (this.getEntgeltumwandlung(input, params)?.svFree ?? 0)
+      + (input.svLiableAllowances ?? 0);
+    
+    // Minijob: the employee only tops up the employer's flat RV contribution to the full rate
+    if (employmentType === 'minijob') {
+        return {
+            rv: gross * (params.rvRate - params.minijobEmployerRvRate),
+            av: 0,
+            kv: 0,
+            pv: 0
+        };
     }
     
-    let pvRate = 0.023; // 2.3% (Childless?) -> 2025 base 3.4% -> 1.7%?
-    // Wait, PV rates changed recently.
-    // 2025: 
-    // Standard: 3.4% total. 
-    // Childless: +0.6% -> 4.0%.
-    // With Children: -0.25% per child (2-5).
+    // Midijob: the employee's contributions are based on a reduced amount
+    // (§20 Abs. 2a SGB IV), which rises from 0 at the Geringfügigkeitsgrenze to the full gross at the upper limit
+    const contributionBase = employmentType === 'midijob'
+        ? params.midijobUpperLimit / (params.midijobUpperLimit - params.minijobLimit) * (gross - params.minijobLimit)
+        : gross;
     
-    // AN Share:
-    // Usually 50% of base (1.7%) + full surcharge (0.6%).
-    // Sachsen differs (AG pays less).
+    const relevantGrossRV = Math.min(contributionBase, params.bbgRv / 12);
+    const relevantGrossKV = Math.min(contributionBase, params.bbgKvPv / 12);
     
-    // Simplification based on typical 2025 rules:
-    // Base AN: 1.7%
-    // Childless Surcharge: 0.6% (Full AN) -> Total 2.3%
-    // With children discount: -0.25% per child > 1.
+    const rates = this.getEmployeeRates(input, params);
     
-    let pvBaseAN = 0.017;
-    // Sachsen: AN pays higher share. (e.g. 2.2% vs 1.2% AG)
+    return {
+        rv: relevantGrossRV * rates.rv,
+        av: relevantGrossRV * rates.av,
+        kv: relevantGrossKV * rates.kv,
+        pv: relevantGrossKV * rates.pv
+    };
+  }
+
+  /**
+   * Monthly Entgeltumwandlung split by the tax- and SV-free limits, undefined without one
+   */
+  private getEntgeltumwandlung(input: SalaryInput, params: SocialInsuranceParameters): EntgeltumwandlungSplit | undefined {
+    if (!input.entgeltumwandlung || input.entgeltumwandlung <= 0) return undefined;
+    return splitEntgeltumwandlung(input.entgeltumwandlung, params.bbgRv);
+  }
+
+  /**
+   * Employee share of the Zusatzversorgung for a monthly gross (not for Minijobs)
+   */
+  private getEmployeeZusatzversorgung(input: SalaryInput, monthlyGross: number, employmentType: EmploymentType): number {
+    if (!input.zusatzversorgung || employmentType === 'minijob') return 0;
+    return monthlyGross * input.zusatzversorgung.employeeRate / 100;
+  }
+
+  /**
+   * Individually taxed part of the employer Umlage for a monthly gross (see Zusatzversorgung.ts)
+   */
+  private getTaxableEmployerUmlage(input: SalaryInput, monthlyGross: number, params: SocialInsuranceParameters): number {
+    if (!input.zusatzversorgung) return 0;
+    return getTaxableEmployerUmlage(input.zusatzversorgung, monthlyGross, params.bbgRv);
+  }
+
+  /**
+   * Employee contribution rates (fractions). KV/PV are 0 for PKV,
+   * the premium is paid by the employee instead (see calculate()).
+   */
+  private getEmployeeRates(input: SalaryInput, params: SocialInsuranceParameters) {
+    // Employee shares: half of the total rates
+    const rvRate = params.rvRate / 2;
+    const avRate = params.avRate / 2;
+    const kvRate = (params.kvRate + this.getZusatzbeitrag(input, params) / 100) / 2;
+    
+    // PV: half of the rate (more in Sachsen), plus the childless surcharge
+    // or minus the discount for children 2-5
+    let pvBaseAN = params.pvRate / 2;
     if (input.state === 'sachsen') {
-        pvBaseAN = 0.022; // Approx
-    }
-    
-    let pvSurcharge = 0;
-    if (!input.hasChildren) { // AND age > 23
-         pvSurcharge = 0.006;
+        pvBaseAN += params.pvSachsenEmployeeExtra;
     }
     
-    let pvDiscount = 0;
-    if (input.childCount > 1) {
-        const discountable = Math.min(4, input.childCount - 1); // 2nd, 3rd, 4th, 5th
-        pvDiscount = discountable * 0.0025;
-    }
+    const pvSurcharge = this.hasChildlessSurcharge(input, params) ? params.pvChildlessSurcharge : 0;
+    const pvDiscount = this.getDiscountedChildren(input, params) * params.pvChildDiscount;
     
     const pvRateAN = Math.max(0, pvBaseAN + pvSurcharge - pvDiscount);
     
-    if (input.isPrivateHealthInsurance) {
-        // Private: No deduction here (user pays invoice), but AG Zuschuss is paid out?
-        // Usually Net Salary includes AG Zuschuss? Or AG Zuschuss paid to insurance?
-        // "Netto" usually means what lands on account. If PKV, user pays full premium from Netto + AG Zuschuss.
-        // Simplification: Return 0 for KV/PV deductions (Self-payer).
-        return {
-            rv: relevantGrossRV * rvRate,
-            av: relevantGrossRV * avRate,
-            kv: 0,
-            pv: 0
-        };
-    }
-    
     return {
-        rv: relevantGrossRV * rvRate,
-        av: relevantGrossRV * avRate,
-        kv: relevantGrossKV * kvRate,
-        pv: relevantGrossKV * pvRateAN
+        rv: rvRate,
+        av: avRate,
+        kv: input.isPrivateHealthInsurance ? 0 : kvRate,
+        pv: input.isPrivateHealthInsurance ? 0 : pvRateAN
     };
   }
   
+  /**
+   * Employer subsidy for PKV/PPV (§257 SGB V, §61 SGB XI), monthly in Euro:
+   * half of the premium, at most the employer share a statutory insured employee
+   * would get (allgemeiner Beitragssatz + average Zusatzbeitrag, PV rate) up to the BBG.
+   * Premium is KV + PV combined, so the half-premium cap is applied to the sum.
+   */
+  private calculatePkvEmployerSubsidy(input: SalaryInput, params: SocialInsuranceParameters): number {
+    const premium = input.privateHealthInsurancePremium ?? 0;
+    const base = Math.min(input.yearlySalary, params.bbgKvPv) / 12;
+
+    const maxKv = base * (params.kvRate + params.averageZusatzbeitrag / 100) / 2;
+    let pvEmployerRate = params.pvRate / 2;
+    if (input.state === 'sachsen') {
+      pvEmployerRate -= params.pvSachsenEmployeeExtra;
+    }
+    const maxPv = base * pvEmployerRate;
+
+    return Math.min(premium / 2, maxKv + maxPv);
+  }
+
+  /**
+   * Zusatzbeitrag of the user's health insurer, or the year's average if unknown
+   */
+  private getZusatzbeitrag(input: SalaryInput, params: SocialInsuranceParameters): number {
+    return input.healthInsuranceAddOn ?? params.averageZusatzbeitrag;
+  }
+
+  /**
+   * Childless employees pay the PV surcharge from the age of 23.
+   * Without a birth year we assume the surcharge applies.
+   */
+  private hasChildlessSurcharge(input: SalaryInput, params: SocialInsuranceParameters): boolean {
+    if (input.hasChildren) return false;
+    if (input.birthYear && input.year - input.birthYear < params.pvChildlessMinAge) return false;
+    return true;
+  }
+
+  /**
+   * Zahl der Kinderfreibeträge (ZKF): 0.5 per child if the allowance is shared with
+   * the other parent, 1.0 if it is not (married couples, transferred allowance).
+   * Without an answer: 1.0 in Steuerklasse II-IV, 0.5 in Steuerklasse I.
+   * In Steuerklasse V and VI no Kinderfreibeträge are registered.
+   */
+  private getKinderfreibetragCount(input: SalaryInput): number {
+    if (!input.hasChildren || input.childCount <= 0) return 0;
+    if (input.taxClass >= 5) return 0;
+
+    const factor = input.childAllowanceFactor ?? (input.taxClass === 1 ? 0.5 : 1);
+    return input.childCount * factor;
+  }
+
+  /**
+   * Number of children with PV discount (2nd to 5th child)
+   */
+  private getDiscountedChildren(input: SalaryInput, params: SocialInsuranceParameters): number {
+    if (!input.hasChildren) return 0;
+    return Math.max(0, Math.min(params.pvMaxDiscountedChildren, input.childCount - 1));
+  }
+
   private round(curr: number): number {
     return Math.round(curr * 100) / 100;
   }
@@ -281,38 +674,172 @@ export class TaxWrapper {
   /**
    * Calculate tax with employer-specific allowances
    *
-   * This method handles the split between tax-free and taxable allowances:
+   * This method handles the three-way split of the allowances:
    * - Taxable allowances are added to the yearly salary before tax calculation
+   * - SV-liable tax-free allowances (§3b surcharges on an hourly base above 25 €) only raise the contributions
    * - Tax-free allowances (§3b EStG surcharges) are added to netto after tax
    *
    * @param baseSalaryInput - Base salary input (without allowances)
-   * @param allowances - Split into taxFree and taxable amounts (monthly)
+   * @param allowances - Split into taxFree, svLiable and taxable amounts (monthly)
    * @returns Extended tax result with allowances breakdown
    */
   public calculateWithAllowances(
     baseSalaryInput: SalaryInput,
-    allowances: { taxFree: number; taxable: number }
+    allowances: AllowanceSplit
   ): TaxResultWithAllowances {
+    const svLiable = allowances.svLiable ?? 0;
+
     // 1. Add taxable allowances to yearly salary (monthly * 12)
     const taxableYearlySalary = baseSalaryInput.yearlySalary + (allowances.taxable * 12);
 
-    // 2. Calculate taxes on the increased gross
+    // 2. Calculate taxes on the increased gross, contributions also on the SV-liable allowances
     const taxResult = this.calculate({
       ...baseSalaryInput,
-      yearlySalary: taxableYearlySalary
+      yearlySalary: taxableYearlySalary,
+      ...(svLiable > 0 && { svLiableAllowances: svLiable })
     });
 
     // 3. Add tax-free allowances to netto (these are not taxed)
-    const nettoWithAllowances = taxResult.netto + allowances.taxFree;
+    const nettoWithAllowances = taxResult.netto + allowances.taxFree + svLiable;
 
     return {
       ...taxResult,
       nettoWithAllowances: this.round(nettoWithAllowances),
       allowanceBreakdown: {
         taxFree: this.round(allowances.taxFree),
+        svLiable: this.round(svLiable),
         taxable: this.round(allowances.taxable),
-        totalMonthly: this.round(allowances.taxFree + allowances.taxable)
+        totalMonthly: this.round(allowances.taxFree + svLiable + allowances.taxable)
       }
     };
   }
+
+  /**
+   * Employer cost (Arbeitgeberbrutto): gross and allowances plus the employer share of the
+   * social contributions, Umlagen U1/U2, Insolvenzgeldumlage, Zusatzversorgung and the
+   * employer subsidy to an Entgeltumwandlung.
+   * Sonstige Bezüge of the input only count towards the yearly total.
+   *
+   * @param input - Salary input of the employee
+   * @param options - Employer-specific rates and monthly allowances
+   * @returns Monthly employer cost breakdown and yearly total
+   */
+  public calculateEmployerCost(input: SalaryInput, options: EmployerCostOptions = {}): EmployerCost {
+    const params = getSocialInsuranceParameters(input.year);
+    const payments = input.sonstigeBezuege ?? [];
+    const instalments = payments.filter(p => p.month === undefined).reduce((sum, p) => sum + p.amount, 0);
+    const oneOff = payments.filter(p => p.month !== undefined).reduce((sum, p) => sum + p.amount, 0);
+    const taxFree = options.allowances?.taxFree ?? 0;
+    // Tax-free surcharges subject to contributions are paid within taxFree, contributions are due on them
+    const svLiable = input.svLiableAllowances ?? 0;
+
+    const gross = (input.yearlySalary + instalments) / 12 + (options.allowances?.taxable ?? 0);
+    const monthly = this.calculateEmployerContributions(input, gross + svLiable, params, options);
+    // One-off payments spread over the year, so the Jahres-BBG applies
+    const yearly = oneOff > 0
+      ? this.calculateEmployerContributions(input, gross + svLiable + oneOff / 12, params, options)
+      : monthly;
+
+    return {
+      gross: this.round(gross),
+      taxFreeAllowances: this.round(taxFree),
+      socialSecurity: {
+        kv: this.round(monthly.socialSecurity.kv),
+        rv: this.round(monthly.socialSecurity.rv),
+        av: this.round(monthly.socialSecurity.av),
+        pv: this.round(monthly.socialSecurity.pv),
+      },
+      pkvSubsidy: this.round(monthly.pkvSubsidy),
+      levies: {
+        u1: this.round(monthly.levies.u1),
+        u2: this.round(monthly.levies.u2),
+        insolvency: this.round(monthly.levies.insolvency),
+      },
+      zusatzversorgung: this.round(monthly.zusatzversorgung),
+      bavSubsidy: this.round(monthly.bavSubsidy),
+      flatTax: this.round(monthly.flatTax),
+      total: this.round(monthly.total - svLiable + taxFree),
+      yearlyTotal: this.round((yearly.total - svLiable + taxFree) * 12),
+    };
+  }
+
+  /**
+   * Employer payments for a monthly gross (unrounded), total includes the gross itself
+   */
+  private calculateEmployerContributions(
+    input: SalaryInput,
+    gross: number,
+    params: SocialInsuranceParameters,
+    options: EmployerCostOptions
+  ) {
+    const employmentType = this.getEmploymentType(gross, params);
+
+    // Entgeltumwandlung: no contributions on the SV-free part, the employer adds the subsidy (§1a Abs. 1a BetrAVG)
+    const entgeltumwandlung = this.getEntgeltumwandlung(input, params);
+    const svGross = gross - (entgeltumwandlung?.svFree ?? 0);
+    const bavSubsidy = entgeltumwandlung?.employerSubsidy ?? 0;
+
+    // Umlagen and Insolvenzgeldumlage are levied on the RV-pflichtige gross
+    const leviesBase = Math.min(svGross, params.bbgRv / 12);
+    const levies = {
+      u1: leviesBase * (options.u1Rate ?? 0),
+      u2: leviesBase * (options.u2Rate ?? params.averageU2Rate),
+      insolvency: leviesBase * params.insolvencyLevyRate,
+    };
+    const zusatzversorgungRate = options.zusatzversorgungRate
+      ?? (input.zusatzversorgung ? (input.zusatzversorgung.employerUmlageRate + input.zusatzversorgung.employerBeitragRate) / 100 : 0);
+    const zusatzversorgung = gross * zusatzversorgungRate;
+
+    let socialSecurity = { kv: 0, rv: 0, av: 0, pv: 0 };
+    let pkvSubsidy = 0;
+    let flatTax = 0;
+
+    if (employmentType === 'minijob') {
+      // Pauschalbeiträge RV (and KV for statutory insured) plus Pauschsteuer
+      socialSecurity.rv = svGross * params.minijobEmployerRvRate;
+      socialSecurity.kv = input.isPrivateHealthInsurance ? 0 : svGross * params.minijobEmployerKvRate;
+      flatTax = gross * params.minijobFlatTaxRate;
+    } else {
+      const totalRates = {
+        rv: params.rvRate,
+        av: params.avRate,
+        kv: params.kvRate + this.getZusatzbeitrag(input, params) / 100,
+        pv: params.pvRate,
+      };
+      const employerRates = {
+        rv: totalRates.rv / 2,
+        av: totalRates.av / 2,
+        kv: totalRates.kv / 2,
+        pv: params.pvRate / 2 - (input.state === 'sachsen' ? params.pvSachsenEmployeeExtra : 0),
+      };
+
+      const contribution = (key: keyof typeof totalRates, bbg: number) => {
+        if (employmentType === 'regular') {
+          return Math.min(svGross, bbg / 12) * employerRates[key];
+        }
+        // Midijob: total contribution on the beitragspflichtige Einnahme (Faktor F)
+        // minus the employee share on the reduced amount (§20 Abs. 2a SGB IV)
+        const range = params.midijobUpperLimit - params.minijobLimit;
+        const totalBase = params.midijobFactor * params.minijobLimit
+          + (params.midijobUpperLimit / range - params.minijobLimit / range * params.midijobFactor) * (svGross - params.minijobLimit);
+        const employeeBase = params.midijobUpperLimit / range * (svGross - params.minijobLimit);
+        return totalBase * totalRates[key] - employeeBase * (totalRates[key] - employerRates[key]);
+      };
+
+      socialSecurity = {
+        rv: contribution('rv', params.bbgRv),
+        av: contribution('av', params.bbgRv),
+        kv: input.isPrivateHealthInsurance ? 0 : contribution('kv', params.bbgKvPv),
+        pv: input.isPrivateHealthInsurance ? 0 : contribution('pv', params.bbgKvPv),
+      };
+      if (input.isPrivateHealthInsurance) {
+        pkvSubsidy = this.calculatePkvEmployerSubsidy({ ...input, yearlySalary: gross * 12 }, params);
+      }
+    }
+
+    const total = gross + socialSecurity.kv + socialSecurity.rv + socialSecurity.av + socialSecurity.pv
+      + pkvSubsidy + levies.u1 + levies.u2 + levies.insolvency + zusatzversorgung + bavSubsidy + flatTax;
+
+    return { socialSecurity, pkvSubsidy, levies, zusatzversorgung, bavSubsidy, flatTax, total };
+  }
 }
@@ -0,0 +1,83 @@
+/**
+ * Zusatzversorgung (betriebliche Altersversorgung des öffentlichen und kirchlichen Dienstes)
+ * of one Kasse / Abrechnungsverband, rates in percent of the zusatzversorgungspflichtiges Entgelt
+ */
+export interface Zusatzversorgung {
+  /** Display name, e.g. "VBL West" */
+  name: string;
+  /** Umlage paid by the employer (taxable beyond the §3 Nr. 56 and §40b limits) */
+  employerUmlageRate: number;
+  /** Capital-funded contribution of the employer (tax-free under §3 Nr. 63 EStG) */
+  employerBeitragRate: number;
+  /** Employee share (Umlage and Beitrag), deducted from the net */
+  employeeRate: number;
+}
+
+/**
+ * Zusatzversorgung by tariff, West and East (Tarifgebiet Ost incl. Sachsen).
+ * Values of the larger Kassen (VBL Satzung, KZVK Dortmund); municipal ZVKs
+ * and single employers can differ, then pass their rates in SalaryInput.
+ */
+const ZUSATZVERSORGUNG_BY_TARIF: Record<string, { west: Zusatzversorgung; east: Zusatzversorgung }> = {
+  tvoed: {
+    west: { name: 'VBL West', employerUmlageRate: 6.45, employerBeitragRate: 0, employeeRate: 1.81 },
+    east: { name: 'VBL Ost', employerUmlageRate: 1.0, employerBeitragRate: 2.0, employeeRate: 2.25 },
+  },
+  'tv-l': {
+    west: { name: 'VBL West', employerUmlageRate: 6.45, employerBeitragRate: 0, employeeRate: 1.81 },
+    east: { name: 'VBL Ost', employerUmlageRate: 1.0, employerBeitragRate: 2.0, employeeRate: 2.25 },
+  },
+  'avr-caritas': {
+    west: { name: 'KZVK', employerUmlageRate: 4.8, employerBeitragRate: 0, employeeRate: 0 },
+    east: { name: 'KZVK', employerUmlageRate: 4.8, employerBeitragRate: 0, employeeRate: 0 },
+  },
+  'avr-dd': {
+    west: { name: 'EZVK', employerUmlageRate: 4.8, employerBeitragRate: 0, employeeRate: 0 },
+    east: { name: 'EZVK', employerUmlageRate: 4.8, employerBeitragRate: 0, employeeRate: 0 },
+  },
+  'tv-drk': {
+    west: { name: 'VBL West', employerUmlageRate: 6.45, employerBeitragRate: 0, employeeRate: 1.81 },
+    east: { name: 'VBL Ost', employerUmlageRate: 1.0, employerBeitragRate: 2.0, employeeRate: 2.25 },
+  },
+  // Trainees are insured in the Zusatzversorgung like the employees
+  'tvaoed-pflege': {
+    west: { name: 'VBL West', employerUmlageRate: 6.45, employerBeitragRate: 0, employeeRate: 1.81 },
+    east: { name: 'VBL Ost', employerUmlageRate: 1.0, employerBeitragRate: 2.0, employeeRate: 2.25 },
+  },
+};
+
+/**
+ * Employer Umlage tax-free under §3 Nr. 56 EStG, in percent of the yearly BBG RV
+ */
+export const ZUSATZVERSORGUNG_TAX_FREE_RATE = 4;
+
+/**
+ * Employer Umlage the employer taxes at a flat rate (§40b EStG a.F.), monthly in Euro
+ */
+export const ZUSATZVERSORGUNG_FLAT_TAX_LIMIT = 92.03;
+
+/**
+ * Zusatzversorgung of a tariff, undefined for tariffs without one
+ *
+ * @param tarif - Tariff id (see TARIFF_PROVIDERS)
+ * @param state - State category of SalaryInput ('east' and 'sachsen' use the East rates)
+ */
+export function getZusatzversorgung(tarif: string | undefined, state: 'west' | 'east' | 'sachsen'): Zusatzversorgung | undefined {
+  const entry = tarif ? ZUSATZVERSORGUNG_BY_TARIF[tarif] : undefined;
+  if (!entry) return undefined;
+  return state === 'west' ? entry.west : entry.east;
+}
+
+/**
+ * Part of the employer Umlage that is individually taxed (added to the Arbeitslohn),
+ * monthly in Euro: what exceeds the tax-free amount and the flat-taxed amount
+ *
+ * @param zusatzversorgung - Kasse of the employee
+ * @param monthlyGross - Zusatzversorgungspflichtiges Entgelt of the month
+ * @param bbgRv - Yearly Beitragsbemessungsgrenze RV
+ */
+export function getTaxableEmployerUmlage(zusatzversorgung: Zusatzversorgung, monthlyGross: number, bbgRv: number): number {
+  const umlage = monthlyGross * zusatzversorgung.employerUmlageRate / 100;
+  const taxFree = bbgRv * ZUSATZVERSORGUNG_TAX_FREE_RATE / 100 / 12;
+  return Math.max(0, umlage - taxFree - ZUSATZVERSORGUNG_FLAT_TAX_LIMIT);
+}
@@ -1,4 +1,11 @@
 export * from './types';
 export * from './TaxWrapper';
+export * from './Entgeltumwandlung';
+export * from './Faktorverfahren';
+export * from './Kirchensteuer';
+export * from './Krankenkassen';
+export * from './Zusatzversorgung';
+export * from './LohnsteuerRegistry';
+export * from './SozialversicherungRegistry';
 export * from './Lohnsteuer2025';
 export * from './Lohnsteuer2026';
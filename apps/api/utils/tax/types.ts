@@ -1,3 +1,5 @@
+import type { Zusatzversorgung } from './Zusatzversorgung';
+
 export interface TaxInput {
   // BMF Input Parameters (2025/2026)
   af?: number; // 1 = Faktorverfahren (nur StKl 4)
@@ -54,16 +56,46 @@ export interface SalaryInput {
   taxClass: number; // 1-6
   hasChildren: boolean;
   childCount: number;
-  churchTax: 'none' | 'bayern' | 'baden_wuerttemberg' | 'common'; // Bayern/BW often have different rates (8% vs 9%), usually handled by R=1 and external calc, but we can refine
+  childAllowanceFactor?: number; // Kinderfreibetrag per child: 0.5 (shared with the other parent) or 1.0, default by tax class
+  churchTax: 'none' | 'bayern' | 'baden_wuerttemberg' | 'common'; // 8% in Bayern/BW, 9% ('common') elsewhere
   state: 'west' | 'east' | 'sachsen'; // Sachsen specific PV
+  bundesland?: string; // e.g. 'Bayern', used for the church tax Kappung (see Kirchensteuer.ts)
   year: number; // 2025, 2026
-  healthInsuranceAddOn: number; // e.g. 1.6
+  healthInsuranceAddOn?: number; // e.g. 2.9, defaults to the year's average Zusatzbeitrag
   birthYear?: number; // For interaction with ALTER1
-  isPrivateHealthInsurance?: boolean; // simple toggle for now
+  isPrivateHealthInsurance?: boolean; // PKV instead of gesetzliche KV/PV
+  privateHealthInsurancePremium?: number; // Monthly PKV + PPV premium in Euro (Basisabsicherung)
+  taxFactor?: number; // Faktor for Steuerklasse IV mit Faktor (§39f EStG), e.g. 0.953
+  sonstigeBezuege?: SonstigerBezug[]; // One-off payments of the year (Jahressonderzahlung, Leistungsentgelt)
+  zusatzversorgung?: Zusatzversorgung; // VBL/ZVK/KZVK of the employer (see Zusatzversorgung.ts)
+  entgeltumwandlung?: number; // Monthly Entgeltumwandlung into a bAV in Euro (see Entgeltumwandlung.ts)
+  svLiableAllowances?: number; // Monthly tax-free §3b surcharges subject to contributions (hourly base above 25 €, §1 SvEV)
 }
 
+/**
+ * One-off payment of a year, e.g. Jahressonderzahlung (§20 TVöD) or Leistungsentgelt (§18 TVöD).
+ * Paid in one month it is taxed as sonstiger Bezug (SONSTB), spread across the year
+ * (no month) it is part of the laufender Arbeitslohn.
+ */
+export interface SonstigerBezug {
+  label: string;
+  /** Gross amount of the year in Euro */
+  amount: number;
+  /** Month of payment (1-12); undefined = paid in twelve monthly instalments */
+  month?: number;
+}
+
+/**
+ * Kind of employment derived from the monthly gross:
+ * - minijob: up to the Geringfügigkeitsgrenze (only the employee's RV share, flat-rate tax paid by the employer)
+ * - midijob: Übergangsbereich, reduced employee social contributions
+ * - regular: full contributions
+ */
+export type EmploymentType = 'regular' | 'midijob' | 'minijob';
+
 export interface TaxResult {
   netto: number;
+  employmentType: EmploymentType;
   taxes: {
     lohnsteuer: number;
     soli: number;
@@ -74,7 +106,156 @@ export interface TaxResult {
     rv: number; // approx derived/calculated
     av: number; // approx derived/calculated
     pv: number; // approx derived/calculated
+    zusatzversorgung?: number; // Employee share VBL/ZVK, only with a Zusatzversorgung
+  };
+  /** Only for PKV: the premium is paid by the employee, the employer subsidy is paid out with the salary */
+  privateHealthInsurance?: {
+    premium: number;
+    employerSubsidy: number;
+  };
+  /** Only with Entgeltumwandlung: monthly amounts, the converted amount is already deducted from netto */
+  entgeltumwandlung?: {
+    amount: number;
+    employerSubsidy: number;
+    /** Monthly contribution into the contract (amount + employerSubsidy) */
+    contribution: number;
+    taxFree: number;
+    svFree: number;
   };
+  /** Only with one-off payments: deductions on the sonstige Bezüge (yearly amounts, not in the monthly values) */
+  sonstigeBezuege?: {
+    payments: SonstigerBezug[];
+    gross: number;
+    lohnsteuer: number;
+    soli: number;
+    kirchensteuer: number;
+    socialSecurity: number;
+    netto: number;
+  };
+}
+
+/**
+ * Mid-year and one-off changes for the month-by-month projection
+ */
+export interface MonthlyProjectionOptions {
+  /** Changes of the regular monthly gross from a month on (Stufenaufstieg, Tariferhöhung) */
+  salaryChanges?: Array<{ fromMonth: number; monthlyGross: number; reason: string }>;
+  /** Sonstige Bezüge paid in a month (e.g. Jahressonderzahlung), gross in Euro */
+  specialPayments?: Array<{ month: number; amount: number; label: string }>;
+  /** Tax-free amounts added to every month's net (e.g. §3b EStG surcharges, incl. SalaryInput.svLiableAllowances) */
+  taxFreeMonthly?: number;
+}
+
+/**
+ * One month of the projection (all amounts in Euro)
+ */
+export interface MonthlyPayslip {
+  /** 1 = January ... 12 = December */
+  month: number;
+  regularGross: number;
+  specialPayment: number;
+  lohnsteuer: number;
+  soli: number;
+  kirchensteuer: number;
+  socialSecurity: number;
+  netto: number;
+  /** Why this month differs, e.g. "Jahressonderzahlung" or "Tariferhöhung" */
+  notes: string[];
+}
+
+/**
+ * Result of the reverse calculation (net to gross)
+ */
+export interface GrossForNettoResult {
+  /** Monthly gross (without allowances) needed for the target net, in Euro */
+  monthlyGross: number;
+  /** Monthly net reached at that gross (incl. tax-free allowances, if given) */
+  netto: number;
+  /** False if the target is above what the search range can reach */
+  reachable: boolean;
+  /** Full calculation at the found gross */
+  result: TaxResult;
+}
+
+/**
+ * One Steuerklassen combination of a married couple, from the user's perspective
+ * (taxClass is the user's class, partnerTaxClass the spouse's)
+ */
+export interface TaxClassOption {
+  label: 'III/V' | 'V/III' | 'IV/IV' | 'IV/IV mit Faktor';
+  taxClass: number;
+  partnerTaxClass: number;
+  /** Only for IV/IV mit Faktor */
+  factor?: number;
+  /** Monthly net of the user */
+  netto: number;
+  /** Monthly net of the spouse */
+  partnerNetto: number;
+  /** Monthly net of both spouses */
+  combinedNetto: number;
+}
+
+/**
+ * Comparison of the Steuerklassen combinations for a married couple
+ */
+export interface TaxClassComparison {
+  options: TaxClassOption[];
+  /** Label of the option with the highest combined monthly net */
+  recommended: TaxClassOption['label'];
+}
+
+/**
+ * Employer-specific rates and payments for the employer cost, rates as fractions
+ */
+export interface EmployerCostOptions {
+  /** Umlage U1 (Entgeltfortzahlung), only for employers with up to 30 employees; default 0 */
+  u1Rate?: number;
+  /** Umlage U2 (Mutterschaft) of the employer's Kasse; default: typical rate of the year */
+  u2Rate?: number;
+  /** Employer contribution to the Zusatzversorgung (VBL/ZVK Umlage) on the gross */
+  zusatzversorgungRate?: number;
+  /**
+   * Monthly allowances: taxable ones are subject to contributions, tax-free ones (§3b EStG) are not.
+   * Tax-free surcharges subject to contributions are part of taxFree, set them in SalaryInput.svLiableAllowances.
+   */
+  allowances?: { taxFree: number; taxable: number };
+}
+
+/**
+ * Employer cost (Arbeitgeberbrutto) of an employee, monthly amounts in Euro.
+ * Internal figure for employers, not meant for applicants.
+ */
+export interface EmployerCost {
+  /** Gross incl. taxable allowances */
+  gross: number;
+  /** Tax-free allowances paid on top */
+  taxFreeAllowances: number;
+  /** Employer share of the social contributions (Minijob: Pauschalbeiträge) */
+  socialSecurity: { kv: number; rv: number; av: number; pv: number };
+  /** Only for PKV: subsidy instead of the KV/PV employer share */
+  pkvSubsidy: number;
+  levies: { u1: number; u2: number; insolvency: number };
+  zusatzversorgung: number;
+  /** Only with Entgeltumwandlung: employer subsidy into the contract (15 % of the SV-free amount) */
+  bavSubsidy: number;
+  /** Only for Minijobs: Pauschsteuer */
+  flatTax: number;
+  /** Monthly employer cost */
+  total: number;
+  /** Employer cost of the year incl. sonstige Bezüge */
+  yearlyTotal: number;
+}
+
+/**
+ * Monthly allowances split by their treatment in tax and social insurance (see splitSurcharge in utils/allowances)
+ */
+export interface AllowanceSplit {
+  /** Tax- and contribution-free (§3b EStG, §1 SvEV) */
+  taxFree: number;
+  /** Tax-free but subject to contributions: §3b surcharges on the hourly base between 25 € and 50 € */
+  svLiable?: number;
+  /** Taxable and subject to contributions */
+  taxable: number;
 }
 
 /**
@@ -86,8 +267,10 @@ export interface TaxResultWithAllowances extends TaxResult {
   nettoWithAllowances: number;
   /** Breakdown of allowances for display */
   allowanceBreakdown: {
-    /** Total tax-free allowances (added to netto) */
+    /** Total tax- and contribution-free allowances (added to netto) */
     taxFree: number;
+    /** Total tax-free allowances subject to contributions (added to netto, contributions deducted) */
+    svLiable: number;
     /** Total taxable allowances (included in gross before tax) */
     taxable: number;
     /** Total monthly allowances */
@@ -147,7 +147,7 @@ export default function App({ config }: AppProps) {
 
     try {
       // Get AI response with session ID for server-side state management
-      const { text: rawText, section: newSection, inquiryId: newInquiryId, suggestions: newSuggestions, progress: serverProgress } = await sendMessageToGemini(
+      const { text: rawText, section: newSection, inquiryId: newInquiryId, suggestions: newSuggestions, progress: serverProgress, monthlyProjection } = await sendMessageToGemini(
         textToSend,
         sessionId
       );
@@ -179,6 +179,7 @@ export default function App({ config }: AppProps) {
         sender: Sender.BOT,
         timestamp: new Date(),
         resultData: resultData || undefined,
+        monthlyProjection,
         options: mergedOptions.length > 0 ? mergedOptions : undefined
       };
 
@@ -2,6 +2,7 @@ import React from 'react';
 import { Message, Sender } from '../types';
 import { Bot, User } from 'lucide-react';
 import { SalaryResult } from './SalaryResult';
+import { MonthlyProjectionTable } from './MonthlyProjectionTable';
 import { DoiConsentForm } from './DoiConsentForm';
 
 interface MessageBubbleProps {
@@ -46,6 +47,11 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onOptionS
                 <SalaryResult data={message.resultData} />
             )}
 
+            {/* Display month-by-month payslips with the calculation result */}
+            {message.monthlyProjection && message.monthlyProjection.length > 0 && (
+                <MonthlyProjectionTable rows={message.monthlyProjection} />
+            )}
+
             {/* Display DOI consent form if flagged */}
             {message.showDoiForm && doiFormProps && (
                 <DoiConsentForm {...doiFormProps} />
@@ -0,0 +1,76 @@
+import React from 'react';
+import { MonthlyPayslipRow } from '../types';
+import { CalendarDays } from 'lucide-react';
+
+interface MonthlyProjectionTableProps {
+  rows: MonthlyPayslipRow[];
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mär', 'Apr', 'Mai', 'Jun', 'Jul', 'Aug', 'Sep', 'Okt', 'Nov', 'Dez'];
+
+export const MonthlyProjectionTable: React.FC<MonthlyProjectionTableProps> = ({ rows }) => {
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(val);
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      gross: sum.gross + row.regularGross + row.specialPayment,
+      taxes: sum.taxes + row.lohnsteuer + row.soli + row.kirchensteuer,
+      social: sum.social + row.socialSecurity,
+      netto: sum.netto + row.netto,
+    }),
+    { gross: 0, taxes: 0, social: 0, netto: 0 }
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden mt-4 animate-fade-in-up">
+      <div className="bg-slate-900 text-white p-4 flex items-center gap-2">
+        <CalendarDays size={20} className="text-blue-400" />
+        <h3 className="font-semibold text-lg">Monatsübersicht</h3>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs md:text-sm text-slate-700">
+          <thead className="bg-slate-50 text-slate-400 uppercase tracking-wider text-[10px]">
+            <tr>
+              <th className="px-3 py-2 text-left">Monat</th>
+              <th className="px-3 py-2 text-right">Brutto</th>
+              <th className="px-3 py-2 text-right">Steuern</th>
+              <th className="px-3 py-2 text-right">Sozialabg.</th>
+              <th className="px-3 py-2 text-right">Netto</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.month} className={`border-t border-slate-100 ${row.notes.length > 0 ? 'bg-blue-50/50' : ''}`}>
+                <td className="px-3 py-2">
+                  <span className="font-medium">{MONTH_NAMES[row.month - 1]}</span>
+                  {row.notes.length > 0 && (
+                    <span className="block text-[10px] text-blue-600">{row.notes.join(', ')}</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-right">{formatCurrency(row.regularGross + row.specialPayment)}</td>
+                <td className="px-3 py-2 text-right text-red-500">{formatCurrency(row.lohnsteuer + row.soli + row.kirchensteuer)}</td>
+                <td className="px-3 py-2 text-right text-amber-600">{formatCurrency(row.socialSecurity)}</td>
+                <td className="px-3 py-2 text-right font-semibold text-blue-600">{formatCurrency(row.netto)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="border-t-2 border-slate-200 font-semibold">
+            <tr>
+              <td className="px-3 py-2">Jahr</td>
+              <td className="px-3 py-2 text-right">{formatCurrency(totals.gross)}</td>
+              <td className="px-3 py-2 text-right text-red-500">{formatCurrency(totals.taxes)}</td>
+              <td className="px-3 py-2 text-right text-amber-600">{formatCurrency(totals.social)}</td>
+              <td className="px-3 py-2 text-right text-blue-600">{formatCurrency(totals.netto)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div className="bg-slate-50 p-3 text-xs text-center text-slate-400 border-t border-slate-100">
+        Alle Angaben sind unverbindliche Schätzungen.
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { SectionType } from "../types";
+import { MonthlyPayslipRow, SectionType } from "../types";
 
 interface ChatConfig {
   projectId: string;
@@ -14,7 +14,7 @@ export const initializeChat = (config: ChatConfig) => {
 export const sendMessageToGemini = async (
   userMessage: string,
   sessionId: string
-): Promise<{ text: string; section?: SectionType; inquiryId?: string; suggestions?: string[]; progress?: number }> => {
+): Promise<{ text: string; section?: SectionType; inquiryId?: string; suggestions?: string[]; progress?: number; monthlyProjection?: MonthlyPayslipRow[] }> => {
   if (!currentConfig) {
     throw new Error("Chat not initialized with configuration.");
   }
@@ -44,7 +44,8 @@ export const sendMessageToGemini = async (
       section: data.section,
       inquiryId: data.inquiryId,
       suggestions: data.suggestions || [],
-      progress: data.progress ?? undefined
+      progress: data.progress ?? undefined,
+      monthlyProjection: data.monthlyProjection
     };
 
   } catch (error) {
@@ -9,6 +9,18 @@ export interface SalaryResultData {
   tarif: string;
 }
 
+export interface MonthlyPayslipRow {
+  month: number;
+  regularGross: number;
+  specialPayment: number;
+  lohnsteuer: number;
+  soli: number;
+  kirchensteuer: number;
+  socialSecurity: number;
+  netto: number;
+  notes: string[];
+}
+
 export enum Sender {
   USER = 'user',
   BOT = 'bot'
@@ -21,6 +33,7 @@ export interface Message {
   timestamp: Date;
   isLoading?: boolean;
   resultData?: SalaryResultData;
+  monthlyProjection?: MonthlyPayslipRow[];
   options?: string[];
   showDoiForm?: boolean;
 }